@@ -2,13 +2,20 @@
  * EmbedsScreen - Main component for displaying and managing social media clips
  * 
  * Features:
- * - Grid layout of video clips (YouTube, TikTok, Instagram)
+ * - Grid layout of video clips from every registered provider
  * - Share intent integration for adding new clips
  * - Thumbnail previews and embed playback
- * - Persistent storage with AsyncStorage
- * - Delete functionality for individual clips
+ * - Reads and writes the library through the app-wide clip store
+ * - Delete to Recently Deleted, with an undo toast and timed purge
+ * - Full library export and import as a JSON archive
+ * - Markdown, CSV and bookmark exports of the current view or a category
+ * - Imports from browser bookmarks and YouTube Takeout playlists
+ * - Undo and redo of library edits from the header or by shaking
+ * - Rotating on-device backups with a restore screen
+ * - Sync with a self-hosted sync server, on launch and on demand
+ * - Separate racks with their own clips, categories and filters, switched from the header
+ * - Optional passcode that locks the app and encrypts the library, and locked categories
  */
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Haptics from 'expo-haptics';
 import { useShareIntentContext } from 'expo-share-intent';
 import { StatusBar } from 'expo-status-bar';
@@ -16,418 +23,89 @@ import React from 'react';
 import { Alert, FlatList, Image, Modal, RefreshControl, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { WebView } from 'react-native-webview';
 
+import { PasscodeForm } from '../../components/PasscodeForm';
 import { IconSymbol } from '../../components/ui/IconSymbol';
-import { CATEGORY_COLORS, DEFAULT_CATEGORIES, STARTER_EMBEDS, STORAGE_KEYS } from '../../src/embeds/constants';
+import { useShake } from '../../hooks/useShake';
+import {
+  ArchiveMergePlan,
+  BACKUP_CHANGE_THRESHOLD,
+  BACKUP_LIMIT,
+  BackupInfo,
+  BackupReason,
+  CLIP_LIST_EXPORTERS,
+  ClipListFormat,
+  CollectionSource,
+  ConflictResolution,
+  exportClipList,
+  exportLibraryArchive,
+  exportQuarantine,
+  formatArchiveMergeSummary,
+  ParsedArchive,
+  pickCollectionEntries,
+  pickLibraryArchive,
+  previewArchiveImport,
+  readBackup,
+} from '../../src/embeds/archive';
+import { STARTER_EMBEDS } from '../../src/embeds/constants';
+import {
+  detectClips,
+  detectCollectionClips,
+  DetectedClip,
+  extractSharedUrls,
+  formatImportSummary,
+} from '../../src/embeds/ingest';
+import {
+  generateEmbedHtml,
+  getBaseUrl,
+  getPlayerUri,
+  getProvider,
+  getThumbnailUrl,
+  PLATFORM_TYPES,
+  PROVIDERS,
+} from '../../src/embeds/providers';
+import {
+  DEFAULT_RACK_ID,
+  getPasscodeProblem,
+  PASSCODE_MIN_LENGTH,
+  TRASH_RETENTION_OPTIONS,
+} from '../../src/embeds/storage';
+import {
+  clipActions,
+  getLibraryState,
+  getVisibleCanonicalKeys,
+  lockActions,
+  useAppLock,
+  useBackups,
+  useCategories,
+  useClips,
+  useLibrary,
+  useTrash,
+} from '../../src/embeds/store';
 import { styles } from '../../src/embeds/styles';
-import { Category, EmbedData, Provider } from '../../src/embeds/types';
+import { formatTimestamp, parseTimestamp } from '../../src/embeds/timestamps';
+import { EmbedData, Provider, Rack } from '../../src/embeds/types';
 
-// ============================================================================
-// HTML Generation Utilities
-// ============================================================================
-
-/** Generates YouTube embed HTML with responsive iframe */
-const generateYouTubeHtml = (videoId: string): string => {
-  const embedUrl = `https://www.youtube.com/embed/${videoId}?playsinline=1&modestbranding=1&rel=0`;
-  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>html,body{margin:0;padding:0;background:#000;height:100%;} .wrap{position:fixed;inset:0;}
-  iframe{border:0;width:100%;height:100%;display:block}
-  </style></head><body>
-  <div class="wrap">
-    <iframe src="${embedUrl}" title="YouTube video player" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" allowfullscreen></iframe>
-  </div>
-  </body></html>`;
-};
-
-/** Generates TikTok embed HTML using TikTok's embed script */
-const generateTikTokHtml = (postId: string): string => {
-  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
-  .tiktok-embed{margin:0 auto;width:100%;max-width:500px;}
-  </style></head><body>
-  <div class="wrap">
-    <blockquote class="tiktok-embed" cite="https://www.tiktok.com/@majasrecipes/video/${postId}" data-video-id="${postId}" data-embed-from="oembed">
-      <section></section>
-    </blockquote>
-  </div>
-  <script async src="https://www.tiktok.com/embed.js"></script>
-  </body></html>`;
-};
-
-/** Generates Instagram embed HTML using Instagram's embed script */
-const generateInstagramHtml = (postId: string): string => {
-  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
-  .instagram-media{margin:0 auto;}
-  </style></head><body>
-  <div class="wrap">
-    <blockquote class="instagram-media" data-instgrm-permalink="https://www.instagram.com/p/${postId}/" data-instgrm-version="14"></blockquote>
-  </div>
-  <script async src="https://www.instagram.com/embed.js"></script>
-  </body></html>`;
-};
-
-/** Generates Instagram tile HTML for grid cards - sized to fit within card constraints */
-const generateInstagramTileHtml = (postId: string): string => {
-  return `<!doctype html>
-<html>
-<head>
-<meta name="viewport" content="width=device-width, initial-scale=1" />
-<style>
-  html, body { margin:0; padding:0; height:100%; background:#000; }
-  /* Center the embed within the tile */
-  .wrap {
-    display:flex; align-items:center; justify-content:center;
-    width:100%; height:100%; /* Use full available height */
-    position:relative; /* Better positioning control */
-  }
-  /* Kill Instagram's min/max constraints and let it shrink */
-  .instagram-media {
-    margin:0 auto !important;
-    max-width:100% !important;
-    min-width:0 !important;
-    width:100% !important;
-    transform: scale(1.5) translateY(50px); /* 1.5x zoom + 50px down */
-    transform-origin: center center; /* Scale from center */
-  }
-  /* Instagram injects inner wrappers; make sure they don't force width */
-  .instagram-media, .instagram-media * {
-    box-sizing:border-box;
-    max-width:100% !important;
-  }
-</style>
-</head>
-<body>
-  <div class="wrap">
-    <blockquote class="instagram-media"
-      data-instgrm-permalink="https://www.instagram.com/p/${postId}/"
-      data-instgrm-version="14"></blockquote>
-  </div>
-  <script async src="https://www.instagram.com/embed.js"></script>
-</body>
-</html>`;
-};
-
-/** Main HTML generator - routes to appropriate platform-specific generator */
-const generateEmbedHtml = (embed: EmbedData): string => {
-  if (!embed.type) {
-    return '<html><body><p>Invalid embed data: missing type</p></body></html>';
-  }
-  
-  switch (embed.type) {
-    case 'youtube':
-      if (embed.videoId) {
-        return generateYouTubeHtml(embed.videoId);
-      }
-      break;
-    case 'tiktok':
-      if (embed.postId) {
-        return generateTikTokHtml(embed.postId);
-      }
-      break;
-    case 'instagram':
-      if (embed.postId) {
-        return generateInstagramHtml(embed.postId);
-      }
-      break;
-  }
-  return '<html><body><p>Invalid embed data</p></body></html>';
-};
-
-// ============================================================================
-// URL Parsing & Thumbnail Utilities
-// ============================================================================
-
-/** Returns base URL for WebView origin whitelist */
-const getBaseUrl = (type: 'youtube' | 'tiktok' | 'instagram'): string => {
-  switch (type) {
-    case 'youtube': return 'https://www.youtube.com';
-    case 'tiktok': return 'https://www.tiktok.com';
-    case 'instagram': return 'https://www.instagram.com';
-  }
-};
-
-/** Resolves TikTok short URL to full format */
-const resolveTikTokShortUrl = async (shortUrl: string): Promise<string | null> => {
-  try {
-    console.log('🔄 Resolving TikTok short URL:', shortUrl);
-    
-    // Make a HEAD request to get the redirect URL
-    const response = await fetch(shortUrl, { 
-      method: 'HEAD',
-      redirect: 'manual' // Don't follow redirects automatically
-    });
-    
-    // Check if we got a redirect
-    if (response.status >= 300 && response.status < 400) {
-      const location = response.headers.get('location');
-      if (location) {
-        console.log('✅ Resolved TikTok URL:', location);
-        return location;
-      }
-    }
-    
-    // If no redirect, try a GET request with redirect following
-    const getResponse = await fetch(shortUrl, { redirect: 'follow' });
-    if (getResponse.url !== shortUrl) {
-      console.log('✅ Resolved TikTok URL via GET:', getResponse.url);
-      return getResponse.url;
-    }
-    
-    console.log('❌ Could not resolve TikTok short URL');
-    return null;
-    
-  } catch (error) {
-    console.log('❌ Error resolving TikTok short URL:', error);
-    return null;
-  }
-};
-
-/** Fetches TikTok thumbnail via oEmbed API with fallback URL construction */
-const fetchTikTokThumbnail = async (videoId: string, isShortUrl: boolean = false): Promise<string | null> => {
-  try {
-    if (isShortUrl) {
-      // For short URLs, we can't use oEmbed API directly
-      // Return a placeholder or try to construct a generic thumbnail
-      console.log('🔄 Short TikTok URL detected, using placeholder');
-      return null; // Will fall back to the "TIKTOK" text display
-    }
-    
-    // Try TikTok's oEmbed API first
-    const oembedUrl = `https://www.tiktok.com/oembed?url=https://www.tiktok.com/@username/video/${videoId}`;
-    const response = await fetch(oembedUrl);
-    
-    if (response.ok) {
-      const data = await response.json();
-      if (data.thumbnail_url) {
-        console.log('✅ TikTok thumbnail from oEmbed:', data.thumbnail_url);
-        return data.thumbnail_url;
-      }
-    }
-    
-    // Fallback: Try to construct thumbnail URL from video ID
-    // This is a common pattern for TikTok thumbnails
-    const fallbackUrl = `https://p16-sign-va.tiktokcdn-us.com/obj/tos-useast2a-p-0037-euttp/${videoId}_n.jpeg`;
-    console.log('🔄 Trying TikTok fallback thumbnail:', fallbackUrl);
-    return fallbackUrl;
-    
-  } catch (error) {
-    console.log('❌ TikTok thumbnail fetch error:', error);
-    return null;
-  }
-};
-
-
-/** Returns thumbnail URL for YouTube, null for others (handled separately) */
-const getThumbnailUrl = (embed: EmbedData): string | null => {
-  if (!embed.type) {
-    return null;
-  }
-  
-  switch (embed.type) {
-    case 'youtube':
-      if (embed.videoId) {
-        return `https://img.youtube.com/vi/${embed.videoId}/hqdefault.jpg`;
-      }
-      break;
-    case 'tiktok':
-      // TikTok thumbnails need to be fetched dynamically
-      return null;
-    case 'instagram':
-      // Instagram uses WebView embeds, no thumbnail needed
-      return null;
-  }
-  return null;
-};
-
-/** Parses Instagram URLs (posts/reels) and extracts post ID, username, and content type */
-const parseInstagramUrl = (url: string): { postId: string; username?: string; contentType: 'post' | 'reel' } | null => {
-  // Instagram URL patterns:
-  // https://www.instagram.com/p/POST_ID/ (posts)
-  // https://www.instagram.com/reel/REEL_ID/ (reels)
-  // https://www.instagram.com/username/p/POST_ID/
-  // https://www.instagram.com/username/reel/REEL_ID/
-  const instagramRegex = /(?:https?:\/\/(?:www\.)?instagram\.com(?:\/[^\/]+)?\/(p|reel)\/([^\/\?]+))/;
-  const match = url.match(instagramRegex);
-  
-  if (match) {
-    const contentType = match[1] as 'post' | 'reel';
-    const postId = match[2];
-    
-    // Extract username if present
-    const usernameMatch = url.match(/instagram\.com\/([^\/]+)\/(p|reel)\//);
-    const username = usernameMatch ? usernameMatch[1] : undefined;
-    
-    return { postId, username, contentType };
-  }
-  
-  return null;
-};
-
-/** Parses YouTube URLs and extracts video ID */
-const parseYouTubeUrl = (url: string): { videoId: string } | null => {
-  // YouTube URL patterns:
-  // https://www.youtube.com/watch?v=VIDEO_ID
-  // https://youtu.be/VIDEO_ID
-  // https://youtube.com/shorts/VIDEO_ID (YouTube Shorts)
-  // https://www.youtube.com/shorts/VIDEO_ID (YouTube Shorts)
-  const youtubeRegex = /(?:https?:\/\/(?:www\.)?youtube\.com\/(?:watch\?v=|shorts\/)|https?:\/\/youtu\.be\/)([^&\n?#]+)/;
-  const match = url.match(youtubeRegex);
-  
-  if (match) {
-    return { videoId: match[1] };
-  }
-  
-  return null;
-};
-
-/** Parses TikTok URLs and extracts video ID and username */
-const parseTikTokUrl = (url: string): { postId: string; username?: string; isShortUrl?: boolean } | null => {
-  // TikTok URL patterns:
-  // https://www.tiktok.com/@username/video/POST_ID (full format)
-  // https://tiktok.com/@username/video/POST_ID (full format)
-  // https://vt.tiktok.com/SHORT_ID (shortened format)
-  const fullTiktokRegex = /(?:https?:\/\/(?:www\.)?tiktok\.com\/@([^\/]+)\/video\/([^\/\?]+))/;
-  const shortTiktokRegex = /(?:https?:\/\/vt\.tiktok\.com\/([^\/\?]+))/;
-  
-  const fullMatch = url.match(fullTiktokRegex);
-  if (fullMatch) {
-    const username = fullMatch[1];
-    const postId = fullMatch[2];
-    return { postId, username };
-  }
-  
-  const shortMatch = url.match(shortTiktokRegex);
-  if (shortMatch) {
-    const shortId = shortMatch[1];
-    return { postId: shortId, isShortUrl: true };
-  }
-  
-  return null;
-};
-
-/** Creates EmbedData object from shared URL, converts reel URLs to post format */
-const createEmbedFromUrl = async (url: string): Promise<EmbedData | null> => {
-  // Try Instagram first
-  const instagramData = parseInstagramUrl(url);
-  if (instagramData) {
-    const contentType = instagramData.contentType === 'reel' ? 'Reel' : 'Post';
-    
-    // Convert reel URLs to post format for consistency
-    const cleanUrl = instagramData.contentType === 'reel' 
-      ? `https://www.instagram.com/p/${instagramData.postId}/`
-      : url;
-    
-    return {
-      id: `instagram-${instagramData.postId}-${Date.now()}`,
-      type: 'instagram',
-      title: `Instagram ${contentType}`,
-      subtitle: instagramData.username ? `@${instagramData.username}` : instagramData.postId,
-      url: cleanUrl, // Use the cleaned URL
-      postId: instagramData.postId,
-      username: instagramData.username,
-      createdAt: Date.now()
-    };
-  }
-  
-  // Try YouTube
-  const youtubeData = parseYouTubeUrl(url);
-  if (youtubeData) {
-    const isShorts = url.includes('/shorts/');
-    return {
-      id: `youtube-${youtubeData.videoId}-${Date.now()}`,
-      type: 'youtube',
-      title: isShorts ? 'YouTube Short' : 'YouTube Video',
-      subtitle: `Open ${youtubeData.videoId}`,
-      url: url,
-      videoId: youtubeData.videoId,
-      createdAt: Date.now()
-    };
-  }
-  
-  // Try TikTok
-  const tiktokData = parseTikTokUrl(url);
-  if (tiktokData) {
-    let finalUrl = url;
-    let finalPostId = tiktokData.postId;
-    let finalUsername = tiktokData.username;
-    let isShortUrl = tiktokData.isShortUrl;
-    
-    // If it's a short URL, try to resolve it
-    if (tiktokData.isShortUrl) {
-      const resolvedUrl = await resolveTikTokShortUrl(url);
-      if (resolvedUrl) {
-        // Parse the resolved URL to get the full format data
-        const resolvedData = parseTikTokUrl(resolvedUrl);
-        if (resolvedData && !resolvedData.isShortUrl) {
-          finalUrl = resolvedUrl;
-          finalPostId = resolvedData.postId;
-          finalUsername = resolvedData.username;
-          isShortUrl = false;
-          console.log('✅ Successfully resolved TikTok short URL to full format');
-        }
-      }
-    }
-    
-    return {
-      id: `tiktok-${finalPostId}-${Date.now()}`,
-      type: 'tiktok',
-      title: 'TikTok Video',
-      subtitle: finalUsername ? `@${finalUsername}` : (isShortUrl ? 'Short URL' : finalPostId),
-      url: finalUrl,
-      postId: finalPostId,
-      username: finalUsername,
-      isShortUrl: isShortUrl,
-      createdAt: Date.now()
-    };
-  }
-  
-  return null;
-};
-
-// ============================================================================
-// Storage Functions
-// ============================================================================
-
-/** Saves dynamic embeds to AsyncStorage */
-const saveDynamicEmbeds = async (embeds: EmbedData[]): Promise<void> => {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEYS.DYNAMIC_EMBEDS, JSON.stringify(embeds));
-  } catch (error) {
-    console.error('Failed to save dynamic embeds:', error);
-  }
-};
+// Clips are loaded from the store a page at a time as the grid scrolls
+const CLIP_PAGE_SIZE = 40;
 
+// How long the undo toast stays up after a delete
+const UNDO_TOAST_MS = 6000;
 
-/** Loads dynamic embeds from AsyncStorage */
-const loadDynamicEmbeds = async (): Promise<EmbedData[]> => {
-  try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.DYNAMIC_EMBEDS);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error('Failed to load dynamic embeds:', error);
-    return [];
-  }
-};
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-/** Saves categories to AsyncStorage */
-const saveCategories = async (categories: Category[]): Promise<void> => {
-  try {
-    await AsyncStorage.setItem(STORAGE_KEYS.CATEGORIES, JSON.stringify(categories));
-  } catch (error) {
-    console.error('Failed to save categories:', error);
-  }
+const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+  scheduled: 'Automatic',
+  manual: 'Manual',
+  'before-import': 'Before Import',
+  'before-restore': 'Before Restore',
 };
 
-/** Loads categories from AsyncStorage */
-const loadCategories = async (): Promise<Category[]> => {
-  try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.CATEGORIES);
-    return stored ? JSON.parse(stored) : DEFAULT_CATEGORIES;
-  } catch (error) {
-    console.error('Failed to load categories:', error);
-    return DEFAULT_CATEGORIES;
-  }
-};
+// How an archive import settles clips both libraries have
+const CONFLICT_RESOLUTIONS: { key: ConflictResolution; label: string; description: string }[] = [
+  { key: 'keep-mine', label: 'Keep Mine', description: 'Leave clips on this device as they are' },
+  { key: 'keep-theirs', label: 'Keep Theirs', description: 'Replace them with the archived copies' },
+  { key: 'merge-categories', label: 'Merge Categories', description: 'Keep mine, adding the archived categories' },
+];
 
 // ============================================================================
 // Main Component
@@ -437,87 +115,182 @@ const loadCategories = async (): Promise<Category[]> => {
 export default function EmbedsScreen() {
   const [active, setActive] = React.useState<Provider>('menu');
   const [selectedEmbed, setSelectedEmbed] = React.useState<EmbedData | null>(null);
-  const [dynamicEmbeds, setDynamicEmbeds] = React.useState<EmbedData[]>([]);
-  const [isLoading, setIsLoading] = React.useState(true);
-  const [tiktokThumbnails, setTiktokThumbnails] = React.useState<Record<string, string>>({});
+  const [remoteThumbnails, setRemoteThumbnails] = React.useState<Record<string, string>>({});
   const [loadingThumbnails, setLoadingThumbnails] = React.useState<Set<string>>(new Set());
   const [loadingInstagramEmbeds, setLoadingInstagramEmbeds] = React.useState<Set<string>>(new Set());
-  const [showShareBanner, setShowShareBanner] = React.useState(false);
+  const [shareSummary, setShareSummary] = React.useState<string | null>(null);
+  const [pendingImport, setPendingImport] = React.useState<{ detected: DetectedClip[]; rack: Rack } | null>(null);
+  const [isDetectingShare, setIsDetectingShare] = React.useState(false);
+  const [collectionProgress, setCollectionProgress] = React.useState<string | null>(null);
+  const [pendingArchive, setPendingArchive] = React.useState<{ archive: ParsedArchive; preview: ArchiveMergePlan } | null>(null);
+  const [archiveResolution, setArchiveResolution] = React.useState<ConflictResolution>('keep-mine');
+  const [showLibrary, setShowLibrary] = React.useState(false);
+  const [listExportCategory, setListExportCategory] = React.useState<string | null>(null); // null exports the current view
+  const [showTrash, setShowTrash] = React.useState(false);
+  const [showBackups, setShowBackups] = React.useState(false);
+  const [syncServerInput, setSyncServerInput] = React.useState<string | null>(null); // null while untouched
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const [showRacks, setShowRacks] = React.useState(false);
+  const [newRackName, setNewRackName] = React.useState('');
+  const [newRackHasStarterContent, setNewRackHasStarterContent] = React.useState(false);
+  const [renamingRack, setRenamingRack] = React.useState<{ id: string; name: string } | null>(null);
+  const [rackChoice, setRackChoice] = React.useState<{
+    title: string;
+    racks: Rack[];
+    choose: (rack: Rack) => void;
+    cancel?: () => void;
+  } | null>(null);
+  const [passcodePrompt, setPasscodePrompt] = React.useState<{
+    title: string;
+    message: string;
+    submitLabel: string;
+    submit: (passcode: string) => Promise<string | null>;
+  } | null>(null);
+  const [undoToast, setUndoToast] = React.useState<{ message: string; undoLabel: string } | null>(null);
   const [showFilterPage, setShowFilterPage] = React.useState(false);
-  const [selectedSites, setSelectedSites] = React.useState<Set<string>>(new Set(['youtube', 'tiktok', 'instagram']));
+  const [selectedSites, setSelectedSites] = React.useState<Set<string>>(new Set(PLATFORM_TYPES));
   const [refreshing, setRefreshing] = React.useState(false);
-  const [categories, setCategories] = React.useState<Category[]>([]);
   const [showClipDetails, setShowClipDetails] = React.useState(false);
   const [selectedClipForDetails, setSelectedClipForDetails] = React.useState<EmbedData | null>(null);
   const [showCategoryDropdown, setShowCategoryDropdown] = React.useState(false);
   const [showCategoryManager, setShowCategoryManager] = React.useState(false);
   const [selectedCategories, setSelectedCategories] = React.useState<Set<string>>(new Set());
   const [newCategoryName, setNewCategoryName] = React.useState('');
+  const [renamingCategory, setRenamingCategory] = React.useState<{ id: string; name: string } | null>(null);
+  const [startTimeInput, setStartTimeInput] = React.useState('');
   const [filterByCategory, setFilterByCategory] = React.useState<string | null>(null);
   
   // Ref to track if thumbnails have been loaded to prevent Strict Mode double execution
   const thumbnailsLoadedRef = React.useRef(false);
   
+  // Ref to the last processed share so re-renders don't import it twice
+  const processedShareRef = React.useRef<string | null>(null);
+  const shareInProgressRef = React.useRef<string | null>(null);
+  
+  // Ref to the undo toast's hide timer, restarted by every delete
+  const undoTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Ref to the racks synced since launch, so each syncs once when first opened
+  const syncedRacksRef = React.useRef(new Set<string>());
+  
+  // Ref to the rack whose saved filters are showing; filter changes are saved to it
+  const filtersRackRef = React.useRef<string | null>(null);
+  
   const { hasShareIntent, shareIntent, resetShareIntent } = useShareIntentContext();
 
-  // Load saved dynamic embeds and categories on component mount
+  const {
+    isLoaded,
+    racks,
+    activeRackId,
+    rackFilters,
+    lockedCategoryIds,
+    hiddenCategoryIds,
+    newestClipId,
+    trashCount,
+    trashRetentionDays,
+    undoLabel,
+    redoLabel,
+    syncServerUrl,
+    lastSyncedAt,
+  } = useLibrary();
+  const { hasPasscode, isLocked } = useAppLock();
+
+  // Platform and category filters, applied by the store's clip query, which also leaves out hidden categories
+  const clipQuery = React.useMemo(() => ({
+    platforms: PLATFORM_TYPES.filter(type => selectedSites.has(type)),
+    categoryId: filterByCategory,
+    hiddenCategoryIds,
+  }), [selectedSites, filterByCategory, hiddenCategoryIds]);
+  const trash = useTrash(showTrash);
+  const backups = useBackups(showBackups);
+  const { categories, categoryCounts } = useCategories();
+  const {
+    clips: dynamicEmbeds,
+    total: clipCount,
+    isLoading,
+    hasMore,
+    loadMore,
+    reload: reloadClips,
+  } = useClips(clipQuery, CLIP_PAGE_SIZE);
+
+  // A category deleted from any screen stops filtering this one
   React.useEffect(() => {
-    const loadSavedData = async () => {
-      const [savedEmbeds, savedCategories] = await Promise.all([
-        loadDynamicEmbeds(),
-        loadCategories()
-      ]);
-      setDynamicEmbeds(savedEmbeds);
-      setCategories(savedCategories);
-      setIsLoading(false);
-    };
-    loadSavedData();
-  }, []);
+    if (filterByCategory && !categories.some(category => category.id === filterByCategory)) {
+      setFilterByCategory(null);
+    }
+  }, [categories, filterByCategory]);
+
+  const activeRack = racks.find(rack => rack.id === activeRackId) ?? racks[0];
+  const otherRacks = racks.filter(rack => rack.id !== activeRackId);
+
+  // Each rack opens with the filters it was last viewed with
+  React.useEffect(() => {
+    if (!isLoaded) return;
+    filtersRackRef.current = activeRackId;
+    setSelectedSites(new Set(rackFilters?.platforms ?? PLATFORM_TYPES));
+    setFilterByCategory(rackFilters?.categoryId ?? null);
+  }, [isLoaded, activeRackId]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Fetch thumbnails for specific embeds only (TikTok only)
+  // Filter changes are saved to the rack they were made in
+  React.useEffect(() => {
+    if (filtersRackRef.current !== activeRackId) return;
+    clipActions
+      .saveRackFilters(activeRackId, { platforms: PLATFORM_TYPES.filter(type => selectedSites.has(type)), categoryId: filterByCategory })
+      .catch(error => console.error('Failed to save filters:', error));
+  }, [selectedSites, filterByCategory]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /** Loads the next page of clips when the grid nears its end */
+  const loadMoreClips = async (): Promise<void> => {
+    if (isLoading || !hasMore) return;
+    try {
+      fetchThumbnailsForEmbeds(await loadMore());
+    } catch (error) {
+      console.error('Failed to load more clips:', error);
+    }
+  };
+
+  // Fetch thumbnails for embeds whose provider needs a remote lookup
   const fetchThumbnailsForEmbeds = React.useCallback(async (embeds: EmbedData[]) => {
-    const tiktokEmbeds = embeds.filter(embed => embed.type === 'tiktok' && embed.postId);
+    const remoteEmbeds = embeds.filter(embed => getProvider(embed.type)?.fetchThumbnailUrl);
     
-    // Fetch TikTok thumbnails
-    for (const embed of tiktokEmbeds) {
-      if (embed.postId) {
-        // Check current state values directly instead of relying on closure
-        setTiktokThumbnails(currentThumbnails => {
-          setLoadingThumbnails(currentLoading => {
-            if (!currentThumbnails[embed.postId!] && !currentLoading.has(embed.postId!)) {
-              console.log('🔄 Fetching TikTok thumbnail for:', embed.postId);
-              
-              // Mark as loading
-              const newLoading = new Set([...currentLoading, embed.postId!]);
-              setLoadingThumbnails(newLoading);
-              
-              // Fetch thumbnail asynchronously
-              fetchTikTokThumbnail(embed.postId!, Boolean(embed.isShortUrl))
-                .then(thumbnailUrl => {
-                  if (thumbnailUrl) {
-                    setTiktokThumbnails(prev => ({
-                      ...prev,
-                      [embed.postId!]: thumbnailUrl
-                    }));
-                  }
-                })
-                .catch(error => {
-                  console.error('Failed to fetch TikTok thumbnail for:', embed.postId, error);
-                })
-                .finally(() => {
-                  // Remove from loading state
-                  setLoadingThumbnails(prev => {
-                    const newSet = new Set(prev);
-                    newSet.delete(embed.postId!);
-                    return newSet;
-                  });
+    for (const embed of remoteEmbeds) {
+      const fetchThumbnailUrl = getProvider(embed.type)!.fetchThumbnailUrl!;
+      // Check current state values directly instead of relying on closure
+      setRemoteThumbnails(currentThumbnails => {
+        setLoadingThumbnails(currentLoading => {
+          if (!currentThumbnails[embed.id] && !currentLoading.has(embed.id)) {
+            console.log('🔄 Fetching thumbnail for:', embed.id);
+            
+            // Mark as loading
+            const newLoading = new Set([...currentLoading, embed.id]);
+            setLoadingThumbnails(newLoading);
+            
+            // Fetch thumbnail asynchronously
+            fetchThumbnailUrl(embed)
+              .then(thumbnailUrl => {
+                if (thumbnailUrl) {
+                  setRemoteThumbnails(prev => ({
+                    ...prev,
+                    [embed.id]: thumbnailUrl
+                  }));
+                }
+              })
+              .catch(error => {
+                console.error('Failed to fetch thumbnail for:', embed.id, error);
+              })
+              .finally(() => {
+                // Remove from loading state
+                setLoadingThumbnails(prev => {
+                  const newSet = new Set(prev);
+                  newSet.delete(embed.id);
+                  return newSet;
                 });
-            }
-            return currentLoading;
-          });
-          return currentThumbnails;
+              });
+          }
+          return currentLoading;
         });
-      }
+        return currentThumbnails;
+      });
     }
   }, []); // Remove dependencies to prevent re-creation
 
@@ -526,76 +299,113 @@ export default function EmbedsScreen() {
   React.useEffect(() => {
     if (!isLoading && dynamicEmbeds.length > 0 && !thumbnailsLoadedRef.current) {
       thumbnailsLoadedRef.current = true;
-      fetchThumbnailsForEmbeds([...STARTER_EMBEDS, ...dynamicEmbeds]);
+      fetchThumbnailsForEmbeds(dynamicEmbeds);
     }
   }, [isLoading, dynamicEmbeds, fetchThumbnailsForEmbeds]);
 
-  /** Removes embed from state and AsyncStorage */
+  // Sample clips only need thumbnails in a rack that shows them
+  React.useEffect(() => {
+    if (activeRack.showsStarterClips) fetchThumbnailsForEmbeds(STARTER_EMBEDS);
+  }, [activeRack.showsStarterClips, fetchThumbnailsForEmbeds]);
+
+  /** Shows the undo toast for a delete that just happened, which is now the edit undo would reverse */
+  const showUndoToast = (message: string): void => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoToast({ message, undoLabel: getLibraryState().undoLabel ?? '' });
+    undoTimerRef.current = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+  };
+
+  // The toast undoes through the history, so it goes once the delete is no longer the edit undo would reverse
+  React.useEffect(() => {
+    if (undoToast && undoLabel !== undoToast.undoLabel) setUndoToast(null);
+  }, [undoLabel, undoToast]);
+
+  // Clear a pending toast timer when the screen unmounts
+  React.useEffect(() => () => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+  }, []);
+
+  /** Moves embed to Recently Deleted */
   const deleteEmbed = async (embedId: string): Promise<void> => {
     try {
-      const newEmbeds = dynamicEmbeds.filter(e => e.id !== embedId);
-      setDynamicEmbeds(newEmbeds);
-      await saveDynamicEmbeds(newEmbeds);
-      console.log('🗑️ Deleted embed:', embedId);
+      await clipActions.remove(embedId);
+      showUndoToast('Clip deleted');
     } catch (error) {
       console.error('Failed to delete embed:', error);
     }
   };
 
-  /** Updates embed categories */
-  const updateEmbedCategories = async (embedId: string, newCategories: string[]): Promise<void> => {
+  /** Updates editable embed fields (categories, start time) */
+  const updateEmbed = async (embedId: string, changes: Partial<EmbedData>): Promise<void> => {
     try {
-      const updatedEmbeds = dynamicEmbeds.map(embed => 
-        embed.id === embedId 
-          ? { ...embed, categories: newCategories }
-          : embed
-      );
-      setDynamicEmbeds(updatedEmbeds);
-      await saveDynamicEmbeds(updatedEmbeds);
-      console.log('🏷️ Updated embed categories:', embedId, newCategories);
+      await clipActions.update(embedId, changes);
     } catch (error) {
-      console.error('Failed to update embed categories:', error);
+      console.error('Failed to update embed:', error);
     }
   };
 
   /** Creates a new category */
   const createCategory = async (name: string): Promise<void> => {
-    if (!name.trim()) return;
-    
-    const newCategory: Category = {
-      id: `category-${Date.now()}`,
-      name: name.trim(),
-      color: CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length],
-      createdAt: Date.now()
-    };
-    
-    const updatedCategories = [...categories, newCategory];
-    setCategories(updatedCategories);
-    await saveCategories(updatedCategories);
-    setNewCategoryName('');
-    console.log('➕ Created new category:', newCategory);
+    try {
+      if (await clipActions.createCategory(name)) {
+        setNewCategoryName('');
+      }
+    } catch (error) {
+      console.error('Failed to create category:', error);
+    }
   };
 
-  /** Deletes a category */
+  /** Moves a category to Recently Deleted */
   const deleteCategory = async (categoryId: string): Promise<void> => {
-    // Remove category from all embeds
-    const updatedEmbeds = dynamicEmbeds.map(embed => ({
-      ...embed,
-      categories: embed.categories?.filter(id => id !== categoryId) || []
-    }));
-    
-    // Remove category from categories list
-    const updatedCategories = categories.filter(cat => cat.id !== categoryId);
-    
-    setCategories(updatedCategories);
-    setDynamicEmbeds(updatedEmbeds);
-    await Promise.all([
-      saveCategories(updatedCategories),
-      saveDynamicEmbeds(updatedEmbeds)
-    ]);
-    console.log('🗑️ Deleted category:', categoryId);
+    const name = categories.find(category => category.id === categoryId)?.name ?? 'Category';
+    try {
+      // Clips drop the category until it's restored, which brings every link back
+      await clipActions.deleteCategory(categoryId);
+      showUndoToast(`${name} deleted`);
+    } catch (error) {
+      console.error('Failed to delete category:', error);
+    }
+  };
+
+  /** Renames a category, leaving it as it was for a blank name */
+  const renameCategory = async (categoryId: string, name: string): Promise<void> => {
+    try {
+      await clipActions.renameCategory(categoryId, name);
+    } catch (error) {
+      console.error('Failed to rename category:', error);
+    }
+  };
+
+  /** Undoes or redoes the latest library edit, saying which one in the banner */
+  const stepHistory = async (direction: 'undo' | 'redo'): Promise<void> => {
+    try {
+      const description = await (direction === 'undo' ? clipActions.undo() : clipActions.redo());
+      if (description) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        showSummaryBanner(`${direction === 'undo' ? 'Undid' : 'Redid'} ${description}`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${direction}:`, error);
+    }
   };
 
+  // Shaking the gallery offers the same undo and redo as the header buttons
+  useShake(() => {
+    if (!undoLabel && !redoLabel) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      undoLabel ? `Undo ${undoLabel}?` : `Redo ${redoLabel}?`,
+      undefined,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...(undoLabel && redoLabel ? [{ text: `Redo ${redoLabel}`, onPress: () => stepHistory('redo') }] : []),
+        undoLabel
+          ? { text: 'Undo', onPress: () => stepHistory('undo') }
+          : { text: 'Redo', onPress: () => stepHistory('redo') },
+      ]
+    );
+  }, active === 'menu');
+
   /** Refreshes the clips list */
   const onRefresh = React.useCallback(async () => {
     setRefreshing(true);
@@ -604,16 +414,15 @@ export default function EmbedsScreen() {
       thumbnailsLoadedRef.current = false;
       
       // Reload saved embeds
-      const saved = await loadDynamicEmbeds();
-      setDynamicEmbeds(saved);
+      const saved = await reloadClips();
       
       // Clear thumbnails to force re-fetch
-      setTiktokThumbnails({});
+      setRemoteThumbnails({});
       setLoadingThumbnails(new Set());
       setLoadingInstagramEmbeds(new Set());
       
       // Re-fetch all thumbnails
-      fetchThumbnailsForEmbeds([...STARTER_EMBEDS, ...saved]);
+      fetchThumbnailsForEmbeds([...(activeRack.showsStarterClips ? STARTER_EMBEDS : []), ...saved]);
       
       console.log('🔄 Refreshed clips list');
     } catch (error) {
@@ -621,125 +430,474 @@ export default function EmbedsScreen() {
     } finally {
       setRefreshing(false);
     }
-  }, [fetchThumbnailsForEmbeds]);
+  }, [activeRack.showsStarterClips, fetchThumbnailsForEmbeds, reloadClips]);
+
+  /** Shows a result banner for 8 seconds */
+  const showSummaryBanner = (summary: string): void => {
+    setShareSummary(summary);
+    setTimeout(() => {
+      setShareSummary(null);
+    }, 8000);
+  };
 
-  // Process shared content and create embeds
-  React.useEffect(() => {
-    if (hasShareIntent && shareIntent.webUrl) {
-      console.log('🔄 Processing shared URL:', shareIntent.webUrl);
-      
-      const processShareIntent = async () => {
-        const embed = await createEmbedFromUrl(shareIntent.webUrl!);
-        console.log('🎬 Created embed object:', embed);
-        
-        if (embed) {
-          // Check if this embed already exists (by URL, not ID since ID includes timestamp)
-          const exists = dynamicEmbeds.some(e => e.url === embed.url);
-          console.log('🔍 Embed already exists:', exists);
-          
-          if (!exists) {
-            const newEmbeds = [...dynamicEmbeds, embed];
-            setDynamicEmbeds(newEmbeds);
-            
-            // Save to AsyncStorage
-            saveDynamicEmbeds(newEmbeds);
-            console.log('💾 Saved embed to storage');
-            
-            // Fetch thumbnail only for the new clip (incremental loading)
-            fetchThumbnailsForEmbeds([embed]);
-            
-            // Show the banner for 8 seconds
-            setShowShareBanner(true);
-            setTimeout(() => {
-              setShowShareBanner(false);
-            }, 8000);
-            
-            // Don't automatically show the clip - just stay on the clips list
-            // User can tap on the new clip card to view it
-            console.log('💾 Clip created and saved - staying on clips list');
-          } else {
-            console.log('🔍 Clip already exists - staying on clips list');
-          }
-        } else {
-          console.log('❌ Failed to create embed from URL');
-        }
-      };
-      
-      processShareIntent();
+  /** Writes the library to an archive and opens the share sheet */
+  const exportArchive = async (): Promise<void> => {
+    if (hiddenCategoryIds.length > 0) {
+      Alert.alert('Locked Categories', 'Show locked categories first; the archive holds every clip, theirs included.');
+      return;
     }
-  }, [hasShareIntent, shareIntent.webUrl, dynamicEmbeds, fetchThumbnailsForEmbeds]);
+    try {
+      await exportLibraryArchive();
+    } catch (error) {
+      console.error('Failed to export library:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'The library could not be exported.');
+    }
+  };
 
-  // Combine starter embeds with dynamic embeds, with dynamic embeds always on top, then apply filters
-  const allEmbeds = [...dynamicEmbeds, ...STARTER_EMBEDS]
-    .filter(embed => {
-      // Filter by platform
-      if (!selectedSites.has(embed.type || '')) return false;
-      
-      // Filter by category if selected
-      if (filterByCategory) {
-        return embed.categories?.includes(filterByCategory) || false;
-      }
-      
-      return true;
-    })
-    .sort((a, b) => {
-      // If both are dynamic embeds, sort by creation time (newest first)
-      const aIsDynamic = dynamicEmbeds.some(e => e.id === a.id);
-      const bIsDynamic = dynamicEmbeds.some(e => e.id === b.id);
-      
-      if (aIsDynamic && bIsDynamic) {
-        return b.createdAt - a.createdAt;
+  /** Shares the stored values that failed validation when the old library was loaded */
+  const exportQuarantined = async (): Promise<void> => {
+    try {
+      if (await exportQuarantine() === 0) {
+        Alert.alert('Nothing Quarantined', 'Every stored clip and category loaded cleanly.');
       }
-      // If one is dynamic and one is starter, dynamic comes first
-      if (aIsDynamic && !bIsDynamic) return -1;
-      if (!aIsDynamic && bIsDynamic) return 1;
-      // If both are starter embeds, sort by creation time
-      return b.createdAt - a.createdAt;
-    });
+    } catch (error) {
+      console.error('Failed to export quarantine:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'The quarantined records could not be exported.');
+    }
+  };
 
-  /** Renders individual clip card with thumbnail, play overlay, and delete button */
-  const ClipCard = React.memo(({ item: embed, isMostRecent, thumbnailUrl }: { 
-    item: EmbedData; 
-    isMostRecent: boolean; 
-    thumbnailUrl: string | null; 
-  }) => {
-    // Create a stable ref for Instagram WebViews to prevent unnecessary re-mounts
-    const webViewRef = React.useRef<WebView>(null);
+  /** Exports the current view or a category as a clip list */
+  const exportList = async (format: ClipListFormat): Promise<void> => {
+    const category = categories.find(c => c.id === listExportCategory);
+    const viewTitle = filterByCategory
+      ? categories.find(c => c.id === filterByCategory)?.name ?? 'Saved Clips'
+      : selectedSites.size < PROVIDERS.length ? 'Filtered Clips' : 'Saved Clips';
+
+    try {
+      await exportClipList(
+        format,
+        category ? { categoryId: category.id, hiddenCategoryIds } : clipQuery,
+        category ? category.name : viewTitle
+      );
+    } catch (error) {
+      console.error('Failed to export clip list:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'The clips could not be exported.');
+    }
+  };
+
+  /** Picks an archive file and opens the import preview */
+  const chooseArchive = async (): Promise<void> => {
+    try {
+      const archive = await pickLibraryArchive();
+      if (!archive) return;
+      setArchiveResolution('keep-mine');
+      setPendingArchive({ archive, preview: await previewArchiveImport(archive) });
+    } catch (error) {
+      console.error('Failed to read archive:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'The archive could not be read.');
+    }
+  };
+
+  /** Merges the previewed archive into the library */
+  const importArchive = async (archive: ParsedArchive, resolution: ConflictResolution): Promise<void> => {
+    try {
+      const plan = await clipActions.importArchive(archive.library, resolution);
+      fetchThumbnailsForEmbeds(plan.added);
+      showSummaryBanner(formatArchiveMergeSummary(plan, resolution));
+    } catch (error) {
+      console.error('Failed to import archive:', error);
+      Alert.alert('Import Failed', 'The archive could not be imported. Your library was not changed.');
+    }
+  };
+
+  /** Snapshots the library now */
+  const backUpNow = async (): Promise<void> => {
+    try {
+      await clipActions.backUp();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Failed to back up library:', error);
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'The library could not be backed up.');
+    }
+  };
+
+  /** Rolls the library back to a backup */
+  const restoreBackup = async (backup: BackupInfo): Promise<void> => {
+    try {
+      const archive = await readBackup(backup);
+      await clipActions.restoreBackup(archive.library);
+      setShowBackups(false);
+      showSummaryBanner(`Restored the backup from ${new Date(backup.createdAt).toLocaleString()}`);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'The backup could not be restored.');
+    }
+  };
 
-    // Get platform display name and color
-    const getPlatformInfo = (type: string) => {
-      switch (type) {
-        case 'youtube': return { name: 'YouTube', color: '#FF0000' };
-        case 'tiktok': return { name: 'TikTok', color: '#000000' };
-        case 'instagram': return { name: 'Instagram', color: '#E4405F' };
-        default: return { name: 'Unknown', color: '#666666' };
+  /** Syncs with the sync server; `isQuiet` skips the banner and error alert, for the launch sync */
+  const syncNow = async (isQuiet = false): Promise<void> => {
+    setIsSyncing(true);
+    try {
+      const summary = await clipActions.sync();
+      if (summary && !isQuiet) {
+        showSummaryBanner(`Synced · sent ${summary.sent} · received ${summary.received}`);
       }
-    };
+    } catch (error) {
+      console.error('Failed to sync library:', error);
+      if (!isQuiet) {
+        Alert.alert('Sync Failed', error instanceof Error ? error.message : 'The library could not be synced.');
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
 
-    const platformInfo = getPlatformInfo(embed.type || '');
-    
-    return (
-      <View style={styles.gridCard}>
-        <TouchableOpacity 
-          style={styles.cardTouchable}
-          onPress={() => {
-            setSelectedEmbed(embed);
-            setActive(embed.type || 'menu');
-          }}
-        >
-          {/* Thumbnail Container */}
-          <View style={styles.thumbnailContainer}>
-            {embed.type === 'instagram' ? (
-              // Instagram: Use custom HTML wrapper for proper grid sizing
-              <WebView
-                ref={webViewRef}
-                key={`instagram-${embed.id}-${embed.postId}`}
-                source={{ 
-                  html: generateInstagramTileHtml(embed.postId!),
-                  baseUrl: 'https://www.instagram.com'
-                }}
-                originWhitelist={['*']}
-                style={styles.thumbnail}
+  /** Saves the typed sync server address; a blank one turns sync off */
+  const saveSyncServer = async (): Promise<void> => {
+    if (syncServerInput === null) return;
+    try {
+      await clipActions.setSyncServer(syncServerInput);
+      setSyncServerInput(null);
+    } catch (error) {
+      console.error('Failed to save sync server:', error);
+      Alert.alert('Sync Server', 'The address could not be saved. Please try again.');
+    }
+  };
+
+  /** Sets, changes or removes the passcode, re-encrypting the library; resolves to why it was refused, or null */
+  const savePasscode = async (current: string | null, next: string | null): Promise<string | null> => {
+    try {
+      const problem = await clipActions.changePasscode(current, next);
+      if (problem) return problem;
+      setPasscodePrompt(null);
+      showSummaryBanner(next === null ? 'Passcode turned off · clips are no longer encrypted' : 'Passcode saved · clips are encrypted');
+    } catch (error) {
+      console.error('Failed to change passcode:', error);
+      setPasscodePrompt(null);
+      // A failed re-encryption is rolled back first, and its message says whether that worked
+      Alert.alert(
+        'Passcode Not Changed',
+        error instanceof Error ? error.message : 'The library could not be re-encrypted. Your passcode and clips were not changed.'
+      );
+    }
+    return null;
+  };
+
+  /** Asks for a new passcode, then for it again, and saves it */
+  const askNewPasscode = (current: string | null) => {
+    setPasscodePrompt({
+      title: 'New Passcode',
+      message: `At least ${PASSCODE_MIN_LENGTH} digits. It can't be recovered, and without it your clips can't be opened.`,
+      submitLabel: 'Next',
+      submit: async passcode => {
+        const problem = getPasscodeProblem(passcode);
+        if (problem) return problem;
+        setPasscodePrompt({
+          title: 'Confirm Passcode',
+          message: 'Enter the new passcode again',
+          submitLabel: 'Save',
+          submit: async confirmed => (confirmed === passcode ? savePasscode(current, passcode) : 'The passcodes don\'t match.'),
+        });
+        return null;
+      },
+    });
+  };
+
+  /** Asks for the current passcode, then for the new one */
+  const changePasscode = () => {
+    setPasscodePrompt({
+      title: 'Current Passcode',
+      message: 'Enter your current passcode to change it',
+      submitLabel: 'Next',
+      submit: async passcode => {
+        const problem = await lockActions.checkPasscode(passcode);
+        if (!problem) askNewPasscode(passcode);
+        return problem;
+      },
+    });
+  };
+
+  /** Asks for the passcode, then decrypts the library and stops locking the app */
+  const turnOffPasscode = () => {
+    setPasscodePrompt({
+      title: 'Turn Off Passcode',
+      message: 'Your clips will no longer be encrypted, and locked categories will show to anyone',
+      submitLabel: 'Turn Off',
+      submit: passcode => savePasscode(passcode, null),
+    });
+  };
+
+  /** Asks for the passcode, then shows locked categories until the app next locks */
+  const showLockedCategories = () => {
+    setPasscodePrompt({
+      title: 'Show Locked Categories',
+      message: 'Enter your passcode to show locked categories and their clips',
+      submitLabel: 'Show',
+      submit: async passcode => {
+        const problem = await clipActions.showLockedCategories(passcode);
+        if (!problem) setPasscodePrompt(null);
+        return problem;
+      },
+    });
+  };
+
+  /** Locks or unlocks a category; locking needs a passcode, since that's what unlocks it */
+  const toggleCategoryLock = (categoryId: string) => {
+    const isCategoryLocked = lockedCategoryIds.includes(categoryId);
+    if (!isCategoryLocked && !hasPasscode) {
+      Alert.alert('Set a Passcode First', 'Locked categories stay hidden until your passcode is entered. Set one under Library → Security.');
+      return;
+    }
+    clipActions.setCategoryLocked(categoryId, !isCategoryLocked)
+      .catch(error => console.error('Failed to lock category:', error));
+  };
+
+  // Sync each rack that has a server the first time it's opened after launch
+  React.useEffect(() => {
+    if (!isLoaded || !syncServerUrl || syncedRacksRef.current.has(activeRackId)) return;
+    syncedRacksRef.current.add(activeRackId);
+    syncNow(true);
+  }, [isLoaded, syncServerUrl, activeRackId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /** Opens another rack */
+  const switchRack = async (rackId: string): Promise<void> => {
+    try {
+      await clipActions.switchRack(rackId);
+    } catch (error) {
+      console.error('Failed to open rack:', error);
+      Alert.alert('Rack Unavailable', 'The rack could not be opened. Please try again.');
+    }
+  };
+
+  /** Creates a rack from the racks sheet and opens it */
+  const createRack = async (): Promise<void> => {
+    try {
+      if (await clipActions.createRack(newRackName, newRackHasStarterContent)) {
+        setNewRackName('');
+        setNewRackHasStarterContent(false);
+        setShowRacks(false);
+      } else {
+        Alert.alert('Choose Another Name', 'Give the rack a name no other rack uses.');
+      }
+    } catch (error) {
+      console.error('Failed to create rack:', error);
+      Alert.alert('Rack Not Created', 'The rack could not be created. Please try again.');
+    }
+  };
+
+  /** Renames a rack, leaving it as it was for a blank or taken name */
+  const renameRack = async (rackId: string, name: string): Promise<void> => {
+    try {
+      await clipActions.renameRack(rackId, name);
+    } catch (error) {
+      console.error('Failed to rename rack:', error);
+    }
+  };
+
+  /** Deletes a rack and everything in it, after confirming */
+  const deleteRack = (rack: Rack): void => {
+    Alert.alert(
+      'Delete Rack',
+      `${rack.name} and every clip and category in it are deleted for good, along with its backups.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await clipActions.deleteRack(rack.id);
+            } catch (error) {
+              console.error('Failed to delete rack:', error);
+              Alert.alert('Rack Not Deleted', 'The rack could not be deleted. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /** Moves or copies a clip into another rack, filed under that rack's categories of the same names */
+  const sendClipToRack = async (clip: EmbedData, rack: Rack, isMove: boolean): Promise<void> => {
+    try {
+      const sent = await (isMove ? clipActions.moveToRack([clip.id], rack.id) : clipActions.copyToRack([clip.id], rack.id));
+      const verb = isMove ? 'Moved' : 'Copied';
+      showSummaryBanner(sent.length > 0 ? `${verb} to ${rack.name}` : `${rack.name} already has this clip`);
+    } catch (error) {
+      console.error('Failed to send clip to rack:', error);
+      Alert.alert('Clip Not Sent', `The clip could not be sent to ${rack.name}. Please try again.`);
+    }
+  };
+
+  /** Imports a bookmark export or Takeout playlists, with a category per folder or playlist */
+  const importCollection = async (source: CollectionSource): Promise<void> => {
+    try {
+      const entries = await pickCollectionEntries(source);
+      if (!entries) return;
+      if (entries.length === 0) {
+        Alert.alert('Nothing to Import', 'No links were found in the chosen file.');
+        return;
+      }
+
+      setCollectionProgress(`Reading 0 of ${entries.length} links...`);
+      const collection = await detectCollectionClips(entries, undefined, (done, total) => {
+        setCollectionProgress(`Reading ${done} of ${total} links...`);
+      });
+      // Links already saved are filed under the imported folders rather than added again
+      const plan = await clipActions.importArchive(
+        { embeds: collection.clips, categories: collection.categories },
+        'merge-categories'
+      );
+
+      fetchThumbnailsForEmbeds(plan.added);
+      showSummaryBanner(formatImportSummary({
+        added: plan.added,
+        duplicates: collection.repeats + plan.unchanged + plan.conflicts,
+        failed: collection.unsupported,
+      }));
+    } catch (error) {
+      console.error('Failed to import collection:', error);
+      Alert.alert('Import Failed', 'The file could not be imported. Your library was not changed.');
+    } finally {
+      setCollectionProgress(null);
+    }
+  };
+
+  /** Adds the new clips from a share to the chosen rack, without switching to it, and shows the import summary banner */
+  const addDetectedClips = async (detected: DetectedClip[], rack: Rack): Promise<void> => {
+    const candidates = detected.filter(clip => clip.embed && !clip.isDuplicate).map(clip => clip.embed!);
+    const isActiveRack = rack.id === activeRackId;
+    let added: EmbedData[] = [];
+    
+    if (candidates.length > 0) {
+      // The store skips clips another share saved since detection ran
+      added = await (isActiveRack ? clipActions.add(candidates) : clipActions.addToRack(candidates, rack.id));
+      
+      // Fetch thumbnails only for the new clips (incremental loading)
+      if (isActiveRack) fetchThumbnailsForEmbeds(added);
+    }
+    
+    const summary = formatImportSummary({
+      added,
+      duplicates: detected.filter(clip => clip.isDuplicate).length + candidates.length - added.length,
+      failed: detected.filter(clip => !clip.embed).length,
+    });
+    showSummaryBanner(isActiveRack ? summary : `${rack.name}: ${summary}`);
+    
+    // Don't automatically show the clip - just stay on the clips list
+    // User can tap on the new clip card to view it
+  };
+
+  // Process shared content: a single link is added directly, several open the import preview.
+  // With more than one rack, the user first picks the rack the share goes to; the open rack stays open.
+  // A share only counts as handled once it's saved, shown in the preview or discarded.
+  React.useEffect(() => {
+    if (!hasShareIntent || !isLoaded) return;
+    
+    const sharedText = [shareIntent.webUrl, shareIntent.text].filter(Boolean).join('\n');
+    if (!sharedText || processedShareRef.current === sharedText || shareInProgressRef.current === sharedText) return;
+    
+    const urls = extractSharedUrls(sharedText);
+    console.log('🔄 Processing shared URLs:', urls);
+    
+    if (urls.length === 0) {
+      console.log('❌ No URLs found in shared content');
+      return;
+    }
+    shareInProgressRef.current = sharedText;
+
+    const finishShare = (): void => {
+      processedShareRef.current = sharedText;
+      shareInProgressRef.current = null;
+    };
+
+    const discardShare = (): void => {
+      finishShare();
+      resetShareIntent();
+    };
+    
+    const processShareIntent = async (rack: Rack) => {
+      setIsDetectingShare(true);
+      try {
+        // Clips hidden in locked categories aren't marked, so the preview doesn't give them away
+        const detected = await detectClips(urls, await getVisibleCanonicalKeys(rack.id));
+        console.log('🎬 Detected clips:', detected);
+        
+        if (detected.length === 1) {
+          await addDetectedClips(detected, rack);
+        } else {
+          setPendingImport({ detected, rack });
+        }
+        finishShare();
+      } catch (error) {
+        console.error('Failed to save shared clips:', error);
+        Alert.alert('Import Failed', 'The shared clips could not be saved.', [
+          { text: 'Discard', style: 'destructive', onPress: discardShare },
+          { text: 'Try Again', onPress: () => processShareIntent(rack) },
+        ]);
+      } finally {
+        setIsDetectingShare(false);
+      }
+    };
+    
+    if (racks.length > 1) {
+      const chooseRack = (): void => setRackChoice({
+        title: 'Save to Rack',
+        racks: [activeRack, ...otherRacks],
+        choose: processShareIntent,
+        cancel: () => Alert.alert('Discard Shared Links?', 'They won\'t be saved to any rack.', [
+          { text: 'Choose Rack', onPress: chooseRack },
+          { text: 'Discard', style: 'destructive', onPress: discardShare },
+        ]),
+      });
+      chooseRack();
+      return;
+    }
+    processShareIntent(activeRack);
+  }, [hasShareIntent, isLoaded, shareIntent.webUrl, shareIntent.text]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Saved clips come sorted from the repository; starter clips follow once every saved clip is loaded
+  const visibleStarterEmbeds = (activeRack.showsStarterClips ? STARTER_EMBEDS : []).filter(embed =>
+    selectedSites.has(embed.type) && (!filterByCategory || embed.categories?.includes(filterByCategory))
+  );
+  const allEmbeds = !hasMore
+    ? [...dynamicEmbeds, ...visibleStarterEmbeds]
+    : dynamicEmbeds;
+
+  /** Renders individual clip card with thumbnail, play overlay, and delete button */
+  const ClipCard = React.memo(({ item: embed, isMostRecent, thumbnailUrl }: { 
+    item: EmbedData; 
+    isMostRecent: boolean; 
+    thumbnailUrl: string | null; 
+  }) => {
+    // Create a stable ref for Instagram WebViews to prevent unnecessary re-mounts
+    const webViewRef = React.useRef<WebView>(null);
+
+    const provider = getProvider(embed.type || '');
+    const tileHtml = provider?.generateTileHtml?.(embed) ?? null;
+    
+    return (
+      <View style={styles.gridCard}>
+        <TouchableOpacity 
+          style={styles.cardTouchable}
+          onPress={() => {
+            setSelectedEmbed(embed);
+            setActive(embed.type || 'menu');
+          }}
+        >
+          {/* Thumbnail Container */}
+          <View style={styles.thumbnailContainer}>
+            {tileHtml && provider ? (
+              // Live embed tile (e.g. Instagram): custom HTML wrapper for proper grid sizing
+              <WebView
+                ref={webViewRef}
+                key={`${embed.type}-${embed.id}-${embed.postId}`}
+                source={{ 
+                  html: tileHtml,
+                  baseUrl: provider.baseUrl
+                }}
+                originWhitelist={['*']}
+                style={styles.thumbnail}
                 scrollEnabled={false}
                 showsHorizontalScrollIndicator={false}
                 showsVerticalScrollIndicator={false}
@@ -751,12 +909,12 @@ export default function EmbedsScreen() {
                 allowsFullscreenVideo={false}
                 onLoadStart={() => {
                   if (!loadingInstagramEmbeds.has(embed.id)) {
-                    console.log('🔄 Instagram embed loading:', embed.url);
+                    console.log('🔄 Tile embed loading:', embed.url);
                     setLoadingInstagramEmbeds(prev => new Set([...prev, embed.id]));
                   }
                 }}
                 onLoadEnd={() => {
-                  console.log('✅ Instagram embed loaded successfully');
+                  console.log('✅ Tile embed loaded successfully');
                   setLoadingInstagramEmbeds(prev => {
                     const newSet = new Set(prev);
                     newSet.delete(embed.id);
@@ -764,7 +922,7 @@ export default function EmbedsScreen() {
                   });
                 }}
                 onError={(syntheticEvent) => {
-                  console.log('❌ Instagram embed error:', syntheticEvent.nativeEvent);
+                  console.log('❌ Tile embed error:', syntheticEvent.nativeEvent);
                   setLoadingInstagramEmbeds(prev => {
                     const newSet = new Set(prev);
                     newSet.delete(embed.id);
@@ -772,7 +930,7 @@ export default function EmbedsScreen() {
                   });
                 }}
                 onHttpError={(syntheticEvent) => {
-                  console.log('🌐 Instagram embed HTTP error:', syntheticEvent.nativeEvent);
+                  console.log('🌐 Tile embed HTTP error:', syntheticEvent.nativeEvent);
                   setLoadingInstagramEmbeds(prev => {
                     const newSet = new Set(prev);
                     newSet.delete(embed.id);
@@ -781,7 +939,7 @@ export default function EmbedsScreen() {
                 }}
               />
             ) : thumbnailUrl ? (
-              // YouTube/TikTok: Use thumbnail image
+              // Static or fetched thumbnail image
               <Image 
                 source={{ uri: thumbnailUrl }} 
                 style={styles.thumbnail}
@@ -796,13 +954,13 @@ export default function EmbedsScreen() {
             ) : (
               // Fallback: Show placeholder or loading state
               <View style={[styles.thumbnail, styles.placeholderThumbnail]}>
-                {embed.type === 'tiktok' && embed.postId && loadingThumbnails.has(embed.postId) ? (
+                {loadingThumbnails.has(embed.id) ? (
                   <View style={styles.loadingContainer}>
                     <Text style={styles.loadingText}>Loading...</Text>
                   </View>
                 ) : (
-                  <Text style={styles.placeholderText}>
-                    {embed.type?.toUpperCase() || 'CLIP'}
+                  <Text style={styles.placeholderText} numberOfLines={4}>
+                    {provider?.getPlaceholderLabel?.(embed) ?? (embed.type?.toUpperCase() || 'CLIP')}
                   </Text>
                 )}
               </View>
@@ -818,27 +976,29 @@ export default function EmbedsScreen() {
             {/* Platform Tag */}
             <View style={[
               styles.platformTag,
-              embed.type === 'youtube' && styles.platformTagYouTube,
-              embed.type === 'tiktok' && styles.platformTagTikTok,
-              embed.type === 'instagram' && styles.platformTagInstagram,
+              provider && {
+                backgroundColor: provider.tagStyle.backgroundColor,
+                borderColor: provider.tagStyle.borderColor,
+              },
+              provider?.tagStyle.gradient && styles.platformTagGradientTag,
             ]}>
-              {embed.type === 'tiktok' ? (
-                <View style={styles.platformTagTikTokGradient}>
-                  <View style={[styles.tiktokColorSection, styles.tiktokColorSection1]} />
-                  <View style={[styles.tiktokColorSection, styles.tiktokColorSection2]} />
-                  <View style={[styles.tiktokColorSection, styles.tiktokColorSection3]} />
-                </View>
-              ) : null}
-              {embed.type === 'instagram' ? (
-                <View style={styles.platformTagInstagramGradient}>
-                  <View style={[styles.instagramColorSection, styles.instagramColorSection1]} />
-                  <View style={[styles.instagramColorSection, styles.instagramColorSection2]} />
-                  <View style={[styles.instagramColorSection, styles.instagramColorSection3]} />
+              {provider?.tagStyle.gradient ? (
+                <View style={styles.platformTagGradient}>
+                  {provider.tagStyle.gradient.map(color => (
+                    <View key={color} style={[styles.platformTagColorSection, { backgroundColor: color }]} />
+                  ))}
                 </View>
               ) : null}
-              <Text style={[styles.platformTagText, { zIndex: 1, position: 'relative' }]}>{platformInfo.name}</Text>
+              <Text style={[styles.platformTagText, { zIndex: 1, position: 'relative' }]}>{provider?.getTagLabel?.(embed) ?? provider?.displayName ?? 'Unknown'}</Text>
             </View>
             
+            {/* Start Time Tag */}
+            {embed.startSeconds ? (
+              <View style={styles.startTimeTag}>
+                <Text style={styles.startTimeTagText}>▶ {formatTimestamp(embed.startSeconds)}</Text>
+              </View>
+            ) : null}
+            
             {/* New Badge */}
             {isMostRecent && (
               <View style={styles.badgeContainer}>
@@ -855,6 +1015,7 @@ export default function EmbedsScreen() {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
             setSelectedClipForDetails(embed);
             setSelectedCategories(new Set(embed.categories || []));
+            setStartTimeInput(embed.startSeconds ? formatTimestamp(embed.startSeconds) : '');
             setShowClipDetails(true);
           }}
         >
@@ -870,6 +1031,9 @@ export default function EmbedsScreen() {
            prevProps.item.createdAt === nextProps.item.createdAt &&
            prevProps.item.postId === nextProps.item.postId &&
            prevProps.item.videoId === nextProps.item.videoId &&
+           prevProps.item.startSeconds === nextProps.item.startSeconds &&
+           prevProps.item.contentKind === nextProps.item.contentKind &&
+           prevProps.item.carouselIndex === nextProps.item.carouselIndex &&
            prevProps.isMostRecent === nextProps.isMostRecent &&
            prevProps.thumbnailUrl === nextProps.thumbnailUrl;
     
@@ -882,25 +1046,66 @@ export default function EmbedsScreen() {
   /** Render function for FlatList */
   const renderClipCard = React.useCallback(({ item }: { item: EmbedData }) => {
     // Calculate values outside the memoized component
-    const isMostRecent = dynamicEmbeds.length > 0 && 
-      dynamicEmbeds[dynamicEmbeds.length - 1].id === item.id;
+    const isMostRecent = item.id === newestClipId;
     
-    let thumbnailUrl = getThumbnailUrl(item);
-    if (item.type === 'tiktok' && item.postId) {
-      thumbnailUrl = tiktokThumbnails[item.postId] || null;
-    }
+    const thumbnailUrl = getThumbnailUrl(item) ?? remoteThumbnails[item.id] ?? null;
     
     return <ClipCard item={item} isMostRecent={isMostRecent} thumbnailUrl={thumbnailUrl} />;
-  }, [dynamicEmbeds, tiktokThumbnails]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [newestClipId, remoteThumbnails]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /** Renders main grid view with all clips */
   const renderMenu = () => (
     <View style={styles.menuContainer}>
       <View style={styles.titleRow}>
-        <View style={styles.titleSpacer} />
-        <Text style={styles.title}>Saved Clips</Text>
         <TouchableOpacity 
-          style={[styles.filterButton, (filterByCategory || selectedSites.size < 3) && styles.filterButtonActive]}
+          style={styles.filterButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            setListExportCategory(null);
+            setShowLibrary(true);
+          }}
+        >
+          <IconSymbol name="archivebox" size={20} color="#007bff" />
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={[styles.filterButton, styles.headerButtonSpacing, !undoLabel && styles.headerButtonDisabled]}
+          disabled={!undoLabel}
+          accessibilityLabel={undoLabel ? `Undo ${undoLabel}` : 'Undo'}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            stepHistory('undo');
+          }}
+        >
+          <IconSymbol name="arrow.uturn.backward" size={20} color="#007bff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.rackSwitcher}
+          accessibilityLabel={`Rack: ${activeRack.name}. Switch racks`}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            setShowRacks(true);
+          }}
+        >
+          <Text style={styles.title} numberOfLines={1}>{activeRack.name}</Text>
+          <IconSymbol name="chevron.down" size={20} color="#e8e8ea" />
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={[styles.filterButton, !redoLabel && styles.headerButtonDisabled]}
+          disabled={!redoLabel}
+          accessibilityLabel={redoLabel ? `Redo ${redoLabel}` : 'Redo'}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            stepHistory('redo');
+          }}
+        >
+          <IconSymbol name="arrow.uturn.forward" size={20} color="#007bff" />
+        </TouchableOpacity>
+        <TouchableOpacity 
+          style={[
+            styles.filterButton,
+            styles.headerButtonSpacing,
+            (filterByCategory || selectedSites.size < PROVIDERS.length) && styles.filterButtonActive,
+          ]}
           onPress={() => {
             Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
             setShowFilterPage(true);
@@ -930,35 +1135,33 @@ export default function EmbedsScreen() {
       )}
       
       {/* Share Intent Status */}
-      {showShareBanner && shareIntent.webUrl && (() => {
-        // Determine platform from the shared URL
-        let platform = 'Unknown';
-        if (shareIntent.webUrl.includes('instagram.com')) {
-          platform = 'Instagram';
-        } else if (shareIntent.webUrl.includes('youtube.com') || shareIntent.webUrl.includes('youtu.be')) {
-          platform = 'YouTube';
-        } else if (shareIntent.webUrl.includes('tiktok.com') || shareIntent.webUrl.includes('vt.tiktok.com')) {
-          platform = 'TikTok';
-        }
-        
-        return (
-          <View style={styles.shareStatus}>
-            <Text style={styles.shareStatusText}>
-              🎬 New clip added from {platform}
-            </Text>
-            <TouchableOpacity 
-              style={styles.clearButton}
-              onPress={() => {
-                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                setShowShareBanner(false);
-                resetShareIntent();
-              }}
-            >
-              <Text style={styles.clearButtonText}>Clear</Text>
-            </TouchableOpacity>
-          </View>
-        );
-      })()}
+      {isDetectingShare && (
+        <View style={styles.shareStatus}>
+          <Text style={styles.shareStatusText}>🔎 Looking for clips in shared content...</Text>
+        </View>
+      )}
+      {collectionProgress && (
+        <View style={styles.shareStatus}>
+          <Text style={styles.shareStatusText}>📥 {collectionProgress}</Text>
+        </View>
+      )}
+      {shareSummary && (
+        <View style={styles.shareStatus}>
+          <Text style={styles.shareStatusText}>
+            🎬 {shareSummary}
+          </Text>
+          <TouchableOpacity 
+            style={styles.clearButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setShareSummary(null);
+              resetShareIntent();
+            }}
+          >
+            <Text style={styles.clearButtonText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+      )}
       
       {isLoading ? (
         <Text style={styles.loadingText}>Loading clips...</Text>
@@ -975,6 +1178,8 @@ export default function EmbedsScreen() {
           maxToRenderPerBatch={10}
           windowSize={10}
           initialNumToRender={6}
+          onEndReached={loadMoreClips}
+          onEndReachedThreshold={0.5}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -993,153 +1198,969 @@ export default function EmbedsScreen() {
     </View>
   );
 
-  /** Floating back button for embed view */
-  const BackFloating = () => (
-    <TouchableOpacity style={styles.backButton} onPress={() => {
-      setActive('menu');
-      setSelectedEmbed(null);
-    }}>
-      <Text style={styles.backButtonText}>‹</Text>
-    </TouchableOpacity>
-  );
+  /** Floating back button for embed view */
+  const BackFloating = () => (
+    <TouchableOpacity style={styles.backButton} onPress={() => {
+      setActive('menu');
+      setSelectedEmbed(null);
+    }}>
+      <Text style={styles.backButtonText}>‹</Text>
+    </TouchableOpacity>
+  );
+
+  /** Renders clip details modal */
+  const renderClipDetailsModal = () => {
+    if (!selectedClipForDetails) return null;
+
+    const handleCategoryToggle = (categoryId: string) => {
+      const newSelected = new Set(selectedCategories);
+      if (newSelected.has(categoryId)) {
+        newSelected.delete(categoryId);
+      } else {
+        newSelected.add(categoryId);
+      }
+      setSelectedCategories(newSelected);
+    };
+
+    const supportsStartTime = Boolean(getProvider(selectedClipForDetails.type)?.supportsStartTime);
+
+    const handleSaveCategories = () => {
+      const changes: Partial<EmbedData> = { categories: Array.from(selectedCategories) };
+
+      if (supportsStartTime) {
+        const startSeconds = startTimeInput.trim() ? parseTimestamp(startTimeInput) : 0;
+        if (startSeconds === null) {
+          Alert.alert('Invalid Start Time', 'Use a format like 1:30, 90 or 1m30s.');
+          return;
+        }
+        changes.startSeconds = startSeconds || undefined;
+      }
+
+      updateEmbed(selectedClipForDetails.id, changes);
+      setShowClipDetails(false);
+      setSelectedClipForDetails(null);
+    };
+
+    // The rack list opens once this sheet has closed
+    const handleSendToRack = () => {
+      const clip = selectedClipForDetails;
+      setShowClipDetails(false);
+      setSelectedClipForDetails(null);
+      setRackChoice({
+        title: 'Move or Copy to Rack',
+        racks: otherRacks,
+        choose: rack => Alert.alert(
+          rack.name,
+          'Move the clip to this rack, or copy it and keep it here too?',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Copy', onPress: () => sendClipToRack(clip, rack, false) },
+            { text: 'Move', onPress: () => sendClipToRack(clip, rack, true) },
+          ]
+        ),
+      });
+    };
+
+    const handleDeleteClip = () => {
+      Alert.alert(
+        'Delete Clip',
+        `The clip moves to Recently Deleted for ${trashRetentionDays} days.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { 
+            text: 'Delete', 
+            style: 'destructive', 
+            onPress: () => {
+              deleteEmbed(selectedClipForDetails.id);
+              setShowClipDetails(false);
+              setSelectedClipForDetails(null);
+            }
+          }
+        ]
+      );
+    };
+
+    return (
+      <Modal
+        visible={showClipDetails}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowClipDetails(false)}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={() => setShowClipDetails(false)}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Clip Details</Text>
+            <View style={styles.modalHeaderActions}>
+              {otherRacks.length > 0 && (
+                <TouchableOpacity
+                  style={styles.modalRackButton}
+                  onPress={handleSendToRack}
+                  accessibilityLabel="Move or copy to another rack"
+                >
+                  <IconSymbol name="arrow.right.doc.on.clipboard" size={18} color="#007bff" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity 
+                style={styles.modalDeleteButton}
+                onPress={handleDeleteClip}
+              >
+                <IconSymbol name="trash" size={18} color="#FF3B30" />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={styles.modalSaveButton}
+                onPress={handleSaveCategories}
+              >
+                <Text style={styles.modalSaveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.clipInfo}>
+              <Text style={styles.clipTitle}>{selectedClipForDetails.title}</Text>
+              <Text style={styles.clipSubtitle}>{selectedClipForDetails.subtitle}</Text>
+              <Text style={styles.clipUrl}>{selectedClipForDetails.url}</Text>
+            </View>
+
+            {supportsStartTime && (
+              <View style={styles.startTimeSection}>
+                <Text style={styles.categoriesTitle}>Start Time</Text>
+                <TextInput
+                  style={styles.startTimeInput}
+                  placeholder="0:00"
+                  placeholderTextColor="#666"
+                  value={startTimeInput}
+                  onChangeText={setStartTimeInput}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </View>
+            )}
+
+            <View style={styles.categoriesSection}>
+              <View style={styles.categoriesHeader}>
+                <Text style={styles.categoriesTitle}>Categories</Text>
+                <TouchableOpacity 
+                  style={styles.addToCategoriesButton}
+                  onPress={() => setShowCategoryDropdown(!showCategoryDropdown)}
+                >
+                  <IconSymbol name="plus" size={16} color="#007bff" />
+                  <Text style={styles.addToCategoriesButtonText}>Add to Categories</Text>
+                </TouchableOpacity>
+              </View>
+
+              {/* Selected Categories Badges */}
+              {selectedCategories.size > 0 && (
+                <View style={styles.selectedCategoriesList}>
+                  {Array.from(selectedCategories).map(categoryId => {
+                    const category = categories.find(c => c.id === categoryId);
+                    if (!category) return null;
+                    return (
+                      <View key={categoryId} style={[styles.categoryBadge, { backgroundColor: category.color }]}>
+                        <Text style={styles.categoryBadgeText}>{category.name}</Text>
+                        <TouchableOpacity 
+                          onPress={() => handleCategoryToggle(categoryId)}
+                          style={styles.categoryBadgeRemove}
+                        >
+                          <IconSymbol name="xmark" size={12} color="#fff" />
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                </View>
+              )}
+
+              {/* Category Dropdown */}
+              {showCategoryDropdown && (
+                <View style={styles.categoryDropdown}>
+                  {categories.map(category => {
+                    const isSelected = selectedCategories.has(category.id);
+                    return (
+                      <TouchableOpacity
+                        key={category.id}
+                        style={styles.categoryDropdownItem}
+                        onPress={() => handleCategoryToggle(category.id)}
+                      >
+                        <View style={styles.categoryDropdownItemLeft}>
+                          <View style={[styles.categoryColorDot, { backgroundColor: category.color }]} />
+                          <Text style={styles.categoryDropdownItemText}>{category.name}</Text>
+                        </View>
+                        <IconSymbol 
+                          name={isSelected ? "checkmark" : "circle"} 
+                          size={20} 
+                          color={isSelected ? "#007bff" : "#666"} 
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+  /** Renders category manager modal */
+  const renderCategoryManagerModal = () => {
+    const handleCreateCategory = () => {
+      if (newCategoryName.trim()) {
+        createCategory(newCategoryName);
+      }
+    };
+
+    const handleRenameCategory = () => {
+      if (!renamingCategory) return;
+      renameCategory(renamingCategory.id, renamingCategory.name);
+      setRenamingCategory(null);
+    };
+
+    const handleDeleteCategory = (categoryId: string) => {
+      Alert.alert(
+        'Delete Category',
+        `The category is removed from all clips and kept in Recently Deleted for ${trashRetentionDays} days. Restoring it brings it back on every clip.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Delete', style: 'destructive', onPress: () => deleteCategory(categoryId) }
+        ]
+      );
+    };
+
+    return (
+      <Modal
+        visible={showCategoryManager}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowCategoryManager(false)}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={() => setShowCategoryManager(false)}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Manage Categories</Text>
+            <View style={styles.modalHeaderSpacer} />
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.addCategorySection}>
+              <Text style={styles.addCategoryTitle}>Add New Category</Text>
+              <View style={styles.addCategoryInput}>
+                <TextInput
+                  style={styles.categoryInput}
+                  placeholder="Category name"
+                  placeholderTextColor="#666"
+                  value={newCategoryName}
+                  onChangeText={setNewCategoryName}
+                />
+                <TouchableOpacity 
+                  style={styles.addCategoryButton}
+                  onPress={handleCreateCategory}
+                >
+                  <Text style={styles.addCategoryButtonText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.existingCategoriesSection}>
+              <Text style={styles.existingCategoriesTitle}>Existing Categories</Text>
+              {hiddenCategoryIds.length > 0 && (
+                <Text style={styles.importListSummary}>
+                  {hiddenCategoryIds.length} locked {hiddenCategoryIds.length === 1 ? 'category is' : 'categories are'} hidden.
+                  Show them under Library → Security.
+                </Text>
+              )}
+              {categories.map(category => (
+                <View key={category.id} style={styles.categoryItem}>
+                  <View style={styles.categoryItemInfo}>
+                    <View style={[styles.categoryColorDot, { backgroundColor: category.color }]} />
+                    {renamingCategory?.id === category.id ? (
+                      <TextInput
+                        style={[styles.categoryInput, styles.categoryRenameInput]}
+                        value={renamingCategory.name}
+                        onChangeText={name => setRenamingCategory({ id: category.id, name })}
+                        onSubmitEditing={handleRenameCategory}
+                        onBlur={handleRenameCategory}
+                        returnKeyType="done"
+                        autoFocus
+                        selectTextOnFocus
+                      />
+                    ) : (
+                      <Text style={styles.categoryItemName}>{category.name}</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity 
+                    style={styles.deleteCategoryButton}
+                    onPress={() => toggleCategoryLock(category.id)}
+                  >
+                    <IconSymbol
+                      name={lockedCategoryIds.includes(category.id) ? 'lock.fill' : 'lock.open'}
+                      size={16}
+                      color={lockedCategoryIds.includes(category.id) ? '#007bff' : '#666'}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={styles.deleteCategoryButton}
+                    onPress={() => setRenamingCategory({ id: category.id, name: category.name })}
+                  >
+                    <IconSymbol name="pencil" size={16} color="#007bff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={styles.deleteCategoryButton}
+                    onPress={() => handleDeleteCategory(category.id)}
+                  >
+                    <IconSymbol name="trash" size={16} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+
+  /** Renders the passcode prompt the current step of setting, changing or entering the passcode asks for */
+  const renderPasscodeModal = () => (
+    <Modal
+      visible={passcodePrompt !== null}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => setPasscodePrompt(null)}
+    >
+      <View style={styles.modalContainer}>
+        <StatusBar style="light" />
+        {passcodePrompt && (
+          <PasscodeForm
+            key={passcodePrompt.title}
+            title={passcodePrompt.title}
+            message={passcodePrompt.message}
+            submitLabel={passcodePrompt.submitLabel}
+            onSubmit={passcodePrompt.submit}
+            onCancel={() => setPasscodePrompt(null)}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+
+  /** Renders the racks sheet: switch, add, rename and delete racks */
+  const renderRacksModal = () => {
+    const handleRenameRack = () => {
+      if (!renamingRack) return;
+      renameRack(renamingRack.id, renamingRack.name);
+      setRenamingRack(null);
+    };
+
+    return (
+      <Modal
+        visible={showRacks}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowRacks(false)}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={() => setShowRacks(false)}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Racks</Text>
+            <View style={styles.modalHeaderSpacer} />
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.existingCategoriesSection}>
+              <Text style={styles.existingCategoriesTitle}>Your Racks</Text>
+              {racks.map(rack => {
+                const isActive = rack.id === activeRackId;
+                return (
+                  <View key={rack.id} style={styles.categoryItem}>
+                    <TouchableOpacity
+                      style={styles.categoryItemInfo}
+                      disabled={renamingRack?.id === rack.id}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setShowRacks(false);
+                        switchRack(rack.id);
+                      }}
+                    >
+                      <IconSymbol
+                        name={isActive ? 'checkmark.circle.fill' : 'circle'}
+                        size={20}
+                        color={isActive ? '#007bff' : '#666'}
+                      />
+                      {renamingRack?.id === rack.id ? (
+                        <TextInput
+                          style={[styles.categoryInput, styles.categoryRenameInput]}
+                          value={renamingRack.name}
+                          onChangeText={name => setRenamingRack({ id: rack.id, name })}
+                          onSubmitEditing={handleRenameRack}
+                          onBlur={handleRenameRack}
+                          returnKeyType="done"
+                          autoFocus
+                          selectTextOnFocus
+                        />
+                      ) : (
+                        <Text style={styles.categoryItemName}>{rack.name}</Text>
+                      )}
+                    </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.deleteCategoryButton}
+                      onPress={() => setRenamingRack({ id: rack.id, name: rack.name })}
+                    >
+                      <IconSymbol name="pencil" size={16} color="#007bff" />
+                    </TouchableOpacity>
+                    {rack.id !== DEFAULT_RACK_ID && (
+                      <TouchableOpacity 
+                        style={styles.deleteCategoryButton}
+                        onPress={() => deleteRack(rack)}
+                      >
+                        <IconSymbol name="trash" size={16} color="#FF3B30" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+
+            <View style={styles.addCategorySection}>
+              <Text style={styles.addCategoryTitle}>Add New Rack</Text>
+              <View style={styles.addCategoryInput}>
+                <TextInput
+                  style={styles.categoryInput}
+                  placeholder="Rack name, e.g. Work"
+                  placeholderTextColor="#666"
+                  value={newRackName}
+                  onChangeText={setNewRackName}
+                />
+                <TouchableOpacity 
+                  style={styles.addCategoryButton}
+                  onPress={createRack}
+                >
+                  <Text style={styles.addCategoryButtonText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={styles.categoryFilterOption}
+                onPress={() => setNewRackHasStarterContent(!newRackHasStarterContent)}
+              >
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Starter Content</Text>
+                  <Text style={styles.importListSummary}>Start with the sample clips and default categories</Text>
+                </View>
+                <IconSymbol
+                  name={newRackHasStarterContent ? 'checkmark.circle.fill' : 'circle'}
+                  size={20}
+                  color={newRackHasStarterContent ? '#007bff' : '#666'}
+                />
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+  /** Renders the rack list for picking where a share or a clip goes */
+  const renderRackChoiceModal = () => {
+    if (!rackChoice) return null;
+
+    const closeRackChoice = () => {
+      setRackChoice(null);
+      rackChoice.cancel?.();
+    };
+
+    return (
+      <Modal
+        visible
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeRackChoice}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={closeRackChoice}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{rackChoice.title}</Text>
+            <View style={styles.modalHeaderSpacer} />
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <View style={styles.filterSection}>
+              {rackChoice.racks.map(rack => (
+                <TouchableOpacity
+                  key={rack.id}
+                  style={styles.categoryFilterOption}
+                  onPress={() => {
+                    setRackChoice(null);
+                    rackChoice.choose(rack);
+                  }}
+                >
+                  <View style={styles.importItemInfo}>
+                    <Text style={styles.importItemTitle}>{rack.name}</Text>
+                    {rack.id === activeRackId && <Text style={styles.importListSummary}>Open now</Text>}
+                  </View>
+                  <IconSymbol name="chevron.right" size={16} color="#666" />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+  /** Renders the preview of clips detected in a multi-link share */
+  const renderShareImportModal = () => {
+    if (!pendingImport) return null;
+
+    const newClipCount = pendingImport.detected.filter(clip => clip.embed && !clip.isDuplicate).length;
+
+    const handleCloseImport = () => {
+      setPendingImport(null);
+      resetShareIntent();
+    };
+
+    // The preview stays open if saving fails, so Add can be tried again
+    const handleAddAll = async () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      try {
+        await addDetectedClips(pendingImport.detected, pendingImport.rack);
+        setPendingImport(null);
+      } catch (error) {
+        console.error('Failed to save shared clips:', error);
+        Alert.alert('Import Failed', 'The shared clips could not be saved. Please try again.');
+      }
+    };
+
+    return (
+      <Modal
+        visible
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseImport}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={handleCloseImport}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Import Clips</Text>
+            <TouchableOpacity 
+              style={[styles.modalSaveButton, newClipCount === 0 && styles.modalSaveButtonDisabled]}
+              onPress={handleAddAll}
+              disabled={newClipCount === 0}
+            >
+              <Text style={styles.modalSaveButtonText}>Add {newClipCount}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <Text style={styles.importListSummary}>
+              {pendingImport.detected.length} {pendingImport.detected.length === 1 ? 'link' : 'links'} found in shared content
+            </Text>
+            {pendingImport.detected.map((clip, index) => {
+              const provider = clip.embed ? getProvider(clip.embed.type) : undefined;
+              return (
+                <View
+                  key={`${index}-${clip.url}`}
+                  style={[styles.importItem, (clip.isDuplicate || !clip.embed) && styles.importItemSkipped]}
+                >
+                  <View style={styles.importItemInfo}>
+                    <Text style={[styles.importItemPlatform, provider && { color: provider.color }]}>
+                      {provider?.displayName ?? 'Unsupported'}
+                    </Text>
+                    <Text style={styles.importItemTitle} numberOfLines={1}>
+                      {clip.embed ? `${clip.embed.title} · ${clip.embed.subtitle}` : clip.url}
+                    </Text>
+                    <Text style={styles.importItemUrl} numberOfLines={1}>{clip.url}</Text>
+                  </View>
+                  {clip.isDuplicate && (
+                    <Text style={styles.importItemBadge}>Duplicate</Text>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+  /** Renders the library sheet: archive backup and restore, sync, and clip list exports */
+  const renderLibraryModal = () => {
+    // Pickers and share sheets open once the sheet has closed
+    const closeThen = (action: () => void) => () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setShowLibrary(false);
+      action();
+    };
+
+    const scopes = [
+      { id: null, name: 'Current View', count: clipCount, color: null },
+      ...categories.map(category => ({
+        id: category.id,
+        name: category.name,
+        count: categoryCounts[category.id] ?? 0,
+        color: category.color,
+      })),
+    ];
+
+    return (
+      <Modal
+        visible={showLibrary}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowLibrary(false)}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={() => setShowLibrary(false)}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Library</Text>
+            <View style={styles.modalHeaderSpacer} />
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Backup</Text>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(exportArchive)}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Export Archive</Text>
+                  <Text style={styles.importListSummary}>Every clip and category as a JSON file</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(chooseArchive)}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Import Archive</Text>
+                  <Text style={styles.importListSummary}>Merge an exported archive into this library</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => setShowBackups(true))}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Restore Backup</Text>
+                  <Text style={styles.importListSummary}>Roll back to a snapshot saved on this device</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(exportQuarantined)}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Export Quarantined Records</Text>
+                  <Text style={styles.importListSummary}>Stored clips and categories that failed validation, as a JSON file</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Sync</Text>
+              <TextInput
+                style={styles.syncServerInput}
+                value={syncServerInput ?? syncServerUrl ?? ''}
+                onChangeText={setSyncServerInput}
+                onEndEditing={saveSyncServer}
+                placeholder="Server address, e.g. http://192.168.1.5:8787"
+                placeholderTextColor="#666"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                returnKeyType="done"
+              />
+              <TouchableOpacity
+                style={[styles.categoryFilterOption, (!syncServerUrl || isSyncing) && styles.modalSaveButtonDisabled]}
+                onPress={closeThen(() => syncNow())}
+                disabled={!syncServerUrl || isSyncing}
+              >
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>{isSyncing ? 'Syncing...' : 'Sync Now'}</Text>
+                  <Text style={styles.importListSummary}>
+                    {!syncServerUrl
+                      ? 'Add a server address to sync with your other devices'
+                      : lastSyncedAt
+                        ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                        : 'Never synced'}
+                  </Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Security</Text>
+              {hasPasscode ? (
+                <>
+                  <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(changePasscode)}>
+                    <View style={styles.importItemInfo}>
+                      <Text style={styles.importItemTitle}>Change Passcode</Text>
+                      <Text style={styles.importListSummary}>Clips are encrypted; the app locks when you leave it</Text>
+                    </View>
+                    <IconSymbol name="chevron.right" size={16} color="#666" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(turnOffPasscode)}>
+                    <View style={styles.importItemInfo}>
+                      <Text style={styles.importItemTitle}>Turn Off Passcode</Text>
+                      <Text style={styles.importListSummary}>Stop locking the app and decrypt the library</Text>
+                    </View>
+                    <IconSymbol name="chevron.right" size={16} color="#666" />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(lockActions.lock)}>
+                    <View style={styles.importItemInfo}>
+                      <Text style={styles.importItemTitle}>Lock Now</Text>
+                      <Text style={styles.importListSummary}>Hide everything until the passcode is entered</Text>
+                    </View>
+                    <IconSymbol name="lock.fill" size={16} color="#666" />
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => askNewPasscode(null))}>
+                  <View style={styles.importItemInfo}>
+                    <Text style={styles.importItemTitle}>Set Passcode</Text>
+                    <Text style={styles.importListSummary}>Lock the app and encrypt the clips saved on this device</Text>
+                  </View>
+                  <IconSymbol name="chevron.right" size={16} color="#666" />
+                </TouchableOpacity>
+              )}
+              {hasPasscode && lockedCategoryIds.length > 0 && (
+                <TouchableOpacity
+                  style={styles.categoryFilterOption}
+                  onPress={hiddenCategoryIds.length > 0 ? closeThen(showLockedCategories) : () => clipActions.hideLockedCategories()}
+                >
+                  <View style={styles.importItemInfo}>
+                    <Text style={styles.importItemTitle}>
+                      {hiddenCategoryIds.length > 0 ? 'Show Locked Categories' : 'Hide Locked Categories'}
+                    </Text>
+                    <Text style={styles.importListSummary}>
+                      {lockedCategoryIds.length} locked {lockedCategoryIds.length === 1 ? 'category' : 'categories'}
+                      {hiddenCategoryIds.length > 0 ? ' hidden with their clips' : ' showing until the app locks'}
+                    </Text>
+                  </View>
+                  <IconSymbol name={hiddenCategoryIds.length > 0 ? 'lock.fill' : 'lock.open'} size={16} color="#666" />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Organize</Text>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => setShowCategoryManager(true))}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Manage Categories</Text>
+                  <Text style={styles.importListSummary}>Add, rename, lock or delete categories</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => setShowTrash(true))}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Recently Deleted</Text>
+                  <Text style={styles.importListSummary}>
+                    {trashCount} {trashCount === 1 ? 'item' : 'items'} · kept for {trashRetentionDays} days
+                  </Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.categoryFilterOption}
+                onPress={() => clipActions.setShowsStarterClips(activeRack.id, !activeRack.showsStarterClips)}
+              >
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Starter Clips</Text>
+                  <Text style={styles.importListSummary}>Show the sample clips after this rack&apos;s own</Text>
+                </View>
+                <IconSymbol
+                  name={activeRack.showsStarterClips ? 'checkmark.circle.fill' : 'circle'}
+                  size={20}
+                  color={activeRack.showsStarterClips ? '#007bff' : '#666'}
+                />
+              </TouchableOpacity>
+            </View>
 
-  /** Renders clip details modal */
-  const renderClipDetailsModal = () => {
-    if (!selectedClipForDetails) return null;
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Import From</Text>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => importCollection('bookmarks'))}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>Browser Bookmarks</Text>
+                  <Text style={styles.importListSummary}>An exported bookmarks HTML file; folders become categories</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.categoryFilterOption} onPress={closeThen(() => importCollection('youtube-takeout'))}>
+                <View style={styles.importItemInfo}>
+                  <Text style={styles.importItemTitle}>YouTube Takeout</Text>
+                  <Text style={styles.importListSummary}>Playlist and Watch Later CSVs; playlists become categories</Text>
+                </View>
+                <IconSymbol name="chevron.right" size={16} color="#666" />
+              </TouchableOpacity>
+            </View>
 
-    const handleCategoryToggle = (categoryId: string) => {
-      const newSelected = new Set(selectedCategories);
-      if (newSelected.has(categoryId)) {
-        newSelected.delete(categoryId);
-      } else {
-        newSelected.add(categoryId);
-      }
-      setSelectedCategories(newSelected);
-    };
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Export List</Text>
+              {scopes.map(scope => {
+                const isSelected = listExportCategory === scope.id;
+                return (
+                  <TouchableOpacity
+                    key={scope.id ?? 'view'}
+                    style={[styles.categoryFilterOption, isSelected && styles.categoryFilterOptionSelected]}
+                    onPress={() => setListExportCategory(scope.id)}
+                  >
+                    <View style={styles.categoryFilterOptionInfo}>
+                      {scope.color && <View style={[styles.categoryColorDot, { backgroundColor: scope.color }]} />}
+                      <Text style={[styles.categoryFilterOptionText, isSelected && styles.categoryFilterOptionTextSelected]}>
+                        {scope.name}
+                      </Text>
+                    </View>
+                    <Text style={styles.categoryCount}>{scope.count}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+              <View style={styles.exportFormatRow}>
+                {(Object.keys(CLIP_LIST_EXPORTERS) as ClipListFormat[]).map(format => (
+                  <TouchableOpacity
+                    key={format}
+                    style={styles.exportFormatButton}
+                    onPress={closeThen(() => exportList(format))}
+                  >
+                    <Text style={styles.addCategoryButtonText}>{CLIP_LIST_EXPORTERS[format].label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
 
-    const handleSaveCategories = () => {
-      updateEmbedCategories(selectedClipForDetails.id, Array.from(selectedCategories));
-      setShowClipDetails(false);
-      setSelectedClipForDetails(null);
+  /** Renders Recently Deleted: restore or purge trashed categories and clips, and the retention setting */
+  const renderTrashModal = () => {
+    /** Describes when an item was deleted and when it will be purged */
+    const describeDeletion = (deletedAt: number): string => {
+      const daysLeft = Math.max(0, Math.ceil((deletedAt + trashRetentionDays * DAY_MS - Date.now()) / DAY_MS));
+      return `Deleted ${new Date(deletedAt).toLocaleDateString()} · ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`;
     };
 
-    const handleDeleteClip = () => {
+    const handleEmptyTrash = () => {
       Alert.alert(
-        'Delete Clip',
-        'Are you sure you want to delete this clip? This action cannot be undone.',
+        'Empty Recently Deleted',
+        'Every item in Recently Deleted will be deleted for good. This action cannot be undone.',
         [
           { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Delete', 
-            style: 'destructive', 
-            onPress: () => {
-              deleteEmbed(selectedClipForDetails.id);
-              setShowClipDetails(false);
-              setSelectedClipForDetails(null);
-            }
-          }
+          { text: 'Delete All', style: 'destructive', onPress: () => clipActions.emptyTrash() }
         ]
       );
     };
 
+    const rows = [
+      ...trash.categories.map(({ category, deletedAt, clipCount }) => ({
+        key: `category-${category.id}`,
+        label: 'Category',
+        title: `${category.name} · ${clipCount} ${clipCount === 1 ? 'clip' : 'clips'}`,
+        deletedAt,
+        restore: () => clipActions.restoreCategory(category.id),
+        purge: () => clipActions.purgeCategory(category.id),
+      })),
+      ...trash.clips.map(({ clip, deletedAt }) => ({
+        key: `clip-${clip.id}`,
+        label: getProvider(clip.type)?.displayName ?? 'Clip',
+        title: `${clip.title} · ${clip.subtitle}`,
+        deletedAt,
+        restore: () => clipActions.restoreClip(clip.id),
+        purge: () => clipActions.purgeClip(clip.id),
+      })),
+    ];
+
     return (
       <Modal
-        visible={showClipDetails}
+        visible={showTrash}
         animationType="slide"
         presentationStyle="pageSheet"
-        onRequestClose={() => setShowClipDetails(false)}
+        onRequestClose={() => setShowTrash(false)}
       >
         <View style={styles.modalContainer}>
           <StatusBar style="light" />
           <View style={styles.modalHeader}>
             <TouchableOpacity 
               style={styles.modalCloseButton}
-              onPress={() => setShowClipDetails(false)}
+              onPress={() => setShowTrash(false)}
             >
               <IconSymbol name="xmark" size={18} color="#e8e8ea" />
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>Clip Details</Text>
-            <View style={styles.modalHeaderActions}>
-              <TouchableOpacity 
-                style={styles.modalDeleteButton}
-                onPress={handleDeleteClip}
-              >
-                <IconSymbol name="trash" size={18} color="#FF3B30" />
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={styles.modalSaveButton}
-                onPress={handleSaveCategories}
-              >
-                <Text style={styles.modalSaveButtonText}>Save</Text>
-              </TouchableOpacity>
-            </View>
+            <Text style={styles.modalTitle}>Recently Deleted</Text>
+            <TouchableOpacity 
+              style={[styles.modalDeleteButton, rows.length === 0 && styles.modalSaveButtonDisabled]}
+              onPress={handleEmptyTrash}
+              disabled={rows.length === 0}
+            >
+              <IconSymbol name="trash" size={18} color="#FF3B30" />
+            </TouchableOpacity>
           </View>
 
-          <ScrollView style={styles.modalContent}>
-            <View style={styles.clipInfo}>
-              <Text style={styles.clipTitle}>{selectedClipForDetails.title}</Text>
-              <Text style={styles.clipSubtitle}>{selectedClipForDetails.subtitle}</Text>
-              <Text style={styles.clipUrl}>{selectedClipForDetails.url}</Text>
-            </View>
-
-            <View style={styles.categoriesSection}>
-              <View style={styles.categoriesHeader}>
-                <Text style={styles.categoriesTitle}>Categories</Text>
-                <TouchableOpacity 
-                  style={styles.addToCategoriesButton}
-                  onPress={() => setShowCategoryDropdown(!showCategoryDropdown)}
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <Text style={styles.importListSummary}>Deleted items are kept for</Text>
+            <View style={styles.exportFormatRow}>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.retentionOption, days === trashRetentionDays && styles.categoryFilterOptionSelected]}
+                  onPress={() => clipActions.setTrashRetentionDays(days)}
                 >
-                  <IconSymbol name="plus" size={16} color="#007bff" />
-                  <Text style={styles.addToCategoriesButtonText}>Add to Categories</Text>
+                  <Text style={[styles.categoryFilterOptionText, days === trashRetentionDays && styles.categoryFilterOptionTextSelected]}>
+                    {days} days
+                  </Text>
                 </TouchableOpacity>
-              </View>
+              ))}
+            </View>
 
-              {/* Selected Categories Badges */}
-              {selectedCategories.size > 0 && (
-                <View style={styles.selectedCategoriesList}>
-                  {Array.from(selectedCategories).map(categoryId => {
-                    const category = categories.find(c => c.id === categoryId);
-                    if (!category) return null;
-                    return (
-                      <View key={categoryId} style={[styles.categoryBadge, { backgroundColor: category.color }]}>
-                        <Text style={styles.categoryBadgeText}>{category.name}</Text>
-                        <TouchableOpacity 
-                          onPress={() => handleCategoryToggle(categoryId)}
-                          style={styles.categoryBadgeRemove}
-                        >
-                          <IconSymbol name="xmark" size={12} color="#fff" />
-                        </TouchableOpacity>
-                      </View>
-                    );
-                  })}
-                </View>
+            <View style={styles.archiveConflictSection}>
+              {rows.length === 0 && (
+                <Text style={styles.importListSummary}>Nothing has been deleted recently.</Text>
               )}
-
-              {/* Category Dropdown */}
-              {showCategoryDropdown && (
-                <View style={styles.categoryDropdown}>
-                  {categories.map(category => {
-                    const isSelected = selectedCategories.has(category.id);
-                    return (
-                      <TouchableOpacity
-                        key={category.id}
-                        style={styles.categoryDropdownItem}
-                        onPress={() => handleCategoryToggle(category.id)}
-                      >
-                        <View style={styles.categoryDropdownItemLeft}>
-                          <View style={[styles.categoryColorDot, { backgroundColor: category.color }]} />
-                          <Text style={styles.categoryDropdownItemText}>{category.name}</Text>
-                        </View>
-                        <IconSymbol 
-                          name={isSelected ? "checkmark" : "circle"} 
-                          size={20} 
-                          color={isSelected ? "#007bff" : "#666"} 
-                        />
-                      </TouchableOpacity>
-                    );
-                  })}
+              {rows.map(row => (
+                <View key={row.key} style={styles.importItem}>
+                  <View style={styles.importItemInfo}>
+                    <Text style={styles.importItemPlatform}>{row.label}</Text>
+                    <Text style={styles.importItemTitle} numberOfLines={1}>{row.title}</Text>
+                    <Text style={styles.importItemUrl}>{describeDeletion(row.deletedAt)}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.clearButton} onPress={row.restore}>
+                    <Text style={styles.clearButtonText}>Restore</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={row.purge}>
+                    <IconSymbol name="trash" size={18} color="#FF3B30" />
+                  </TouchableOpacity>
                 </View>
-              )}
+              ))}
             </View>
           </ScrollView>
         </View>
@@ -1147,78 +2168,64 @@ export default function EmbedsScreen() {
     );
   };
 
-  /** Renders category manager modal */
-  const renderCategoryManagerModal = () => {
-    const handleCreateCategory = () => {
-      if (newCategoryName.trim()) {
-        createCategory(newCategoryName);
-      }
-    };
-
-    const handleDeleteCategory = (categoryId: string) => {
+  /** Renders the saved backups, each of which can be restored */
+  const renderBackupsModal = () => {
+    const handleRestore = (backup: BackupInfo) => {
       Alert.alert(
-        'Delete Category',
-        'Are you sure you want to delete this category? This will remove it from all clips.',
+        'Restore Backup',
+        `The library goes back to how it was on ${new Date(backup.createdAt).toLocaleString()}. Clips and categories added since move to Recently Deleted, and the current library is backed up first.`,
         [
           { text: 'Cancel', style: 'cancel' },
-          { text: 'Delete', style: 'destructive', onPress: () => deleteCategory(categoryId) }
+          { text: 'Restore', style: 'destructive', onPress: () => restoreBackup(backup) }
         ]
       );
     };
 
     return (
       <Modal
-        visible={showCategoryManager}
+        visible={showBackups}
         animationType="slide"
         presentationStyle="pageSheet"
-        onRequestClose={() => setShowCategoryManager(false)}
+        onRequestClose={() => setShowBackups(false)}
       >
         <View style={styles.modalContainer}>
           <StatusBar style="light" />
           <View style={styles.modalHeader}>
             <TouchableOpacity 
               style={styles.modalCloseButton}
-              onPress={() => setShowCategoryManager(false)}
+              onPress={() => setShowBackups(false)}
             >
               <IconSymbol name="xmark" size={18} color="#e8e8ea" />
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>Manage Categories</Text>
+            <Text style={styles.modalTitle}>Backups</Text>
             <View style={styles.modalHeaderSpacer} />
           </View>
 
-          <ScrollView style={styles.modalContent}>
-            <View style={styles.addCategorySection}>
-              <Text style={styles.addCategoryTitle}>Add New Category</Text>
-              <View style={styles.addCategoryInput}>
-                <TextInput
-                  style={styles.categoryInput}
-                  placeholder="Category name"
-                  placeholderTextColor="#666"
-                  value={newCategoryName}
-                  onChangeText={setNewCategoryName}
-                />
-                <TouchableOpacity 
-                  style={styles.addCategoryButton}
-                  onPress={handleCreateCategory}
-                >
-                  <Text style={styles.addCategoryButtonText}>Add</Text>
-                </TouchableOpacity>
-              </View>
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <Text style={styles.importListSummary}>
+              The library is backed up daily and after every {BACKUP_CHANGE_THRESHOLD} changes, and before imports and restores. The last {BACKUP_LIMIT} backups are kept on this device.
+            </Text>
+            <View style={styles.exportFormatRow}>
+              <TouchableOpacity style={styles.exportFormatButton} onPress={backUpNow}>
+                <Text style={styles.addCategoryButtonText}>Back Up Now</Text>
+              </TouchableOpacity>
             </View>
 
-            <View style={styles.existingCategoriesSection}>
-              <Text style={styles.existingCategoriesTitle}>Existing Categories</Text>
-              {categories.map(category => (
-                <View key={category.id} style={styles.categoryItem}>
-                  <View style={styles.categoryItemInfo}>
-                    <View style={[styles.categoryColorDot, { backgroundColor: category.color }]} />
-                    <Text style={styles.categoryItemName}>{category.name}</Text>
+            <View style={styles.archiveConflictSection}>
+              {backups?.length === 0 && (
+                <Text style={styles.importListSummary}>No backups yet.</Text>
+              )}
+              {backups?.map(backup => (
+                <View key={backup.createdAt} style={styles.importItem}>
+                  <View style={styles.importItemInfo}>
+                    <Text style={styles.importItemPlatform}>{BACKUP_REASON_LABELS[backup.reason]}</Text>
+                    <Text style={styles.importItemTitle}>{new Date(backup.createdAt).toLocaleString()}</Text>
+                    <Text style={styles.importItemUrl}>
+                      {backup.clipCount} {backup.clipCount === 1 ? 'clip' : 'clips'} · {backup.categoryCount} {backup.categoryCount === 1 ? 'category' : 'categories'}
+                    </Text>
                   </View>
-                  <TouchableOpacity 
-                    style={styles.deleteCategoryButton}
-                    onPress={() => handleDeleteCategory(category.id)}
-                  >
-                    <IconSymbol name="trash" size={16} color="#FF3B30" />
+                  <TouchableOpacity style={styles.clearButton} onPress={() => handleRestore(backup)}>
+                    <Text style={styles.clearButtonText}>Restore</Text>
                   </TouchableOpacity>
                 </View>
               ))}
@@ -1229,14 +2236,103 @@ export default function EmbedsScreen() {
     );
   };
 
+  /** Renders the preview of an archive import, with the conflict choice */
+  const renderArchiveImportModal = () => {
+    if (!pendingArchive) return null;
+
+    const { archive, preview } = pendingArchive;
+    const rows = [
+      { label: 'New clips', count: preview.added.length },
+      { label: 'Already saved', count: preview.unchanged },
+      { label: 'Different from saved copy', count: preview.conflicts },
+      { label: 'New categories', count: preview.categories.length },
+      { label: 'Invalid records skipped', count: archive.skipped },
+    ].filter(row => row.count > 0);
+
+    const handleImport = () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      importArchive(archive, archiveResolution);
+      setPendingArchive(null);
+    };
+
+    return (
+      <Modal
+        visible
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPendingArchive(null)}
+      >
+        <View style={styles.modalContainer}>
+          <StatusBar style="light" />
+          <View style={styles.modalHeader}>
+            <TouchableOpacity 
+              style={styles.modalCloseButton}
+              onPress={() => setPendingArchive(null)}
+            >
+              <IconSymbol name="xmark" size={18} color="#e8e8ea" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Import Archive</Text>
+            <TouchableOpacity 
+              style={styles.modalSaveButton}
+              onPress={handleImport}
+            >
+              <Text style={styles.modalSaveButtonText}>Import</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} contentContainerStyle={styles.importList}>
+            <Text style={styles.importListSummary}>
+              {archive.library.embeds.length} {archive.library.embeds.length === 1 ? 'clip' : 'clips'} in archive
+              {archive.exportedAt ? ` exported ${new Date(archive.exportedAt).toLocaleDateString()}` : ''}
+            </Text>
+            {rows.map(row => (
+              <View key={row.label} style={styles.importItem}>
+                <Text style={[styles.importItemTitle, styles.importItemInfo]}>{row.label}</Text>
+                <Text style={styles.categoryCount}>{row.count}</Text>
+              </View>
+            ))}
+
+            {preview.conflicts > 0 && (
+              <View style={styles.archiveConflictSection}>
+                <Text style={styles.filterSectionTitle}>Conflicts</Text>
+                {CONFLICT_RESOLUTIONS.map(option => {
+                  const isSelected = archiveResolution === option.key;
+                  return (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[styles.categoryFilterOption, isSelected && styles.categoryFilterOptionSelected]}
+                      onPress={() => setArchiveResolution(option.key)}
+                    >
+                      <View style={styles.importItemInfo}>
+                        <Text style={[styles.importItemTitle, isSelected && styles.categoryFilterOptionTextSelected]}>
+                          {option.label}
+                        </Text>
+                        <Text style={styles.importListSummary}>{option.description}</Text>
+                      </View>
+                      <IconSymbol 
+                        name={isSelected ? "checkmark" : "circle"} 
+                        size={20} 
+                        color={isSelected ? "#007bff" : "#666"} 
+                      />
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
 
   /** Renders combined filter page */
   const renderFilterPage = () => {
-    const sites = [
-      { key: 'youtube', label: 'YouTube', icon: '📺', color: '#FF0000' },
-      { key: 'tiktok', label: 'TikTok', icon: '🎵', color: '#000000' },
-      { key: 'instagram', label: 'Instagram', icon: '📷', color: '#E4405F' }
-    ];
+    const sites = PROVIDERS.map(provider => ({
+      key: provider.type,
+      label: provider.displayName,
+      icon: provider.filterIcon,
+      color: provider.color,
+    }));
 
     const toggleSite = (siteKey: string) => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -1340,7 +2436,7 @@ export default function EmbedsScreen() {
                     </Text>
                   </View>
                   <Text style={styles.categoryCount}>
-                    {allEmbeds.filter(embed => embed.categories?.includes(category.id)).length}
+                    {categoryCounts[category.id] ?? 0}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -1359,14 +2455,16 @@ export default function EmbedsScreen() {
     }
 
     try {
-      const html = generateEmbedHtml(selectedEmbed);
+      // Some clips (e.g. links without og:video) open the page itself
+      const playerUri = getPlayerUri(selectedEmbed);
+      const html = playerUri ? '' : generateEmbedHtml(selectedEmbed);
       const baseUrl = getBaseUrl(selectedEmbed.type);
       
       console.log('Rendering WebView for embed:', selectedEmbed.type);
       console.log('Base URL:', baseUrl);
-      console.log('HTML length:', html.length);
+      console.log(playerUri ? `Player URI: ${playerUri}` : `HTML length: ${html.length}`);
 
-      if (!html || html.length < 100) {
+      if (!playerUri && (!html || html.length < 100)) {
         console.error('Generated HTML is too short or invalid:', html);
         return (
           <View style={styles.container}>
@@ -1386,7 +2484,7 @@ export default function EmbedsScreen() {
           <BackFloating />
           <WebView
             originWhitelist={["*"]}
-            source={{ html, baseUrl }}
+            source={playerUri ? { uri: playerUri } : { html, baseUrl }}
             style={styles.webview}
             javaScriptEnabled
             domStorageEnabled
@@ -1420,6 +2518,11 @@ export default function EmbedsScreen() {
     }
   };
 
+  // Modals would show above the lock screen, so nothing renders while the app is locked
+  if (isLocked && hasPasscode) {
+    return <View style={styles.container} />;
+  }
+
   if (showFilterPage) {
     return renderFilterPage();
   }
@@ -1430,6 +2533,28 @@ export default function EmbedsScreen() {
       {active === 'menu' ? renderMenu() : renderWebView()}
       {renderClipDetailsModal()}
       {renderCategoryManagerModal()}
+      {renderShareImportModal()}
+      {renderLibraryModal()}
+      {renderRacksModal()}
+      {renderRackChoiceModal()}
+      {renderTrashModal()}
+      {renderBackupsModal()}
+      {renderArchiveImportModal()}
+      {renderPasscodeModal()}
+      {undoToast && (
+        <View style={styles.undoToast}>
+          <Text style={styles.undoToastText}>{undoToast.message}</Text>
+          <TouchableOpacity
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              clipActions.undo().catch(error => console.error('Failed to undo delete:', error));
+              setUndoToast(null);
+            }}
+          >
+            <Text style={styles.undoToastButtonText}>Undo</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 }
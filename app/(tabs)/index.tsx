@@ -6,8 +6,20 @@ import { HelloWave } from '@/components/HelloWave';
 import ParallaxScrollView from '@/components/ParallaxScrollView';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { getProvider, PROVIDERS } from '@/src/embeds/providers';
+import { useClips, useLibrary } from '@/src/embeds/store';
+
+// How many of the newest clips the home screen lists
+const RECENT_CLIP_COUNT = 3;
+
+// Named platforms from the provider registry, e.g. "YouTube, TikTok, or Twitch"; the link fallback is mentioned separately
+const PLATFORM_NAMES = PROVIDERS.filter(provider => provider.type !== 'link').map(provider => provider.displayName);
+const PLATFORM_LIST = `${PLATFORM_NAMES.slice(0, -1).join(', ')}, or ${PLATFORM_NAMES[PLATFORM_NAMES.length - 1]}`;
 
 export default function HomeScreen() {
+  const { isLoaded, clipTotal, hiddenCategoryIds } = useLibrary();
+  const { clips: recentClips } = useClips({ sort: 'newest', hiddenCategoryIds }, RECENT_CLIP_COUNT);
+
   return (
     <ParallaxScrollView
       headerBackgroundColor={{ light: '#A1CEDC', dark: '#1D3D47' }}
@@ -24,9 +36,26 @@ export default function HomeScreen() {
       <ThemedView style={styles.stepContainer}>
         <ThemedText type="subtitle">How to Use ClipRack</ThemedText>
         <ThemedText>
-          Share social media URLs from Instagram, YouTube, or TikTok to automatically create clips in your collection.
+          Share URLs from {PLATFORM_LIST} to automatically create clips in your collection. Any other web link is
+          saved too, as a card with the page&apos;s preview.
         </ThemedText>
       </ThemedView>
+      {isLoaded && (
+        <ThemedView style={styles.stepContainer}>
+          <ThemedText type="subtitle">Your Rack</ThemedText>
+          <ThemedText>
+            {clipTotal === 0
+              ? 'No saved clips yet.'
+              : `${clipTotal} saved ${clipTotal === 1 ? 'clip' : 'clips'}. Newest:`}
+          </ThemedText>
+          {recentClips.slice(0, RECENT_CLIP_COUNT).map(clip => (
+            <ThemedText key={clip.id} numberOfLines={1}>
+              <ThemedText type="defaultSemiBold">{getProvider(clip.type)?.displayName ?? 'Clip'}</ThemedText>
+              {` · ${clip.title}`}
+            </ThemedText>
+          ))}
+        </ThemedView>
+      )}
     </ParallaxScrollView>
   );
 }
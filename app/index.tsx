@@ -8,9 +8,10 @@ export default function RootIndex() {
   const { hasShareIntent, shareIntent } = useShareIntentContext();
 
   useEffect(() => {
-    if (hasShareIntent && shareIntent?.webUrl) {
+    if (hasShareIntent && (shareIntent?.webUrl || shareIntent?.text)) {
       console.log('🚀 Root Index: Share intent detected, redirecting to clips tab');
       console.log('🚀 Root Index: Web URL:', shareIntent.webUrl);
+      console.log('🚀 Root Index: Text:', shareIntent.text);
       // Redirect to clips tab when there's a share intent
       router.replace('/(tabs)/embeds');
     } else {
@@ -18,7 +19,7 @@ export default function RootIndex() {
       // No share intent, go to home tab
       router.replace('/(tabs)');
     }
-  }, [hasShareIntent, shareIntent?.webUrl, router]);
+  }, [hasShareIntent, shareIntent?.webUrl, shareIntent?.text, router]);
 
   return (
     <View style={styles.container}>
@@ -0,0 +1,32 @@
+import { StyleSheet, View } from 'react-native';
+
+import { PasscodeForm } from '@/components/PasscodeForm';
+import { lockActions, useAppLock } from '@/src/embeds/store';
+
+/**
+ * Covers the whole app while it's locked behind its passcode, and while it's
+ * still finding out whether it has one, so nothing shows before it's known.
+ */
+export function LockScreen() {
+  const { isReady, isLocked } = useAppLock();
+  if (isReady && !isLocked) return null;
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container]}>
+      {isReady && (
+        <PasscodeForm
+          title="ClipRack is Locked"
+          message="Enter your passcode to open your clips"
+          submitLabel="Unlock"
+          onSubmit={lockActions.unlock}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#0b0b0c',
+  },
+});
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IconSymbol } from '@/components/ui/IconSymbol';
+
+/**
+ * A digits-only passcode field, for the lock screen and every passcode
+ * prompt. `onSubmit` resolves to a problem to show under the title, or null
+ * once the passcode has been accepted.
+ */
+export function PasscodeForm({
+  title,
+  message,
+  submitLabel = 'Continue',
+  onSubmit,
+  onCancel,
+}: {
+  title: string;
+  message: string;
+  submitLabel?: string;
+  onSubmit: (passcode: string) => Promise<string | null>;
+  onCancel?: () => void;
+}) {
+  const [passcode, setPasscode] = useState('');
+  const [problem, setProblem] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const submit = async () => {
+    if (!passcode || isChecking) return;
+    setIsChecking(true);
+    const nextProblem = await onSubmit(passcode).catch((error) =>
+      error instanceof Error ? error.message : 'The passcode could not be checked.'
+    );
+    setIsChecking(false);
+    setProblem(nextProblem);
+    setPasscode('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <IconSymbol name="lock.fill" size={36} color="#e8e8ea" />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={[styles.message, problem && styles.problem]}>{problem ?? message}</Text>
+      <TextInput
+        style={styles.input}
+        value={passcode}
+        onChangeText={(text) => setPasscode(text.replace(/\D/g, ''))}
+        onSubmitEditing={submit}
+        keyboardType="number-pad"
+        textContentType="password"
+        maxLength={32}
+        secureTextEntry
+        autoFocus
+      />
+      <View style={styles.actions}>
+        {onCancel && (
+          <TouchableOpacity style={styles.button} onPress={onCancel}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.button, styles.submitButton, (!passcode || isChecking) && styles.disabled]}
+          onPress={submit}
+          disabled={!passcode || isChecking}>
+          <Text style={styles.submitText}>{isChecking ? 'Checking...' : submitLabel}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 120,
+    gap: 16,
+  },
+  title: {
+    color: '#e8e8ea',
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  message: {
+    color: '#999',
+    fontSize: 15,
+    textAlign: 'center',
+    lineHeight: 21,
+  },
+  problem: {
+    color: '#FF3B30',
+  },
+  input: {
+    alignSelf: 'stretch',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    color: '#e8e8ea',
+    fontSize: 24,
+    letterSpacing: 8,
+    paddingVertical: 14,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  submitButton: {
+    backgroundColor: '#007bff',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  cancelText: {
+    color: '#e8e8ea',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  submitText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
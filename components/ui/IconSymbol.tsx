@@ -26,6 +26,13 @@ const MAPPING = {
   'plus': 'add',
   'checkmark.circle.fill': 'check-circle',
   'circle': 'radio-button-unchecked',
+  'archivebox': 'archive',
+  'arrow.uturn.backward': 'undo',
+  'arrow.uturn.forward': 'redo',
+  'chevron.down': 'keyboard-arrow-down',
+  'arrow.right.doc.on.clipboard': 'drive-file-move',
+  'lock.fill': 'lock',
+  'lock.open': 'lock-open',
 } as IconMapping;
 
 /**
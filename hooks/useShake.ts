@@ -0,0 +1,44 @@
+/**
+ * Calls `onShake` when the device is shaken, like iOS's shake to undo.
+ * Does nothing on devices without an accelerometer.
+ */
+
+import { Accelerometer } from 'expo-sensors';
+import React from 'react';
+
+// Acceleration in g; resting reads about 1
+const SHAKE_THRESHOLD = 2.2;
+const SAMPLE_INTERVAL_MS = 100;
+// One shake fires once, however long the device keeps moving
+const SHAKE_COOLDOWN_MS = 1500;
+
+export function useShake(onShake: () => void, isEnabled: boolean = true) {
+  const onShakeRef = React.useRef(onShake);
+  onShakeRef.current = onShake;
+
+  React.useEffect(() => {
+    if (!isEnabled) return;
+
+    let subscription: { remove: () => void } | null = null;
+    let isCancelled = false;
+    let lastShakeAt = 0;
+
+    Accelerometer.isAvailableAsync()
+      .then(isAvailable => {
+        if (!isAvailable || isCancelled) return;
+        Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+        subscription = Accelerometer.addListener(({ x, y, z }) => {
+          const now = Date.now();
+          if (Math.sqrt(x * x + y * y + z * z) < SHAKE_THRESHOLD || now - lastShakeAt < SHAKE_COOLDOWN_MS) return;
+          lastShakeAt = now;
+          onShakeRef.current();
+        });
+      })
+      .catch(error => console.error('Failed to start shake detection:', error));
+
+    return () => {
+      isCancelled = true;
+      subscription?.remove();
+    };
+  }, [isEnabled]);
+}
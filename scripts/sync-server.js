@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+
+/**
+ * Reference ClipRack sync server - small enough to read in one sitting and
+ * to self-host on a home machine. Speaks the protocol in src/embeds/sync and
+ * settles records with the same merge the app uses.
+ *
+ *   pnpm sync-server [--port 8787] [--data ./cliprack-sync.json]
+ *
+ * Every stored record carries the sequence number of its last change; a
+ * device's cursor is the highest number it has seen. A path before /v1 picks
+ * a separate space, so each rack can sync through its own address, e.g.
+ * http://192.168.1.5:8787/work. There is no authentication, so run it only
+ * on a network you trust.
+ */
+
+const fs = require("fs");
+const http = require("http");
+const path = require("path");
+const ts = require("typescript");
+
+// Compile .ts files to CommonJS as they're required
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { isSameRecord, mergeCategoryRecords, mergeClipRecords } = require("../src/embeds/sync/merge.ts");
+const { getSyncCategoryProblem, getSyncClipProblem, SYNC_PROTOCOL_VERSION } = require("../src/embeds/sync/protocol.ts");
+
+const DEFAULT_PORT = 8787;
+// "/v1/changes" is the default space, "/work/v1/changes" the "work" one
+const CHANGES_PATH = /^(?:\/([\w-]+))?\/v1\/changes$/;
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+/** Reads `--name value` from the command line */
+const getArgument = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const createSpace = () => ({ seq: 0, clips: {}, categories: {} });
+
+/** Loads the stored spaces, or starts empty; `dataFile` null keeps everything in memory */
+const loadStore = (dataFile) => {
+  if (!dataFile || !fs.existsSync(dataFile)) return { spaces: {} };
+
+  const saved = JSON.parse(fs.readFileSync(dataFile, "utf8"));
+  // Files from before spaces hold the default space alone
+  return saved.spaces ? saved : { spaces: { "": saved } };
+};
+
+/** Writes the store through a temporary file, so a crash can't leave half a file */
+const saveStore = (dataFile, store) => {
+  if (!dataFile) return;
+  const temporary = `${dataFile}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(store));
+  fs.renameSync(temporary, dataFile);
+};
+
+/** Merges incoming records into one of a space's tables; returns how many changed it */
+const mergeInto = (space, table, records, merge) => {
+  let changed = 0;
+  for (const record of records) {
+    const stored = space[table][record.id];
+    const merged = merge(stored ? stored.record : null, record);
+    if (stored && isSameRecord(stored.record, merged)) continue;
+    space[table][record.id] = { seq: ++space.seq, record: merged };
+    changed++;
+  }
+  return changed;
+};
+
+/** Lists the records changed after `since`, oldest change first */
+const getChangesSince = (space, table, since) =>
+  Object.values(space[table])
+    .filter((entry) => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map((entry) => entry.record);
+
+const respond = (response, status, body) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("The request is too large."));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+
+/** Creates the server; call `listen` on the result */
+const createSyncServer = ({ dataFile = null } = {}) => {
+  const store = loadStore(dataFile);
+
+  const answer = (response, space, since) =>
+    respond(response, 200, {
+      protocol: SYNC_PROTOCOL_VERSION,
+      cursor: String(space.seq),
+      changes: {
+        clips: getChangesSince(space, "clips", since),
+        categories: getChangesSince(space, "categories", since),
+      },
+    });
+
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url, "http://localhost");
+    const match = url.pathname.match(CHANGES_PATH);
+    if (!match) {
+      respond(response, 404, { error: "Not found." });
+      return;
+    }
+    const spaceName = match[1] ?? "";
+    const space = store.spaces[spaceName] ?? createSpace();
+
+    // GET pulls without pushing anything
+    if (request.method === "GET") {
+      answer(response, space, Number(url.searchParams.get("since")) || 0);
+      return;
+    }
+    if (request.method !== "POST") {
+      respond(response, 405, { error: "Use GET or POST." });
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch (error) {
+      respond(response, 400, { error: error instanceof SyntaxError ? "The request is not valid JSON." : error.message });
+      return;
+    }
+    if (!body || body.protocol !== SYNC_PROTOCOL_VERSION || !body.changes) {
+      respond(response, 400, { error: `This server speaks sync protocol ${SYNC_PROTOCOL_VERSION}.` });
+      return;
+    }
+
+    const clips = Array.isArray(body.changes.clips) ? body.changes.clips : [];
+    const categories = Array.isArray(body.changes.categories) ? body.changes.categories : [];
+    const validClips = clips.filter((record) => getSyncClipProblem(record) === null);
+    const validCategories = categories.filter((record) => getSyncCategoryProblem(record) === null);
+    const rejected = clips.length - validClips.length + categories.length - validCategories.length;
+
+    const changed =
+      mergeInto(space, "categories", validCategories, mergeCategoryRecords) +
+      mergeInto(space, "clips", validClips, mergeClipRecords);
+    if (changed > 0) {
+      store.spaces[spaceName] = space;
+      saveStore(dataFile, store);
+    }
+
+    console.log(
+      `🔄 ${new Date().toISOString()} ${spaceName || "default"}: received ${validClips.length + validCategories.length}, changed ${changed}` +
+        (rejected > 0 ? `, rejected ${rejected} invalid` : "")
+    );
+    answer(response, space, Number(body.since) || 0);
+  });
+};
+
+module.exports = { createSyncServer };
+
+if (require.main === module) {
+  const port = Number(getArgument("port", process.env.PORT || DEFAULT_PORT));
+  const dataFile = path.resolve(getArgument("data", process.env.CLIPRACK_SYNC_DATA || "cliprack-sync.json"));
+
+  createSyncServer({ dataFile }).listen(port, () => {
+    console.log(`✅ ClipRack sync server listening on port ${port}`);
+    console.log(`💾 Storing records in ${dataFile}`);
+  });
+}
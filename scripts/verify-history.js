@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+/**
+ * Checks the edit history behind the gallery's undo button: that undoing a
+ * command and redoing it again land the library where it was, and that the
+ * undo and redo stacks move commands the way the store expects. Effects are
+ * applied to a small in-memory library, so no database is needed.
+ * Exits with a non-zero code if any scenario fails.
+ */
+
+const assert = require("assert");
+const fs = require("fs");
+const ts = require("typescript");
+
+// Compile .ts files to CommonJS as they're required
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+// Unreadable histories are logged; keep the report readable
+console.log = () => {};
+
+const {
+  EDIT_HISTORY_LIMIT,
+  EMPTY_HISTORY,
+  getEditEffects,
+  parseEditHistory,
+  recordEdit,
+  stepHistory,
+  toClipChanges,
+} = require("../src/embeds/store/history.ts");
+
+const HERE = "rack-here";
+
+/** A library of clips and categories across racks, each either live or in Recently Deleted */
+const createLibrary = () => ({
+  clips: new Map([
+    [`${HERE}/clip-a`, { title: "A", note: "first", trashed: false }],
+    [`${HERE}/clip-b`, { title: "B", trashed: false }],
+    ["rack-there/copy-a", { title: "A", note: "first", trashed: true }],
+  ]),
+  categories: new Map([["cat-music", { name: "Music", trashed: false }]]),
+});
+
+const applyEffects = (library, effects) => {
+  for (const effect of effects) {
+    switch (effect.type) {
+      case "trashClip":
+      case "restoreClip": {
+        const clip = library.clips.get(`${effect.rackId ?? HERE}/${effect.clipId}`);
+        clip.trashed = effect.type === "trashClip";
+        break;
+      }
+      case "trashCategory":
+      case "restoreCategory":
+        library.categories.get(effect.categoryId).trashed = effect.type === "trashCategory";
+        break;
+      case "updateClip": {
+        const key = `${HERE}/${effect.clipId}`;
+        const changed = { ...library.clips.get(key), ...toClipChanges(effect.fields) };
+        for (const field of Object.keys(changed)) if (changed[field] === undefined) delete changed[field];
+        library.clips.set(key, changed);
+        break;
+      }
+      case "renameCategory":
+        library.categories.get(effect.categoryId).name = effect.name;
+        break;
+    }
+  }
+};
+
+// Field order doesn't matter, only which fields are set and to what
+const sortFields = (entries) => entries.map(([key, value]) => [key, Object.fromEntries(Object.entries(value).sort())]);
+const snapshot = (library) =>
+  JSON.stringify({ clips: sortFields([...library.clips]), categories: sortFields([...library.categories]) });
+
+/** Runs a command's redo as the original action, then checks undo and redo flip between the two states */
+const assertInverts = (command, setUp = () => {}) => {
+  const library = createLibrary();
+  setUp(library);
+  const before = snapshot(library);
+  applyEffects(library, getEditEffects(command, "redo"));
+  const after = snapshot(library);
+  assert.notStrictEqual(after, before, "the command changed nothing");
+
+  applyEffects(library, getEditEffects(command, "undo"));
+  assert.strictEqual(snapshot(library), before, "undo didn't restore the library");
+  applyEffects(library, getEditEffects(command, "redo"));
+  assert.strictEqual(snapshot(library), after, "redo didn't repeat the command");
+};
+
+const trash = (key) => (library) => {
+  library.clips.get(key).trashed = true;
+};
+
+const SCENARIOS = [
+  {
+    name: "undoing an add trashes the clips and redoing restores them",
+    run: () => {
+      const command = { type: "addClips", clipIds: ["clip-a", "clip-b"] };
+      assert.deepStrictEqual(
+        getEditEffects(command, "undo").map((effect) => effect.type),
+        ["trashClip", "trashClip"]
+      );
+      assertInverts(command, (library) => {
+        trash(`${HERE}/clip-a`)(library);
+        trash(`${HERE}/clip-b`)(library);
+      });
+    },
+  },
+  {
+    name: "undoing a delete restores the clip",
+    run: () => {
+      const command = { type: "deleteClip", clipId: "clip-a" };
+      assert.deepStrictEqual(getEditEffects(command, "undo"), [{ type: "restoreClip", clipId: "clip-a" }]);
+      assertInverts(command);
+    },
+  },
+  {
+    name: "undoing a restore trashes the clip again",
+    run: () => assertInverts({ type: "restoreClip", clipId: "clip-a" }, trash(`${HERE}/clip-a`)),
+  },
+  {
+    name: "edits swap between the fields from before and after, including unset ones",
+    run: () => {
+      const command = {
+        type: "editClip",
+        clipId: "clip-a",
+        before: { title: "A", note: "first" },
+        after: { title: "Renamed", note: null },
+      };
+      assertInverts(command);
+      const library = createLibrary();
+      applyEffects(library, getEditEffects(command, "redo"));
+      assert.strictEqual("note" in library.clips.get(`${HERE}/clip-a`), false);
+    },
+  },
+  {
+    name: "category create, delete, restore and rename invert",
+    run: () => {
+      assertInverts({ type: "deleteCategory", categoryId: "cat-music" });
+      assertInverts({ type: "createCategory", categoryId: "cat-music" }, (library) => {
+        library.categories.get("cat-music").trashed = true;
+      });
+      assertInverts({ type: "restoreCategory", categoryId: "cat-music" }, (library) => {
+        library.categories.get("cat-music").trashed = true;
+      });
+      assertInverts({ type: "renameCategory", categoryId: "cat-music", before: "Music", after: "Songs" });
+    },
+  },
+  {
+    name: "moves flip the clips here and their copies in the other rack",
+    run: () => {
+      const command = { type: "moveClips", clipIds: ["clip-a"], rackId: "rack-there", copiedIds: ["copy-a"] };
+      assert.deepStrictEqual(getEditEffects(command, "undo"), [
+        { type: "restoreClip", clipId: "clip-a" },
+        { type: "trashClip", clipId: "copy-a", rackId: "rack-there" },
+      ]);
+      // The move itself trashed the clip here and created its copy there
+      assertInverts(command, (library) => {
+        library.clips.get(`${HERE}/clip-a`).trashed = false;
+        library.clips.get("rack-there/copy-a").trashed = true;
+      });
+    },
+  },
+  {
+    name: "stepping moves commands between the stacks and a new edit clears redo",
+    run: () => {
+      const first = { type: "deleteClip", clipId: "clip-a" };
+      const second = { type: "deleteClip", clipId: "clip-b" };
+      let history = recordEdit(recordEdit(EMPTY_HISTORY, first), second);
+
+      const undone = stepHistory(history, "undo");
+      assert.strictEqual(undone.command, second);
+      assert.deepStrictEqual(undone.history, { undo: [first], redo: [second] });
+
+      const redone = stepHistory(undone.history, "redo");
+      assert.strictEqual(redone.command, second);
+      assert.deepStrictEqual(redone.history, { undo: [first, second], redo: [] });
+
+      history = recordEdit(undone.history, { type: "restoreClip", clipId: "clip-a" });
+      assert.deepStrictEqual(history.redo, []);
+      assert.strictEqual(stepHistory(EMPTY_HISTORY, "undo"), null);
+      assert.strictEqual(stepHistory(EMPTY_HISTORY, "redo"), null);
+    },
+  },
+  {
+    name: "the history keeps only the newest commands",
+    run: () => {
+      let history = EMPTY_HISTORY;
+      for (let i = 0; i < EDIT_HISTORY_LIMIT + 5; i++) {
+        history = recordEdit(history, { type: "deleteClip", clipId: `clip-${i}` });
+      }
+      assert.strictEqual(history.undo.length, EDIT_HISTORY_LIMIT);
+      assert.strictEqual(history.undo[0].clipId, "clip-5");
+    },
+  },
+  {
+    name: "saved histories drop commands they don't recognize",
+    run: () => {
+      const saved = JSON.stringify({ undo: [{ type: "deleteClip", clipId: "clip-a" }, { type: "unknown" }, null], redo: "nope" });
+      assert.deepStrictEqual(parseEditHistory(saved), { undo: [{ type: "deleteClip", clipId: "clip-a" }], redo: [] });
+      assert.deepStrictEqual(parseEditHistory("{not json"), EMPTY_HISTORY);
+      assert.deepStrictEqual(parseEditHistory(null), EMPTY_HISTORY);
+    },
+  },
+];
+
+let failures = 0;
+for (const scenario of SCENARIOS) {
+  try {
+    scenario.run();
+  } catch (error) {
+    failures++;
+    console.error(`❌ ${scenario.name}\n   ${error.message}`);
+  }
+}
+const passed = SCENARIOS.length - failures;
+console.error(`\n${failures === 0 ? "✅" : "❌"} ${passed}/${SCENARIOS.length} history scenarios passed`);
+process.exit(failures === 0 ? 0 : 1);
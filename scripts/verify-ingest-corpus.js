@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/**
+ * Runs the golden URL corpus (src/embeds/ingest/corpus.ts) under Node.
+ * TypeScript sources are transpiled on the fly, so no build step is needed.
+ * Exits with a non-zero code if any URL produces a different clip.
+ */
+
+const fs = require("fs");
+const ts = require("typescript");
+
+// Compile .ts files to CommonJS as they're required
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+// Providers log every resolution step; keep the report readable
+console.log = () => {};
+
+const { INGEST_CORPUS, runIngestCorpus } = require("../src/embeds/ingest/corpus.ts");
+
+runIngestCorpus()
+  .then((failures) => {
+    for (const failure of failures) {
+      console.error(`\n❌ ${failure.url} (${failure.reason})`);
+      console.error(`   expected: ${JSON.stringify(failure.expected)}`);
+      console.error(`   actual:   ${JSON.stringify(failure.actual)}`);
+    }
+
+    const passed = INGEST_CORPUS.length - failures.length;
+    console.error(`\n${failures.length === 0 ? "✅" : "❌"} ${passed}/${INGEST_CORPUS.length} corpus URLs passed`);
+    process.exit(failures.length === 0 ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error("❌ Corpus run failed:", error);
+    process.exit(1);
+  });
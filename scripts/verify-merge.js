@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+
+/**
+ * Checks the plan for merging an imported archive into the library on the
+ * device: clips matched by canonical key, categories joined by name or given
+ * a fresh ID, and each conflict resolution. The planner is plain TypeScript,
+ * so this runs against small libraries in memory.
+ * Exits with a non-zero code if any scenario fails.
+ */
+
+const assert = require("assert");
+const fs = require("fs");
+const ts = require("typescript");
+
+// Compile .ts files to CommonJS as they're required
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+// Providers log as they load; keep the report readable
+console.log = () => {};
+
+const { formatArchiveMergeSummary, planArchiveMerge } = require("../src/embeds/archive/merge.ts");
+
+const NOW = 1_700_000_000_000;
+
+const clip = (id, path, change = {}) => ({
+  id,
+  type: "link",
+  url: `https://example.com/${path}`,
+  title: path,
+  subtitle: "example.com",
+  createdAt: NOW - 1000,
+  categories: [],
+  ...change,
+});
+
+const category = (id, name) => ({ id, name, color: "#888888", createdAt: NOW - 1000 });
+
+const LOCAL = {
+  embeds: [clip("local-1", "shared", { categories: ["cat-music"] }), clip("local-2", "mine-only")],
+  categories: [category("cat-music", "Music"), category("cat-taken", "Recipes")],
+};
+
+const SCENARIOS = [
+  {
+    name: "new clips are added and an identical copy counts as already saved",
+    run: () => {
+      const incoming = {
+        embeds: [clip("their-1", "shared", { categories: ["cat-music"] }), clip("their-2", "theirs-only")],
+        categories: [category("cat-music", "Music")],
+      };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.deepStrictEqual(plan.added.map((embed) => embed.id), ["their-2"]);
+      assert.strictEqual(plan.unchanged, 1);
+      assert.strictEqual(plan.conflicts, 0);
+      assert.deepStrictEqual(plan.categories, []);
+      assert.strictEqual(formatArchiveMergeSummary(plan, "keep-mine"), "Imported 1 clip · 1 already saved");
+    },
+  },
+  {
+    name: "clips match by canonical key, not by ID",
+    run: () => {
+      const incoming = { embeds: [clip("some-other-id", "shared?utm_source=feed", { categories: [] })], categories: [] };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.deepStrictEqual(plan.added, []);
+      assert.strictEqual(plan.conflicts, 1);
+    },
+  },
+  {
+    name: "categories join a local one by name and clip links follow",
+    run: () => {
+      const incoming = {
+        embeds: [clip("their-1", "theirs-only", { categories: ["their-music", "cat-missing"] })],
+        categories: [category("their-music", "  music ")],
+      };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.deepStrictEqual(plan.categories, []);
+      // A link to a category the archive doesn't have is dropped
+      assert.deepStrictEqual(plan.added[0].categories, ["cat-music"]);
+    },
+  },
+  {
+    name: "a category ID a different local category uses gets a fresh ID",
+    run: () => {
+      const incoming = {
+        embeds: [clip("their-1", "theirs-only", { categories: ["cat-taken"] })],
+        categories: [category("cat-taken", "Travel"), category("cat-new", "Games")],
+      };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.strictEqual(plan.remappedCategories, 1);
+      assert.deepStrictEqual(plan.categories.map((c) => [c.id, c.name]), [[`category-${NOW}-0`, "Travel"], ["cat-new", "Games"]]);
+      assert.deepStrictEqual(plan.added[0].categories, [`category-${NOW}-0`]);
+    },
+  },
+  {
+    name: "an added clip whose ID is taken by a different clip gets a fresh ID",
+    run: () => {
+      const incoming = { embeds: [clip("local-2", "theirs-only"), clip("local-2", "another")], categories: [] };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.deepStrictEqual(plan.added.map((embed) => embed.id), [`${NOW}-0`, `${NOW}-1`]);
+    },
+  },
+  {
+    name: "keep-mine leaves conflicting clips alone",
+    run: () => {
+      const incoming = { embeds: [clip("their-1", "shared", { title: "Renamed", categories: [] })], categories: [] };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-mine", NOW);
+      assert.strictEqual(plan.conflicts, 1);
+      assert.deepStrictEqual(plan.updated, []);
+      assert.strictEqual(formatArchiveMergeSummary(plan, "keep-mine"), "Imported 0 clips · kept 1 conflict");
+    },
+  },
+  {
+    name: "keep-theirs replaces the saved copy but keeps its ID and date",
+    run: () => {
+      const incoming = {
+        embeds: [clip("their-1", "shared", { title: "Renamed", createdAt: NOW, categories: ["cat-music"] })],
+        categories: [category("cat-music", "Music")],
+      };
+      const plan = planArchiveMerge(LOCAL, incoming, "keep-theirs", NOW);
+      assert.strictEqual(plan.updated.length, 1);
+      assert.strictEqual(plan.updated[0].id, "local-1");
+      assert.strictEqual(plan.updated[0].createdAt, NOW - 1000);
+      assert.strictEqual(plan.updated[0].title, "Renamed");
+    },
+  },
+  {
+    name: "merge-categories keeps the saved copy and adds the imported categories",
+    run: () => {
+      const incoming = {
+        embeds: [clip("their-1", "shared", { title: "Renamed", categories: ["cat-games"] })],
+        categories: [category("cat-games", "Games")],
+      };
+      const plan = planArchiveMerge(LOCAL, incoming, "merge-categories", NOW);
+      assert.strictEqual(plan.updated.length, 1);
+      assert.strictEqual(plan.updated[0].title, "shared");
+      assert.deepStrictEqual(plan.updated[0].categories, ["cat-music", "cat-games"]);
+
+      // Nothing to write when the saved copy already has every imported category
+      const subset = { embeds: [clip("their-1", "shared", { title: "Renamed", categories: ["cat-music"] })], categories: LOCAL.categories };
+      const unchanged = planArchiveMerge(LOCAL, subset, "merge-categories", NOW);
+      assert.strictEqual(unchanged.conflicts, 1);
+      assert.deepStrictEqual(unchanged.updated, []);
+    },
+  },
+];
+
+let failures = 0;
+for (const scenario of SCENARIOS) {
+  try {
+    scenario.run();
+  } catch (error) {
+    failures++;
+    console.error(`❌ ${scenario.name}\n   ${error.message}`);
+  }
+}
+const passed = SCENARIOS.length - failures;
+console.error(`\n${failures === 0 ? "✅" : "❌"} ${passed}/${SCENARIOS.length} merge scenarios passed`);
+process.exit(failures === 0 ? 0 : 1);
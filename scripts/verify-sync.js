@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+
+/**
+ * Runs two simulated devices against the reference sync server
+ * (scripts/sync-server.js) and checks they settle on the same library.
+ * Devices keep their records in memory and merge with the app's own merge
+ * code, so this covers the protocol and merge rules without a phone.
+ * Exits with a non-zero code if any scenario fails.
+ */
+
+const assert = require("assert");
+
+// Loads the .ts hook and the merge code the devices share with the server
+const { createSyncServer } = require("./sync-server.js");
+const { isSameRecord, mergeCategoryRecords, mergeClipRecords, stampCategoryChanges } = require("../src/embeds/sync/merge.ts");
+const { exchangeChanges, SYNC_PROTOCOL_VERSION } = require("../src/embeds/sync/protocol.ts");
+
+// The server logs every request; keep the report readable
+console.log = () => {};
+
+let clock = 1_700_000_000_000;
+const tick = () => (clock += 1000);
+
+const createDevice = (serverUrl) => {
+  const device = { clips: new Map(), categories: new Map(), cursor: null, pushedUpTo: 0 };
+
+  const upsertClip = (id, change) => {
+    const now = tick();
+    const current = device.clips.get(id)?.clip ?? {
+      id,
+      type: "link",
+      url: `https://example.com/${id}`,
+      title: id,
+      subtitle: "example.com",
+      createdAt: now,
+      categories: [],
+    };
+    const clip = { ...current, ...change, updatedAt: now };
+    if (change.categories) clip.categoryStamps = stampCategoryChanges(current, change.categories, now);
+    device.clips.set(id, { id, updatedAt: now, deletedAt: device.clips.get(id)?.deletedAt ?? null, clip });
+  };
+
+  return {
+    device,
+    addClip: (id, categories = []) => upsertClip(id, { categories }),
+    editClip: (id, change) => upsertClip(id, change),
+    trashClip: (id) => {
+      const now = tick();
+      const record = device.clips.get(id);
+      device.clips.set(id, { ...record, updatedAt: now, deletedAt: now, clip: { ...record.clip, updatedAt: now } });
+    },
+    purgeClip: (id) => {
+      const now = tick();
+      device.clips.set(id, { id, updatedAt: now, deletedAt: now, clip: null });
+    },
+    addCategory: (id, name) => {
+      const now = tick();
+      device.categories.set(id, { id, updatedAt: now, deletedAt: null, category: { id, name, color: "#888888", createdAt: now, updatedAt: now } });
+    },
+    sync: async () => {
+      const pending = (records) => [...records.values()].filter((record) => record.updatedAt > device.pushedUpTo);
+      const changes = { clips: pending(device.clips), categories: pending(device.categories) };
+      const pushedUpTo = [...changes.clips, ...changes.categories].reduce((latest, record) => Math.max(latest, record.updatedAt), device.pushedUpTo);
+
+      const response = await exchangeChanges(serverUrl, { protocol: SYNC_PROTOCOL_VERSION, since: device.cursor, changes });
+      for (const remote of response.changes.categories) {
+        device.categories.set(remote.id, mergeCategoryRecords(device.categories.get(remote.id) ?? null, remote));
+      }
+      for (const remote of response.changes.clips) {
+        device.clips.set(remote.id, mergeClipRecords(device.clips.get(remote.id) ?? null, remote));
+      }
+      device.cursor = response.cursor;
+      device.pushedUpTo = pushedUpTo;
+    },
+  };
+};
+
+const assertConverged = (a, b) => {
+  for (const table of ["clips", "categories"]) {
+    const ids = new Set([...a.device[table].keys(), ...b.device[table].keys()]);
+    for (const id of ids) {
+      const left = a.device[table].get(id);
+      const right = b.device[table].get(id);
+      assert.ok(left && right && isSameRecord(left, right), `${table} ${id} differs between devices`);
+    }
+  }
+};
+
+const SCENARIOS = [
+  {
+    name: "clips added on one device reach the other",
+    run: async (phone, tablet) => {
+      phone.addCategory("cat-music", "Music");
+      phone.addClip("clip-1", ["cat-music"]);
+      await phone.sync();
+      await tablet.sync();
+      assert.deepStrictEqual(tablet.device.clips.get("clip-1").clip.categories, ["cat-music"]);
+      assert.strictEqual(tablet.device.categories.get("cat-music").category.name, "Music");
+    },
+  },
+  {
+    name: "categories added on both devices at once both survive",
+    run: async (phone, tablet) => {
+      phone.addCategory("cat-a", "A");
+      phone.addCategory("cat-b", "B");
+      phone.addClip("clip-1");
+      await phone.sync();
+      await tablet.sync();
+
+      phone.editClip("clip-1", { categories: ["cat-a"] });
+      tablet.editClip("clip-1", { categories: ["cat-b"] });
+      await phone.sync();
+      await tablet.sync();
+      await phone.sync();
+      assert.deepStrictEqual(phone.device.clips.get("clip-1").clip.categories, ["cat-a", "cat-b"]);
+    },
+  },
+  {
+    name: "a later category removal sticks",
+    run: async (phone, tablet) => {
+      phone.addCategory("cat-a", "A");
+      phone.addClip("clip-1", ["cat-a"]);
+      await phone.sync();
+      await tablet.sync();
+
+      tablet.editClip("clip-1", { title: "Renamed" });
+      phone.editClip("clip-1", { categories: [] });
+      await tablet.sync();
+      await phone.sync();
+      await tablet.sync();
+      assert.deepStrictEqual(tablet.device.clips.get("clip-1").clip.categories, []);
+    },
+  },
+  {
+    name: "the later edit wins",
+    run: async (phone, tablet) => {
+      phone.addClip("clip-1");
+      await phone.sync();
+      await tablet.sync();
+
+      phone.editClip("clip-1", { title: "From phone" });
+      tablet.editClip("clip-1", { title: "From tablet" });
+      await tablet.sync();
+      await phone.sync();
+      await tablet.sync();
+      assert.strictEqual(phone.device.clips.get("clip-1").clip.title, "From tablet");
+    },
+  },
+  {
+    name: "trashing and purging reach the other device",
+    run: async (phone, tablet) => {
+      phone.addClip("clip-1");
+      phone.addClip("clip-2");
+      await phone.sync();
+      await tablet.sync();
+
+      tablet.trashClip("clip-1");
+      tablet.purgeClip("clip-2");
+      await tablet.sync();
+      await phone.sync();
+      assert.notStrictEqual(phone.device.clips.get("clip-1").deletedAt, null);
+      assert.strictEqual(phone.device.clips.get("clip-2").clip, null);
+    },
+  },
+  {
+    name: "an edit made after a purge brings the clip back",
+    run: async (phone, tablet) => {
+      phone.addClip("clip-1");
+      await phone.sync();
+      await tablet.sync();
+
+      tablet.purgeClip("clip-1");
+      phone.editClip("clip-1", { title: "Still wanted" });
+      await tablet.sync();
+      await phone.sync();
+      await tablet.sync();
+      assert.strictEqual(tablet.device.clips.get("clip-1").clip.title, "Still wanted");
+    },
+  },
+  {
+    name: "racks syncing through their own spaces stay apart",
+    run: async (phone, tablet, serverUrl) => {
+      const phoneWork = createDevice(`${serverUrl}work`);
+      const tabletWork = createDevice(`${serverUrl}work`);
+      phone.addClip("clip-personal");
+      phoneWork.addClip("clip-work");
+      await phone.sync();
+      await phoneWork.sync();
+      await tablet.sync();
+      await tabletWork.sync();
+      assert.ok(tablet.device.clips.has("clip-personal") && !tablet.device.clips.has("clip-work"));
+      assert.ok(tabletWork.device.clips.has("clip-work") && !tabletWork.device.clips.has("clip-personal"));
+    },
+  },
+  {
+    name: "records the server rejects are reported, not stored",
+    run: async (phone, tablet) => {
+      phone.device.clips.set("clip-bad", { id: "clip-bad", updatedAt: tick(), deletedAt: null, clip: { id: "clip-bad" } });
+      await phone.sync();
+      phone.device.clips.delete("clip-bad");
+      await tablet.sync();
+      assert.strictEqual(tablet.device.clips.has("clip-bad"), false);
+    },
+  },
+];
+
+const runScenario = async (scenario) => {
+  const server = createSyncServer();
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const serverUrl = `http://127.0.0.1:${server.address().port}/`;
+  try {
+    const phone = createDevice(serverUrl);
+    const tablet = createDevice(serverUrl);
+    await scenario.run(phone, tablet, serverUrl);
+    // Whatever the scenario did, one more round trip each must leave both devices identical
+    await phone.sync();
+    await tablet.sync();
+    await phone.sync();
+    assertConverged(phone, tablet);
+    return null;
+  } catch (error) {
+    return error;
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+const main = async () => {
+  let failures = 0;
+  for (const scenario of SCENARIOS) {
+    const error = await runScenario(scenario);
+    if (error) {
+      failures++;
+      console.error(`❌ ${scenario.name}\n   ${error.message}`);
+    }
+  }
+  const passed = SCENARIOS.length - failures;
+  console.error(`\n${failures === 0 ? "✅" : "❌"} ${passed}/${SCENARIOS.length} sync scenarios passed`);
+  process.exit(failures === 0 ? 0 : 1);
+};
+
+main().catch((error) => {
+  console.error("❌ Sync run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+/**
+ * Automatic backups - rotating archive snapshots kept on the device. The
+ * store writes one daily or after enough changes, and before anything that
+ * overwrites library data, so a bad import or an accidental delete can be
+ * rolled back on the device without a cloud service. Each rack keeps its
+ * own as database files beside its library rather than inside it, encrypted
+ * whenever the library is.
+ */
+import * as FileSystem from 'expo-file-system';
+import {
+  BackupSchedule,
+  DEFAULT_RACK_ID,
+  deleteOldBackups,
+  getBackupArchive,
+  getBackupDirectory,
+  getBackupRecords,
+  getLibrary,
+  getTrashRetentionDays,
+  insertBackup,
+} from '../storage';
+import { createArchive, parseArchive, ParsedArchive } from './format';
+
+export type BackupReason = 'scheduled' | 'manual' | 'before-import' | 'before-restore';
+
+/** A saved snapshot, as the restore screen lists it */
+export interface BackupInfo {
+  createdAt: number;
+  reason: BackupReason;
+  clipCount: number;
+  categoryCount: number;
+}
+
+/** How many snapshots are kept; older ones are deleted as new ones are written */
+export const BACKUP_LIMIT = 10;
+
+/** Changes that trigger a backup without waiting for the daily one */
+export const BACKUP_CHANGE_THRESHOLD = 20;
+
+export const BACKUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const BACKUP_REASONS: BackupReason[] = ['scheduled', 'manual', 'before-import', 'before-restore'];
+
+const isBackupReason = (reason: string): reason is BackupReason => BACKUP_REASONS.includes(reason as BackupReason);
+
+/** Returns whether enough changes, or a day with any change, have passed since the last backup */
+export const isBackupDue = (schedule: BackupSchedule, now: number): boolean =>
+  schedule.changesSinceBackup >= BACKUP_CHANGE_THRESHOLD
+  || (schedule.changesSinceBackup > 0 && now - (schedule.lastBackupAt ?? 0) >= BACKUP_INTERVAL_MS);
+
+/** Writes a snapshot of the library, then deletes the oldest ones past the limit */
+export const writeBackup = async (reason: BackupReason, now: number = Date.now()): Promise<BackupInfo> => {
+  const library = await getLibrary();
+  const archive = createArchive(library, { trashRetentionDays: await getTrashRetentionDays() }, now);
+  const backup: BackupInfo = { createdAt: now, reason, clipCount: library.embeds.length, categoryCount: library.categories.length };
+  await insertBackup(backup, JSON.stringify(archive));
+  await deleteOldBackups(BACKUP_LIMIT);
+  console.log(`💾 Backed up ${library.embeds.length} clips (${reason})`);
+  return backup;
+};
+
+/** Lists the saved backups newest first, with how many clips and categories each holds */
+export const listBackups = async (): Promise<BackupInfo[]> =>
+  (await getBackupRecords()).flatMap(record => (isBackupReason(record.reason) ? [{ ...record, reason: record.reason }] : []));
+
+/** Reads a backup back, upgraded to this build's schema */
+export const readBackup = async (backup: BackupInfo): Promise<ParsedArchive> => {
+  const archive = await getBackupArchive(backup.createdAt);
+  if (archive === null) {
+    throw new Error('This backup no longer exists.');
+  }
+  return parseArchive(archive);
+};
+
+/** Deletes a rack's backups, once the rack itself is deleted */
+export const deleteRackBackups = async (rackId: string): Promise<void> => {
+  const directory = getBackupDirectory(rackId);
+  if (rackId === DEFAULT_RACK_ID || !directory) return;
+  await FileSystem.deleteAsync(directory, { idempotent: true });
+};
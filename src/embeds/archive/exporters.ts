@@ -0,0 +1,162 @@
+/**
+ * Clip list exporters - Markdown, CSV and Netscape bookmark HTML for handing
+ * a filtered view or a category to other tools. Unlike archives these are
+ * one-way: they keep what people read, not what the app needs to restore.
+ */
+import { getProvider } from '../providers';
+import { Category, EmbedData } from '../types';
+
+export type ClipListFormat = 'markdown' | 'csv' | 'bookmarks';
+
+/** The clips to export, with every category so their names can be looked up */
+export interface ClipList {
+  title: string;
+  clips: EmbedData[];
+  categories: Category[];
+  categoryId?: string | null; // set when the list is one category, which then isn't regrouped
+  exportedAt: number;
+}
+
+export interface ClipListExporter {
+  label: string;
+  extension: string;
+  mimeType: string;
+  uti: string; // iOS type identifier for the share sheet
+  format: (list: ClipList) => string;
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+/** Returns who posted a clip, when the clip records it */
+export const getClipAuthor = (embed: EmbedData): string | null => {
+  if (embed.username) return `@${embed.username}`;
+  if (embed.subreddit) return `r/${embed.subreddit}`;
+  return embed.type === 'link' ? embed.subtitle : null;
+};
+
+/** Splits clips into one group per category, in category order, then the uncategorized ones */
+const groupByCategory = (list: ClipList): { name: string; clips: EmbedData[] }[] => {
+  const scoped = list.categoryId ? list.categories.find(category => category.id === list.categoryId) : null;
+  if (scoped) return [{ name: scoped.name, clips: list.clips }];
+
+  const groups = list.categories.map(category => ({
+    name: category.name,
+    clips: list.clips.filter(embed => embed.categories?.includes(category.id)),
+  }));
+  const knownIds = new Set(list.categories.map(category => category.id));
+  groups.push({
+    name: UNCATEGORIZED,
+    clips: list.clips.filter(embed => !embed.categories?.some(id => knownIds.has(id))),
+  });
+  return groups.filter(group => group.clips.length > 0);
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\[\]*_`])/g, '\\$1');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Quotes a CSV field when it holds a delimiter, quote or line break (RFC 4180).
+ * Titles and authors come from web pages, so a field a spreadsheet would run
+ * as a formula is prefixed with ' first.
+ */
+const escapeCsv = (value: string): string => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatMarkdown = (list: ClipList): string => {
+  const lines = [
+    `# ${escapeMarkdown(list.title)}`,
+    '',
+    `_Exported ${formatDate(list.exportedAt)} · ${list.clips.length} ${list.clips.length === 1 ? 'clip' : 'clips'}_`,
+  ];
+
+  for (const group of groupByCategory(list)) {
+    lines.push('', `## ${escapeMarkdown(group.name)}`, '');
+    for (const embed of group.clips) {
+      const author = getClipAuthor(embed);
+      lines.push(`- [${escapeMarkdown(embed.title)}](<${embed.url}>)${author ? ` — ${escapeMarkdown(author)}` : ''}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const formatCsv = (list: ClipList): string => {
+  const categoryNames = new Map(list.categories.map(category => [category.id, category.name]));
+  const rows = [['Title', 'Platform', 'URL', 'Author', 'Categories', 'Saved']];
+
+  for (const embed of list.clips) {
+    rows.push([
+      embed.title,
+      getProvider(embed.type)?.displayName ?? embed.type,
+      embed.url,
+      getClipAuthor(embed) ?? '',
+      (embed.categories ?? []).flatMap(id => categoryNames.get(id) ?? []).join('; '),
+      formatDate(embed.createdAt),
+    ]);
+  }
+  return `${rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
+};
+
+/** Formats a Netscape bookmark file; categories become folders, uncategorized clips stay at the top level */
+export const formatBookmarks = (list: ClipList): string => {
+  const bookmark = (embed: EmbedData, indent: string): string => {
+    const author = getClipAuthor(embed);
+    const title = author ? `${embed.title} — ${author}` : embed.title;
+    return `${indent}<DT><A HREF="${escapeHtml(embed.url)}" ADD_DATE="${Math.floor(embed.createdAt / 1000)}">${escapeHtml(title)}</A>`;
+  };
+  const exportedAt = Math.floor(list.exportedAt / 1000);
+
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    `<TITLE>${escapeHtml(list.title)}</TITLE>`,
+    `<H1>${escapeHtml(list.title)}</H1>`,
+    '<DL><p>',
+  ];
+  for (const group of groupByCategory(list)) {
+    if (group.name === UNCATEGORIZED && !list.categoryId) {
+      lines.push(...group.clips.map(embed => bookmark(embed, '    ')));
+      continue;
+    }
+    lines.push(
+      `    <DT><H3 ADD_DATE="${exportedAt}">${escapeHtml(group.name)}</H3>`,
+      '    <DL><p>',
+      ...group.clips.map(embed => bookmark(embed, '        ')),
+      '    </DL><p>'
+    );
+  }
+  lines.push('</DL><p>');
+  return `${lines.join('\n')}\n`;
+};
+
+export const CLIP_LIST_EXPORTERS: Record<ClipListFormat, ClipListExporter> = {
+  markdown: {
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    uti: 'net.daringfireball.markdown',
+    format: formatMarkdown,
+  },
+  csv: {
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv',
+    uti: 'public.comma-separated-values-text',
+    format: formatCsv,
+  },
+  bookmarks: {
+    label: 'Bookmarks',
+    extension: 'html',
+    mimeType: 'text/html',
+    uti: 'public.html',
+    format: formatBookmarks,
+  },
+};
@@ -0,0 +1,121 @@
+/**
+ * Export and import files - writes archives, clip lists and quarantined
+ * records for the share sheet, and reads archives and other apps'
+ * collections the user picks.
+ */
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CollectionEntry, parseBookmarksHtml, parseTakeoutCsv } from '../ingest';
+import { ClipQuery, getCategories, getLibrary, getTrashRetentionDays, loadQuarantine, queryClips } from '../storage';
+import { CLIP_LIST_EXPORTERS, ClipListFormat } from './exporters';
+import { createArchive, getArchiveFileName, parseArchive, ParsedArchive } from './format';
+import { ArchiveMergePlan, planArchiveMerge } from './merge';
+
+// Android often reports .json files as plain text or unknown binaries
+const ARCHIVE_MIME_TYPES = ['application/json', 'text/plain', 'application/octet-stream'];
+
+/** Files another app exported that hold a collection of links */
+export type CollectionSource = 'bookmarks' | 'youtube-takeout';
+
+const COLLECTION_PICKERS: Record<CollectionSource, { mimeTypes: string[]; multiple: boolean }> = {
+  bookmarks: { mimeTypes: ['text/html', 'application/xhtml+xml', 'text/plain'], multiple: false },
+  // Takeout writes one CSV per playlist, so several can be picked at once
+  'youtube-takeout': { mimeTypes: ['text/csv', 'text/comma-separated-values', 'text/plain'], multiple: true },
+};
+
+/** Writes a file to the cache directory and opens the share sheet for it */
+const shareFile = async (
+  fileName: string,
+  contents: string,
+  options: { mimeType: string; UTI: string; dialogTitle: string }
+): Promise<void> => {
+  if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device.');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  console.log('📤 Sharing export:', uri);
+  await Sharing.shareAsync(uri, options);
+};
+
+/** Turns a list title into a file name part, e.g. "Funny Clips" -> "funny-clips" */
+const toFileSlug = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'clips';
+
+/** Writes the whole library to an archive file and opens the share sheet for it */
+export const exportLibraryArchive = async (): Promise<void> => {
+  const now = Date.now();
+  const library = await getLibrary();
+  const settings = { trashRetentionDays: await getTrashRetentionDays() };
+  console.log(`📦 Exporting archive with ${library.embeds.length} clips`);
+
+  await shareFile(getArchiveFileName(now), JSON.stringify(createArchive(library, settings, now), null, 2), {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Export ClipRack Library',
+  });
+};
+
+/** Exports every clip matching `query` in a list format and opens the share sheet */
+export const exportClipList = async (format: ClipListFormat, query: ClipQuery, title: string): Promise<void> => {
+  const exporter = CLIP_LIST_EXPORTERS[format];
+  const now = Date.now();
+  const [clips, categories] = await Promise.all([queryClips({ ...query, limit: undefined, offset: undefined }), getCategories()]);
+
+  const contents = exporter.format({ title, clips, categories, categoryId: query.categoryId, exportedAt: now });
+  const fileName = `cliprack-${toFileSlug(title)}-${new Date(now).toISOString().slice(0, 10)}.${exporter.extension}`;
+  await shareFile(fileName, contents, {
+    mimeType: exporter.mimeType,
+    UTI: exporter.uti,
+    dialogTitle: `Export ${title}`,
+  });
+};
+
+/** Writes every quarantined record to a JSON file and opens the share sheet; resolves to how many there were */
+export const exportQuarantine = async (): Promise<number> => {
+  const records = await loadQuarantine();
+  if (records.length === 0) return 0;
+
+  const fileName = `cliprack-quarantine-${new Date().toISOString().slice(0, 10)}.json`;
+  await shareFile(fileName, JSON.stringify(records, null, 2), {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Export Quarantined Records',
+  });
+  return records.length;
+};
+
+/** Lets the user pick an archive file and parses it; null if they cancel */
+export const pickLibraryArchive = async (): Promise<ParsedArchive | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: ARCHIVE_MIME_TYPES, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+
+  return parseArchive(await FileSystem.readAsStringAsync(result.assets[0].uri));
+};
+
+/** Plans an archive against the current library, for the import preview's counts */
+export const previewArchiveImport = async (archive: ParsedArchive): Promise<ArchiveMergePlan> =>
+  planArchiveMerge(await getLibrary(), archive.library, 'keep-mine');
+
+/** Lets the user pick a bookmark export or Takeout playlist CSVs and reads their links; null if they cancel */
+export const pickCollectionEntries = async (source: CollectionSource): Promise<CollectionEntry[] | null> => {
+  const picker = COLLECTION_PICKERS[source];
+  const result = await DocumentPicker.getDocumentAsync({
+    type: picker.mimeTypes,
+    multiple: picker.multiple,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const files = await Promise.all(result.assets.map(async asset => ({
+    name: asset.name,
+    text: await FileSystem.readAsStringAsync(asset.uri),
+  })));
+  const entries = files.flatMap(file =>
+    source === 'bookmarks' ? parseBookmarksHtml(file.text) : parseTakeoutCsv(file.text, file.name)
+  );
+  console.log(`📥 Read ${entries.length} links from ${files.length} ${source} file(s)`);
+  return entries;
+};
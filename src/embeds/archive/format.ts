@@ -0,0 +1,91 @@
+/**
+ * Library archive format - the versioned JSON file a full export writes.
+ *
+ * `version` covers the archive envelope; `schemaVersion` is the clip record
+ * schema from the storage migrations, so an archive written by an older build
+ * is upgraded the same way its stored data would have been.
+ */
+import { getCategoryProblem, getEmbedProblem } from '../storage/validation';
+import { migrateLibrary, SCHEMA_VERSION, StoredLibrary } from '../storage/migrations';
+import { Category, EmbedData, IngestContext } from '../types';
+
+export const ARCHIVE_FORMAT = 'cliprack-archive';
+export const ARCHIVE_VERSION = 1;
+
+/** User settings at export time; imports record them but keep this device's own */
+export interface ArchiveSettings {
+  trashRetentionDays?: number;
+}
+
+export interface LibraryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  clips: EmbedData[];
+  categories: Category[];
+  settings: ArchiveSettings;
+}
+
+/** An archive read back from a file, upgraded to this build's schema */
+export interface ParsedArchive {
+  library: StoredLibrary;
+  settings: ArchiveSettings;
+  exportedAt: string;
+  skipped: number; // records that failed validation and were left out
+}
+
+/** Builds the archive for a library snapshot */
+export const createArchive = (
+  library: StoredLibrary,
+  settings: ArchiveSettings = {},
+  now: number = Date.now()
+): LibraryArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date(now).toISOString(),
+  clips: library.embeds,
+  categories: library.categories,
+  settings,
+});
+
+/** Returns a dated file name for an archive */
+export const getArchiveFileName = (now: number = Date.now()): string =>
+  `cliprack-archive-${new Date(now).toISOString().slice(0, 10)}.json`;
+
+/** Parses and upgrades an archive file; throws with a user-facing message if it can't be read */
+export const parseArchive = async (text: string, context?: IngestContext): Promise<ParsedArchive> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const archive = data as Partial<LibraryArchive> | null;
+  if (!archive || typeof archive !== 'object' || archive.format !== ARCHIVE_FORMAT) {
+    throw new Error('The file is not a ClipRack archive.');
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION
+    || typeof archive.schemaVersion !== 'number' || archive.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('The archive was created by a newer version of ClipRack. Update the app and try again.');
+  }
+  if (!Array.isArray(archive.clips) || !Array.isArray(archive.categories)) {
+    throw new Error('The archive is missing its clips or categories.');
+  }
+
+  const clips = archive.clips.filter(clip => getEmbedProblem(clip) === null);
+  const categories = archive.categories.filter(category => getCategoryProblem(category) === null);
+  const skipped = archive.clips.length - clips.length + archive.categories.length - categories.length;
+  if (skipped > 0) {
+    console.log('⚠️ Skipped invalid archive records:', skipped);
+  }
+
+  return {
+    library: await migrateLibrary({ embeds: clips, categories }, archive.schemaVersion, context),
+    settings: archive.settings && typeof archive.settings === 'object' ? archive.settings : {},
+    exportedAt: typeof archive.exportedAt === 'string' ? archive.exportedAt : '',
+    skipped,
+  };
+};
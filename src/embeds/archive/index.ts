@@ -0,0 +1,37 @@
+/**
+ * Library exports and imports - full JSON archives that merge back into a
+ * library, rotating on-device backups, Markdown, CSV and bookmark lists for
+ * other tools, and collections picked from other apps' exports.
+ */
+export {
+  BACKUP_CHANGE_THRESHOLD,
+  BACKUP_INTERVAL_MS,
+  BACKUP_LIMIT,
+  deleteRackBackups,
+  isBackupDue,
+  listBackups,
+  readBackup,
+  writeBackup,
+} from './backups';
+export type { BackupInfo, BackupReason } from './backups';
+export {
+  CLIP_LIST_EXPORTERS,
+  formatBookmarks,
+  formatCsv,
+  formatMarkdown,
+  getClipAuthor,
+} from './exporters';
+export type { ClipList, ClipListExporter, ClipListFormat } from './exporters';
+export {
+  exportClipList,
+  exportLibraryArchive,
+  exportQuarantine,
+  pickCollectionEntries,
+  pickLibraryArchive,
+  previewArchiveImport,
+} from './files';
+export type { CollectionSource } from './files';
+export { ARCHIVE_FORMAT, ARCHIVE_VERSION, createArchive, getArchiveFileName, parseArchive } from './format';
+export type { ArchiveSettings, LibraryArchive, ParsedArchive } from './format';
+export { formatArchiveMergeSummary, planArchiveMerge } from './merge';
+export type { ArchiveMergePlan, ConflictResolution } from './merge';
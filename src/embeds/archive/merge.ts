@@ -0,0 +1,124 @@
+/**
+ * Archive merge - plans how an imported library joins the one on the device.
+ *
+ * Clips are matched by canonical key, not ID, so the same video saved on two
+ * devices is one clip. Imported categories join a local one with the same
+ * name; an imported ID that a different local category already uses gets a
+ * fresh ID, and every imported clip's category links follow the remap.
+ */
+import { getCanonicalKey } from '../ingest';
+import { StoredLibrary } from '../storage/migrations';
+import { Category, EmbedData } from '../types';
+
+/** What to do with a clip both libraries have, when the two copies differ */
+export type ConflictResolution = 'keep-mine' | 'keep-theirs' | 'merge-categories';
+
+export interface ArchiveMergePlan {
+  categories: Category[]; // imported categories to insert, already remapped
+  added: EmbedData[]; // clips the library doesn't have yet
+  updated: EmbedData[]; // saved clips the conflict resolution changes
+  conflicts: number;
+  unchanged: number;
+  remappedCategories: number;
+}
+
+// Fields that don't make two copies of a clip different
+const IDENTITY_FIELDS = new Set(['id', 'createdAt', 'canonicalKey', 'categories']);
+
+/** Returns a clip's content fields in a stable order, for comparing copies */
+const getClipContent = (embed: EmbedData): string =>
+  JSON.stringify(Object.entries(embed).filter(([field]) => !IDENTITY_FIELDS.has(field)).sort());
+
+const hasSameCategories = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+/** Maps each imported category ID to the ID it will have on this device */
+const remapCategories = (local: Category[], incoming: Category[], now: number) => {
+  const localById = new Map(local.map(category => [category.id, category]));
+  const localByName = new Map(local.map(category => [category.name.trim().toLowerCase(), category]));
+  const idMap = new Map<string, string>();
+  const toInsert: Category[] = [];
+  let remapped = 0;
+
+  incoming.forEach((category, index) => {
+    const sameName = localByName.get(category.name.trim().toLowerCase());
+    if (sameName) {
+      idMap.set(category.id, sameName.id);
+      return;
+    }
+
+    // The ID is taken by a differently named local category
+    const id = localById.has(category.id) ? `category-${now}-${index}` : category.id;
+    if (id !== category.id) remapped++;
+
+    const inserted = { ...category, id };
+    idMap.set(category.id, id);
+    localById.set(id, inserted);
+    localByName.set(category.name.trim().toLowerCase(), inserted);
+    toInsert.push(inserted);
+  });
+
+  return { idMap, toInsert, remapped };
+};
+
+/** Plans merging `incoming` into `local`; conflicts are counted whatever the resolution */
+export const planArchiveMerge = (
+  local: StoredLibrary,
+  incoming: StoredLibrary,
+  resolution: ConflictResolution,
+  now: number = Date.now()
+): ArchiveMergePlan => {
+  const { idMap, toInsert, remapped } = remapCategories(local.categories, incoming.categories, now);
+  const localByKey = new Map(local.embeds.map(embed => [getCanonicalKey(embed), embed]));
+  const usedIds = new Set(local.embeds.map(embed => embed.id));
+  const added: EmbedData[] = [];
+  const updated: EmbedData[] = [];
+  let conflicts = 0;
+  let unchanged = 0;
+
+  incoming.embeds.forEach((embed, index) => {
+    const key = getCanonicalKey(embed);
+    const categories = [...new Set((embed.categories ?? []).flatMap(id => idMap.get(id) ?? []))];
+    const theirs: EmbedData = { ...embed, categories, canonicalKey: key };
+    const mine = localByKey.get(key);
+
+    if (!mine) {
+      // An ID collision between different clips keeps both clips
+      const id = usedIds.has(theirs.id) ? `${now}-${index}` : theirs.id;
+      const addedClip = { ...theirs, id };
+      usedIds.add(id);
+      localByKey.set(key, addedClip);
+      added.push(addedClip);
+      return;
+    }
+
+    const myCategories = mine.categories ?? [];
+    if (getClipContent(mine) === getClipContent(theirs) && hasSameCategories(myCategories, categories)) {
+      unchanged++;
+      return;
+    }
+
+    conflicts++;
+    if (resolution === 'keep-theirs') {
+      updated.push({ ...theirs, id: mine.id, createdAt: mine.createdAt });
+    } else if (resolution === 'merge-categories' && !categories.every(id => myCategories.includes(id))) {
+      updated.push({ ...mine, categories: [...new Set([...myCategories, ...categories])] });
+    }
+  });
+
+  return { categories: toInsert, added, updated, conflicts, unchanged, remappedCategories: remapped };
+};
+
+/** Formats the result banner for an applied merge */
+export const formatArchiveMergeSummary = (plan: ArchiveMergePlan, resolution: ConflictResolution): string => {
+  const parts = [`Imported ${plan.added.length} ${plan.added.length === 1 ? 'clip' : 'clips'}`];
+  if (plan.conflicts > 0) {
+    const verb = { 'keep-mine': 'kept', 'keep-theirs': 'replaced', 'merge-categories': 'merged' }[resolution];
+    parts.push(`${verb} ${plan.conflicts} ${plan.conflicts === 1 ? 'conflict' : 'conflicts'}`);
+  }
+  if (plan.unchanged > 0) parts.push(`${plan.unchanged} already saved`);
+  if (plan.categories.length > 0) {
+    parts.push(`${plan.categories.length} new ${plan.categories.length === 1 ? 'category' : 'categories'}`);
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,55 @@
+/**
+ * URL canonicalization - strips tracking parameters and normalizes hosts and
+ * paths so the same clip shared from different apps dedupes to one entry.
+ */
+import { joinUrl, splitUrl, UrlParts } from './url';
+
+// Share/analytics parameters that never change which content a URL points to
+const TRACKING_PARAMS = new Set([
+  'si', 'igsh', 'igshid', 'feature', '_r', 'is_from_webapp', 'fbclid', 'gclid',
+  'mc_cid', 'mc_eid', 'ref_src', 'ref_url', 'share_id', 'sender_device',
+]);
+
+const isTrackingParam = (key: string): boolean =>
+  TRACKING_PARAMS.has(key.toLowerCase()) || key.toLowerCase().startsWith('utm_');
+
+/** Removes tracking parameters and normalizes the scheme and host of any URL */
+export const stripTrackingParams = (parts: UrlParts): UrlParts => ({
+  ...parts,
+  protocol: parts.protocol === 'http' ? 'https' : parts.protocol,
+  path: parts.path.replace(/\/{2,}/g, '/'),
+  query: parts.query.filter(([key]) => !isTrackingParam(key)),
+});
+
+/** Keeps only the listed query parameters, in the listed order */
+export const keepQueryParams = (parts: UrlParts, allowed: string[]): UrlParts => ({
+  ...parts,
+  query: allowed.flatMap(name => parts.query.filter(([key]) => key === name)),
+});
+
+/**
+ * Canonicalizes a URL using the generic tracking-parameter rules plus an
+ * optional platform-specific normalizer. Returns the input unchanged if it
+ * isn't an absolute URL.
+ */
+export const canonicalizeUrl = (
+  url: string,
+  normalize?: (parts: UrlParts) => UrlParts | null
+): string => {
+  const parts = splitUrl(url);
+  if (!parts) return url.trim();
+
+  const stripped = stripTrackingParams(parts);
+  return joinUrl(normalize?.(stripped) ?? stripped);
+};
+
+/** Builds the canonical key for a URL no provider recognizes */
+export const getLinkCanonicalKey = (url: string): string => {
+  const parts = splitUrl(canonicalizeUrl(url));
+  if (!parts) return `link:${url.trim()}`;
+
+  // Ignore trailing slashes, "www." and parameter order when comparing plain links
+  const path = parts.path.replace(/\/+$/, '') || '/';
+  const query = [...parts.query].sort(([a], [b]) => a.localeCompare(b));
+  return `link:${joinUrl({ ...parts, host: parts.host.replace(/^www\./, ''), path, query, hash: '' }).replace(/^https?:\/\//, '')}`;
+};
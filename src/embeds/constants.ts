@@ -9,6 +9,7 @@ export const STARTER_EMBEDS: EmbedData[] = [
     subtitle: 'Open LV3mChwupF8',
     url: 'https://www.youtube.com/watch?v=LV3mChwupF8',
     videoId: 'LV3mChwupF8',
+    canonicalKey: 'youtube:LV3mChwupF8',
     createdAt: Date.now()
   },
   {
@@ -19,6 +20,8 @@ export const STARTER_EMBEDS: EmbedData[] = [
     url: 'https://www.tiktok.com/@majasrecipes/video/7498864456584285445',
     username: 'majasrecipes',
     postId: '7498864456584285445',
+    contentKind: 'video',
+    canonicalKey: 'tiktok:7498864456584285445',
     createdAt: Date.now()
   },
   {
@@ -28,6 +31,8 @@ export const STARTER_EMBEDS: EmbedData[] = [
     subtitle: 'DI66ERaTsm8',
     url: 'https://www.instagram.com/p/DI66ERaTsm8/',
     postId: 'DI66ERaTsm8',
+    contentKind: 'post',
+    canonicalKey: 'instagram:DI66ERaTsm8',
     createdAt: Date.now()
   }
 ];
@@ -35,7 +40,9 @@ export const STARTER_EMBEDS: EmbedData[] = [
 // Storage keys
 export const STORAGE_KEYS = {
   DYNAMIC_EMBEDS: 'cliprack_dynamic_embeds',
-  CATEGORIES: 'cliprack_categories'
+  CATEGORIES: 'cliprack_categories',
+  SCHEMA_VERSION: 'cliprack_schema_version',
+  QUARANTINE: 'cliprack_quarantine'
 };
 
 // Default categories
@@ -0,0 +1,203 @@
+/**
+ * Collection import - reads links out of files from other apps (browser
+ * bookmark exports, Google Takeout YouTube playlists) and turns them into
+ * clips, with one category per folder or playlist.
+ *
+ * Duplicates against the library are left to the archive merge that saves
+ * the result; this module only folds repeats within the file together.
+ */
+import { CATEGORY_COLORS } from '../constants';
+import { Category, EmbedData, IngestContext } from '../types';
+import { defaultIngestContext } from './network';
+import { createEmbedFromUrl, getCanonicalKey, INGEST_CONCURRENCY, mapWithConcurrency } from './pipeline';
+
+/** One link found in an imported file */
+export interface CollectionEntry {
+  url: string;
+  group: string | null; // folder or playlist name; null for top-level bookmarks
+  addedAt?: number; // when it was bookmarked or added to the playlist
+}
+
+/** Clips and categories built from a file, ready to merge into the library */
+export interface CollectionImport {
+  clips: EmbedData[];
+  categories: Category[];
+  repeats: number; // links repeated within the file, e.g. one video in two playlists
+  unsupported: number;
+}
+
+const decodeHtml = (text: string): string =>
+  text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const getAttribute = (attributes: string, name: string): string | null => {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeHtml(match[1] ?? match[2]) : null;
+};
+
+/** Reads every link from a Netscape bookmark file, filed under its innermost folder */
+export const parseBookmarksHtml = (html: string): CollectionEntry[] => {
+  const entries: CollectionEntry[] = [];
+  const folders: (string | null)[] = [];
+  let pendingFolder: string | null = null;
+
+  // Folders are an <H3> followed by the <DL> list holding their contents
+  const tokens = /<h3\b[^>]*>([\s\S]*?)<\/h3>|<a\b([^>]*)>[\s\S]*?<\/a>|<dl\b[^>]*>|<\/dl>/gi;
+  for (const [token, folderName, linkAttributes] of html.matchAll(tokens)) {
+    if (folderName !== undefined) {
+      pendingFolder = decodeHtml(folderName.replace(/<[^>]+>/g, '')).trim();
+    } else if (linkAttributes !== undefined) {
+      const url = getAttribute(linkAttributes, 'href');
+      const addDate = Number(getAttribute(linkAttributes, 'add_date'));
+      if (!url) continue;
+      entries.push({
+        url: url.trim(),
+        group: [...folders].reverse().find(folder => folder !== null) ?? null,
+        addedAt: addDate > 0 ? addDate * 1000 : undefined,
+      });
+    } else if (token.startsWith('</')) {
+      folders.pop();
+    } else {
+      folders.push(pendingFolder);
+      pendingFolder = null;
+    }
+  }
+  return entries;
+};
+
+/** Splits CSV text into rows of fields (RFC 4180 quoting) */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/** Parses Takeout timestamps like "2023-05-01T12:00:00+00:00" or "2019-01-01 12:00:00 UTC" */
+const parseTakeoutTimestamp = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const timestamp = Date.parse(value.trim().replace(/ UTC$/, 'Z').replace(' ', 'T'));
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+};
+
+/**
+ * Reads the videos from a Google Takeout YouTube playlist CSV. Older exports
+ * start with a playlist metadata block holding its title; newer ones only
+ * have the videos, so the playlist is named after the file ("Watch later-videos.csv").
+ */
+export const parseTakeoutCsv = (csv: string, fileName: string): CollectionEntry[] => {
+  const rows = parseCsv(csv.replace(/^\uFEFF/, ''));
+  const headerIndex = rows.findIndex(row => row.some(cell => /^video id$/i.test(cell.trim())));
+  if (headerIndex < 0) return [];
+
+  const header = rows[headerIndex].map(cell => cell.trim().toLowerCase());
+  const idColumn = header.indexOf('video id');
+  const timeColumn = header.findIndex(cell => cell === 'time added' || cell === 'playlist video creation timestamp');
+
+  const metadataHeader = rows.slice(0, headerIndex).findIndex(row => row.some(cell => cell.trim().toLowerCase() === 'title'));
+  const titleColumn = metadataHeader >= 0 ? rows[metadataHeader].findIndex(cell => cell.trim().toLowerCase() === 'title') : -1;
+  const playlistTitle = titleColumn >= 0 ? rows[metadataHeader + 1]?.[titleColumn]?.trim() : undefined;
+  const group = playlistTitle || fileName.replace(/\.csv$/i, '').replace(/-videos$/i, '').trim() || null;
+
+  return rows.slice(headerIndex + 1)
+    .map(row => ({ videoId: row[idColumn]?.trim(), addedAt: parseTakeoutTimestamp(row[timeColumn]) }))
+    .filter(({ videoId }) => Boolean(videoId))
+    .map(({ videoId, addedAt }) => ({ url: `https://www.youtube.com/watch?v=${videoId}`, group, addedAt }));
+};
+
+/** Builds clips for every entry; a link repeated in several folders becomes one clip in each category */
+export const detectCollectionClips = async (
+  entries: CollectionEntry[],
+  context: IngestContext = defaultIngestContext,
+  onProgress?: (done: number, total: number) => void
+): Promise<CollectionImport> => {
+  let done = 0;
+  const embeds = await mapWithConcurrency(entries, INGEST_CONCURRENCY, async entry => {
+    const embed = await createEmbedFromUrl(entry.url, context).catch(() => null);
+    onProgress?.(++done, entries.length);
+    return embed;
+  });
+
+  const now = context.now();
+  const categories = new Map<string, Category>();
+  const clipsByKey = new Map<string, EmbedData>();
+  let repeats = 0;
+  let unsupported = 0;
+
+  entries.forEach((entry, index) => {
+    const embed = embeds[index];
+    if (!embed) {
+      unsupported++;
+      return;
+    }
+
+    let category = entry.group ? categories.get(entry.group) : undefined;
+    if (entry.group && !category) {
+      category = {
+        id: `category-${now}-${categories.size}`,
+        name: entry.group,
+        color: CATEGORY_COLORS[categories.size % CATEGORY_COLORS.length],
+        createdAt: now,
+      };
+      categories.set(entry.group, category);
+    }
+
+    const key = getCanonicalKey(embed);
+    const existing = clipsByKey.get(key);
+    if (existing) {
+      repeats++;
+      if (category && !existing.categories?.includes(category.id)) {
+        existing.categories = [...(existing.categories ?? []), category.id];
+      }
+      return;
+    }
+
+    // Providers build IDs from the clock, so clips made in the same millisecond need telling apart
+    clipsByKey.set(key, {
+      ...embed,
+      id: `${embed.id}-${index}`,
+      createdAt: entry.addedAt ?? embed.createdAt,
+      categories: category ? [category.id] : [],
+    });
+  });
+
+  return { clips: [...clipsByKey.values()], categories: [...categories.values()], repeats, unsupported };
+};
@@ -0,0 +1,1242 @@
+/**
+ * Golden URL corpus - real-world share URLs and the clips they must produce.
+ *
+ * Runs under Node with `pnpm test:ingest`. Short-link redirects and page
+ * metadata are served from the tables below instead of the network, so the
+ * results are deterministic. When a parser changes on purpose, update the
+ * affected `expected` entries in the same commit.
+ */
+import { EmbedData, IngestContext, PageMetadata } from '../types';
+import { createEmbedFromUrl } from './pipeline';
+
+/** A clip as the corpus describes it - everything except the generated id and timestamp */
+export type ExpectedEmbed = Omit<EmbedData, 'id' | 'createdAt'>;
+
+export interface IngestFixture {
+  url: string;
+  expected: ExpectedEmbed | null; // null if no provider should accept the URL
+}
+
+export interface CorpusFailure {
+  url: string;
+  expected: ExpectedEmbed | null;
+  actual: EmbedData | null;
+  reason: string;
+}
+
+const CORPUS_NOW = 1700000000000;
+
+// Where each share short link redirects; anything missing fails to resolve
+const SHORT_URL_REDIRECTS: Record<string, string> = {
+  'https://vm.tiktok.com/ZMeAbCdEf/': 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302?_r=1&_t=8hAbCdEfGh',
+  'https://vt.tiktok.com/ZSAbCdEfG/': 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456?is_from_webapp=1',
+  'https://www.tiktok.com/t/ZTRAbCdEf/': 'https://m.tiktok.com/v/6718335390845095173.html',
+  'https://redd.it/abc123': 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+  'https://www.reddit.com/r/aww/s/AbCdEfGh12': 'https://www.reddit.com/r/aww/comments/def456/sleepy_cat/?share_id=xYz&utm_medium=android_app',
+};
+
+// Discovery metadata for fallback links; anything missing fails to fetch
+const PAGE_METADATA: Record<string, PageMetadata> = {
+  'https://www.nytimes.com/2024/01/01/science/space-telescope.html?smid=url-share': {
+    title: 'A New Telescope Sees Farther Than Ever',
+    image: 'https://static01.nyt.com/images/2024/01/01/science/telescope-facebookJumbo.jpg',
+    siteName: 'The New York Times',
+    author: 'Dennis Overbye',
+  },
+  'https://www.bbc.co.uk/news/technology-12345678': {
+    title: 'Tech giants agree new rules',
+    image: 'https://ichef.bbci.co.uk/news/1024/branded_news/abc.jpg',
+    siteName: 'BBC News',
+  },
+  'https://streamable.com/abcd12': {
+    title: 'Streamable Video',
+    image: 'https://cdn-cf-east.streamable.com/image/abcd12.jpg',
+    siteName: 'Streamable',
+    video: 'https://cdn-cf-east.streamable.com/video/mp4/abcd12.mp4',
+    videoType: 'video/mp4',
+  },
+  'https://en.wikipedia.org/wiki/Rick_Astley': {
+    title: 'Rick Astley - Wikipedia',
+    image: 'https://upload.wikimedia.org/wikipedia/commons/6/6d/Rick_Astley.jpg',
+  },
+  'https://www.youtube.com/@RickAstleyYT': {
+    title: 'Rick Astley',
+    image: 'https://yt3.googleusercontent.com/rick-astley-avatar.jpg',
+    siteName: 'YouTube',
+    video: 'https://www.youtube.com/embed/dQw4w9WgXcQ',
+  },
+};
+
+/** Ingest context that answers from the corpus tables instead of the network */
+export const corpusContext: IngestContext = {
+  network: {
+    resolveShortUrl: async (url) => SHORT_URL_REDIRECTS[url] ?? null,
+    fetchPageMetadata: async (url) => PAGE_METADATA[url] ?? null,
+  },
+  now: () => CORPUS_NOW,
+};
+
+export const INGEST_CORPUS: IngestFixture[] = [
+  // YouTube - watch, youtu.be, Shorts, embed/live player links and start times
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://youtube.com/watch?v=dQw4w9WgXcQ&feature=share',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'http://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 42,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://music.youtube.com/watch?v=dQw4w9WgXcQ&feature=share',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?feature=youtu.be&v=dQw4w9WgXcQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&utm_source=newsletter&utm_medium=email',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1h2m3s',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=1h2m3s',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 3723,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&start=75',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&start=75',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 75,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=1:30',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ#t=1:30',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 90,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG&index=3',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://youtu.be/dQw4w9WgXcQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://youtu.be/dQw4w9WgXcQ?si=AbCdEfGh12345678',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://youtu.be/dQw4w9WgXcQ?t=90',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=90',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 90,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://youtu.be/dQw4w9WgXcQ?si=AbCdEfGh12345678&t=0',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=0',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/shorts/aqz-KE-bpKQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Short',
+      subtitle: 'Open aqz-KE-bpKQ',
+      url: 'https://www.youtube.com/shorts/aqz-KE-bpKQ',
+      videoId: 'aqz-KE-bpKQ',
+      canonicalKey: 'youtube:aqz-KE-bpKQ',
+    },
+  },
+  {
+    url: 'https://youtube.com/shorts/aqz-KE-bpKQ?si=Wq3ZxM0xYz',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Short',
+      subtitle: 'Open aqz-KE-bpKQ',
+      url: 'https://www.youtube.com/shorts/aqz-KE-bpKQ',
+      videoId: 'aqz-KE-bpKQ',
+      canonicalKey: 'youtube:aqz-KE-bpKQ',
+    },
+  },
+  {
+    url: 'https://m.youtube.com/shorts/aqz-KE-bpKQ?feature=share',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Short',
+      subtitle: 'Open aqz-KE-bpKQ',
+      url: 'https://www.youtube.com/shorts/aqz-KE-bpKQ',
+      videoId: 'aqz-KE-bpKQ',
+      canonicalKey: 'youtube:aqz-KE-bpKQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/embed/dQw4w9WgXcQ?start=30',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&start=30',
+      videoId: 'dQw4w9WgXcQ',
+      startSeconds: 30,
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/live/jfKfPfyJRdk?si=3fZk0Lm',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open jfKfPfyJRdk',
+      url: 'https://www.youtube.com/watch?v=jfKfPfyJRdk',
+      videoId: 'jfKfPfyJRdk',
+      canonicalKey: 'youtube:jfKfPfyJRdk',
+    },
+  },
+  {
+    url: 'https://www.youtube.com/v/dQw4w9WgXcQ',
+    expected: {
+      type: 'youtube',
+      title: 'YouTube Video',
+      subtitle: 'Open dQw4w9WgXcQ',
+      url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      videoId: 'dQw4w9WgXcQ',
+      canonicalKey: 'youtube:dQw4w9WgXcQ',
+    },
+  },
+
+  // A channel page isn't a clip, so it falls through to the link provider
+  {
+    url: 'https://www.youtube.com/@RickAstleyYT',
+    expected: {
+      type: 'link',
+      title: 'Rick Astley',
+      subtitle: 'YouTube',
+      url: 'https://www.youtube.com/@RickAstleyYT',
+      thumbnailUrl: 'https://yt3.googleusercontent.com/rick-astley-avatar.jpg',
+      videoUrl: 'https://www.youtube.com/embed/dQw4w9WgXcQ',
+      canonicalKey: 'link:youtube.com/@RickAstleyYT',
+    },
+  },
+
+  // TikTok - videos, photo posts, mobile links and share short links
+  {
+    url: 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@khaby.lame',
+      url: 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302',
+      postId: '7137423965982592302',
+      username: 'khaby.lame',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:7137423965982592302',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302?is_from_webapp=1&sender_device=pc',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@khaby.lame',
+      url: 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302',
+      postId: '7137423965982592302',
+      username: 'khaby.lame',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:7137423965982592302',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/@scout2015/video/6718335390845095173?_r=1&_t=8hAbCdEfGh',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@scout2015',
+      url: 'https://www.tiktok.com/@scout2015/video/6718335390845095173',
+      postId: '6718335390845095173',
+      username: 'scout2015',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://tiktok.com/@scout2015/video/6718335390845095173',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@scout2015',
+      url: 'https://www.tiktok.com/@scout2015/video/6718335390845095173',
+      postId: '6718335390845095173',
+      username: 'scout2015',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://m.tiktok.com/@scout2015/video/6718335390845095173',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@scout2015',
+      url: 'https://m.tiktok.com/@scout2015/video/6718335390845095173',
+      postId: '6718335390845095173',
+      username: 'scout2015',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Photo',
+      subtitle: '@bellapoarch',
+      url: 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456',
+      postId: '7301234567890123456',
+      username: 'bellapoarch',
+      contentKind: 'photo',
+      canonicalKey: 'tiktok:7301234567890123456',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456?lang=en',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Photo',
+      subtitle: '@bellapoarch',
+      url: 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456',
+      postId: '7301234567890123456',
+      username: 'bellapoarch',
+      contentKind: 'photo',
+      canonicalKey: 'tiktok:7301234567890123456',
+    },
+  },
+  {
+    url: 'https://m.tiktok.com/v/6718335390845095173.html',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '6718335390845095173',
+      url: 'https://m.tiktok.com/v/6718335390845095173.html',
+      postId: '6718335390845095173',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://m.tiktok.com/v/6718335390845095173.html?u_code=abc',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '6718335390845095173',
+      url: 'https://m.tiktok.com/v/6718335390845095173.html',
+      postId: '6718335390845095173',
+      contentKind: 'video',
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://vm.tiktok.com/ZMeAbCdEf/',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '@khaby.lame',
+      url: 'https://www.tiktok.com/@khaby.lame/video/7137423965982592302',
+      postId: '7137423965982592302',
+      username: 'khaby.lame',
+      contentKind: 'video',
+      isShortUrl: false,
+      canonicalKey: 'tiktok:7137423965982592302',
+    },
+  },
+  {
+    url: 'https://vt.tiktok.com/ZSAbCdEfG/',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Photo',
+      subtitle: '@bellapoarch',
+      url: 'https://www.tiktok.com/@bellapoarch/photo/7301234567890123456',
+      postId: '7301234567890123456',
+      username: 'bellapoarch',
+      contentKind: 'photo',
+      isShortUrl: false,
+      canonicalKey: 'tiktok:7301234567890123456',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/t/ZTRAbCdEf/',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: '6718335390845095173',
+      url: 'https://m.tiktok.com/v/6718335390845095173.html',
+      postId: '6718335390845095173',
+      contentKind: 'video',
+      isShortUrl: false,
+      canonicalKey: 'tiktok:6718335390845095173',
+    },
+  },
+  {
+    url: 'https://vm.tiktok.com/ZMunknown1/',
+    expected: {
+      type: 'tiktok',
+      title: 'TikTok Video',
+      subtitle: 'Short URL',
+      url: 'https://vm.tiktok.com/ZMunknown1/',
+      postId: 'ZMunknown1',
+      isShortUrl: true,
+      canonicalKey: 'tiktok:short:ZMunknown1',
+    },
+  },
+  {
+    url: 'https://www.tiktok.com/@scout2015',
+    expected: {
+      type: 'link',
+      title: 'tiktok.com',
+      subtitle: 'tiktok.com',
+      url: 'https://www.tiktok.com/@scout2015',
+      canonicalKey: 'link:tiktok.com/@scout2015',
+    },
+  },
+
+  // Instagram - posts, carousel slides, reels and TV
+  {
+    url: 'https://www.instagram.com/p/CxYz123AbC/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/p/CxYz123AbC/?igsh=MTc4MmM1YmI2Ng==',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://instagram.com/p/CxYz123AbC',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://m.instagram.com/p/CxYz123AbC/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/p/CxYz123AbC/?img_index=3',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC · Slide 3',
+      url: 'https://www.instagram.com/p/CxYz123AbC/?img_index=3',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      carouselIndex: 3,
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/p/CxYz123AbC/?img_index=1&igsh=abc',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC · Slide 1',
+      url: 'https://www.instagram.com/p/CxYz123AbC/?img_index=1',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      carouselIndex: 1,
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/p/CxYz123AbC/?img_index=0',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: 'CxYz123AbC',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/reel/C1a2B3c4D5e/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Reel',
+      subtitle: 'C1a2B3c4D5e',
+      url: 'https://www.instagram.com/reel/C1a2B3c4D5e/',
+      postId: 'C1a2B3c4D5e',
+      contentKind: 'reel',
+      canonicalKey: 'instagram:C1a2B3c4D5e',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/reel/C1a2B3c4D5e/?utm_source=ig_web_copy_link&igshid=MzRlODBiNWFlZA==',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Reel',
+      subtitle: 'C1a2B3c4D5e',
+      url: 'https://www.instagram.com/reel/C1a2B3c4D5e/',
+      postId: 'C1a2B3c4D5e',
+      contentKind: 'reel',
+      canonicalKey: 'instagram:C1a2B3c4D5e',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/reels/C1a2B3c4D5e/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Reel',
+      subtitle: 'C1a2B3c4D5e',
+      url: 'https://www.instagram.com/reel/C1a2B3c4D5e/',
+      postId: 'C1a2B3c4D5e',
+      contentKind: 'reel',
+      canonicalKey: 'instagram:C1a2B3c4D5e',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/tv/B8xYzAbCdEf/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram TV',
+      subtitle: 'B8xYzAbCdEf',
+      url: 'https://www.instagram.com/tv/B8xYzAbCdEf/',
+      postId: 'B8xYzAbCdEf',
+      contentKind: 'tv',
+      canonicalKey: 'instagram:B8xYzAbCdEf',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/natgeo/p/CxYz123AbC/',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Post',
+      subtitle: '@natgeo',
+      url: 'https://www.instagram.com/p/CxYz123AbC/',
+      postId: 'CxYz123AbC',
+      username: 'natgeo',
+      contentKind: 'post',
+      canonicalKey: 'instagram:CxYz123AbC',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/natgeo/reel/C1a2B3c4D5e/?hl=en',
+    expected: {
+      type: 'instagram',
+      title: 'Instagram Reel',
+      subtitle: '@natgeo',
+      url: 'https://www.instagram.com/reel/C1a2B3c4D5e/',
+      postId: 'C1a2B3c4D5e',
+      username: 'natgeo',
+      contentKind: 'reel',
+      canonicalKey: 'instagram:C1a2B3c4D5e',
+    },
+  },
+  {
+    url: 'https://www.instagram.com/natgeo/',
+    expected: {
+      type: 'link',
+      title: 'instagram.com',
+      subtitle: 'instagram.com',
+      url: 'https://www.instagram.com/natgeo/',
+      canonicalKey: 'link:instagram.com/natgeo',
+    },
+  },
+
+  // Vimeo - public, unlisted, player, channel and group links
+  {
+    url: 'https://vimeo.com/76979871',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://www.vimeo.com/76979871',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'http://vimeo.com/76979871?share=copy',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://vimeo.com/76979871/8272103f6e',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Unlisted 76979871',
+      url: 'https://vimeo.com/76979871/8272103f6e',
+      videoId: '76979871',
+      unlistedHash: '8272103f6e',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://player.vimeo.com/video/76979871',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://player.vimeo.com/video/76979871?h=8272103f6e&badge=0&autopause=0',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Unlisted 76979871',
+      url: 'https://vimeo.com/76979871/8272103f6e',
+      videoId: '76979871',
+      unlistedHash: '8272103f6e',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://vimeo.com/channels/staffpicks/76979871',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://vimeo.com/groups/motion/videos/76979871',
+    expected: {
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: 'Open 76979871',
+      url: 'https://vimeo.com/76979871',
+      videoId: '76979871',
+      canonicalKey: 'vimeo:76979871',
+    },
+  },
+  {
+    url: 'https://vimeo.com/staffpicks',
+    expected: {
+      type: 'link',
+      title: 'vimeo.com',
+      subtitle: 'vimeo.com',
+      url: 'https://vimeo.com/staffpicks',
+      canonicalKey: 'link:vimeo.com/staffpicks',
+    },
+  },
+
+  // X / Twitter
+  {
+    url: 'https://x.com/NASA/status/1689345678901234567',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://twitter.com/NASA/status/1689345678901234567?s=20&t=AbCdEfGhIjKlMn',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://mobile.twitter.com/NASA/status/1689345678901234567',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://www.twitter.com/NASA/statuses/1689345678901234567',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://x.com/i/status/1689345678901234567',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '1689345678901234567',
+      url: 'https://x.com/i/status/1689345678901234567',
+      postId: '1689345678901234567',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://x.com/NASA/status/1689345678901234567/video/1',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://x.com/NASA/status/1689345678901234567/photo/2',
+    expected: {
+      type: 'x',
+      title: 'X Post',
+      subtitle: '@NASA',
+      url: 'https://x.com/NASA/status/1689345678901234567',
+      postId: '1689345678901234567',
+      username: 'NASA',
+      canonicalKey: 'x:1689345678901234567',
+    },
+  },
+  {
+    url: 'https://x.com/NASA',
+    expected: {
+      type: 'link',
+      title: 'x.com',
+      subtitle: 'x.com',
+      url: 'https://x.com/NASA',
+      canonicalKey: 'link:x.com/NASA',
+    },
+  },
+
+  // Reddit - comments pages, redd.it and /s/ share links
+  {
+    url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://old.reddit.com/r/aww/comments/abc123/cute_puppy/?utm_source=share&utm_medium=ios_app',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://reddit.com/r/aww/comments/abc123/',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://np.reddit.com/r/aww/comments/abc123/cute_puppy/',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://new.reddit.com/r/aww/comments/abc123/cute_puppy/?context=3',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://www.reddit.com/comments/abc123/',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'abc123',
+      url: 'https://www.reddit.com/comments/abc123/',
+      postId: 'abc123',
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://redd.it/abc123',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/abc123/cute_puppy/',
+      postId: 'abc123',
+      subreddit: 'aww',
+      isShortUrl: false,
+      canonicalKey: 'reddit:abc123',
+    },
+  },
+  {
+    url: 'https://redd.it/xyz789',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'xyz789',
+      url: 'https://www.reddit.com/comments/xyz789/',
+      postId: 'xyz789',
+      isShortUrl: false,
+      canonicalKey: 'reddit:xyz789',
+    },
+  },
+  {
+    url: 'https://www.reddit.com/r/aww/s/AbCdEfGh12',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/comments/def456/sleepy_cat/',
+      postId: 'def456',
+      subreddit: 'aww',
+      isShortUrl: false,
+      canonicalKey: 'reddit:def456',
+    },
+  },
+  {
+    url: 'https://www.reddit.com/r/aww/s/Unresolved9',
+    expected: {
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: 'r/aww',
+      url: 'https://www.reddit.com/r/aww/s/Unresolved9',
+      postId: 'Unresolved9',
+      subreddit: 'aww',
+      isShortUrl: true,
+      canonicalKey: 'reddit:share:Unresolved9',
+    },
+  },
+  {
+    url: 'https://www.reddit.com/r/aww/',
+    expected: {
+      type: 'link',
+      title: 'reddit.com',
+      subtitle: 'reddit.com',
+      url: 'https://www.reddit.com/r/aww/',
+      canonicalKey: 'link:reddit.com/r/aww',
+    },
+  },
+
+  // Twitch - clips and VODs
+  {
+    url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: 'AwkwardHelplessSalamanderSwiftRage',
+      url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+      postId: 'AwkwardHelplessSalamanderSwiftRage',
+      canonicalKey: 'twitch:clip:AwkwardHelplessSalamanderSwiftRage',
+    },
+  },
+  {
+    url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage?tt_medium=clips_api',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: 'AwkwardHelplessSalamanderSwiftRage',
+      url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+      postId: 'AwkwardHelplessSalamanderSwiftRage',
+      canonicalKey: 'twitch:clip:AwkwardHelplessSalamanderSwiftRage',
+    },
+  },
+  {
+    url: 'https://www.twitch.tv/shroud/clip/AwkwardHelplessSalamanderSwiftRage',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: 'shroud',
+      url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+      postId: 'AwkwardHelplessSalamanderSwiftRage',
+      username: 'shroud',
+      canonicalKey: 'twitch:clip:AwkwardHelplessSalamanderSwiftRage',
+    },
+  },
+  {
+    url: 'https://www.twitch.tv/shroud/clip/AwkwardHelplessSalamanderSwiftRage?filter=clips&range=7d&sort=time',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: 'shroud',
+      url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+      postId: 'AwkwardHelplessSalamanderSwiftRage',
+      username: 'shroud',
+      canonicalKey: 'twitch:clip:AwkwardHelplessSalamanderSwiftRage',
+    },
+  },
+  {
+    url: 'https://m.twitch.tv/shroud/clip/AwkwardHelplessSalamanderSwiftRage',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: 'shroud',
+      url: 'https://clips.twitch.tv/AwkwardHelplessSalamanderSwiftRage',
+      postId: 'AwkwardHelplessSalamanderSwiftRage',
+      username: 'shroud',
+      canonicalKey: 'twitch:clip:AwkwardHelplessSalamanderSwiftRage',
+    },
+  },
+  {
+    url: 'https://www.twitch.tv/videos/1234567890',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch VOD',
+      subtitle: 'Video 1234567890',
+      url: 'https://www.twitch.tv/videos/1234567890',
+      videoId: '1234567890',
+      canonicalKey: 'twitch:video:1234567890',
+    },
+  },
+  {
+    url: 'https://www.twitch.tv/videos/1234567890?t=1h2m3s',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch VOD',
+      subtitle: 'Video 1234567890',
+      url: 'https://www.twitch.tv/videos/1234567890',
+      videoId: '1234567890',
+      canonicalKey: 'twitch:video:1234567890',
+    },
+  },
+  {
+    url: 'https://m.twitch.tv/videos/1234567890',
+    expected: {
+      type: 'twitch',
+      title: 'Twitch VOD',
+      subtitle: 'Video 1234567890',
+      url: 'https://www.twitch.tv/videos/1234567890',
+      videoId: '1234567890',
+      canonicalKey: 'twitch:video:1234567890',
+    },
+  },
+  {
+    url: 'https://www.twitch.tv/shroud',
+    expected: {
+      type: 'link',
+      title: 'twitch.tv',
+      subtitle: 'twitch.tv',
+      url: 'https://www.twitch.tv/shroud',
+      canonicalKey: 'link:twitch.tv/shroud',
+    },
+  },
+
+  // Everything else is kept as a link, with page metadata when available
+  {
+    url: 'https://www.nytimes.com/2024/01/01/science/space-telescope.html?smid=url-share',
+    expected: {
+      type: 'link',
+      title: 'A New Telescope Sees Farther Than Ever',
+      subtitle: 'The New York Times',
+      url: 'https://www.nytimes.com/2024/01/01/science/space-telescope.html?smid=url-share',
+      username: 'Dennis Overbye',
+      thumbnailUrl: 'https://static01.nyt.com/images/2024/01/01/science/telescope-facebookJumbo.jpg',
+      canonicalKey: 'link:nytimes.com/2024/01/01/science/space-telescope.html?smid=url-share',
+    },
+  },
+  {
+    url: 'https://www.bbc.co.uk/news/technology-12345678',
+    expected: {
+      type: 'link',
+      title: 'Tech giants agree new rules',
+      subtitle: 'BBC News',
+      url: 'https://www.bbc.co.uk/news/technology-12345678',
+      thumbnailUrl: 'https://ichef.bbci.co.uk/news/1024/branded_news/abc.jpg',
+      canonicalKey: 'link:bbc.co.uk/news/technology-12345678',
+    },
+  },
+  {
+    url: 'https://streamable.com/abcd12',
+    expected: {
+      type: 'link',
+      title: 'Streamable Video',
+      subtitle: 'Streamable',
+      url: 'https://streamable.com/abcd12',
+      thumbnailUrl: 'https://cdn-cf-east.streamable.com/image/abcd12.jpg',
+      videoUrl: 'https://cdn-cf-east.streamable.com/video/mp4/abcd12.mp4',
+      videoType: 'video/mp4',
+      canonicalKey: 'link:streamable.com/abcd12',
+    },
+  },
+  {
+    url: 'https://blog.example.org/post/1?utm_source=twitter&fbclid=IwAR0abc',
+    expected: {
+      type: 'link',
+      title: 'blog.example.org',
+      subtitle: 'blog.example.org',
+      url: 'https://blog.example.org/post/1',
+      canonicalKey: 'link:blog.example.org/post/1',
+    },
+  },
+  {
+    url: 'https://en.wikipedia.org/wiki/Rick_Astley',
+    expected: {
+      type: 'link',
+      title: 'Rick Astley - Wikipedia',
+      subtitle: 'en.wikipedia.org',
+      url: 'https://en.wikipedia.org/wiki/Rick_Astley',
+      thumbnailUrl: 'https://upload.wikimedia.org/wikipedia/commons/6/6d/Rick_Astley.jpg',
+      canonicalKey: 'link:en.wikipedia.org/wiki/Rick_Astley',
+    },
+  },
+  {
+    url: 'http://example.com',
+    expected: {
+      type: 'link',
+      title: 'example.com',
+      subtitle: 'example.com',
+      url: 'https://example.com/',
+      canonicalKey: 'link:example.com/',
+    },
+  },
+  {
+    url: 'https://example.com/page#section',
+    expected: {
+      type: 'link',
+      title: 'example.com',
+      subtitle: 'example.com',
+      url: 'https://example.com/page#section',
+      canonicalKey: 'link:example.com/page',
+    },
+  },
+  {
+    url: 'https://example.com/files/demo.mp4',
+    expected: {
+      type: 'link',
+      title: 'example.com',
+      subtitle: 'example.com',
+      url: 'https://example.com/files/demo.mp4',
+      canonicalKey: 'link:example.com/files/demo.mp4',
+    },
+  },
+
+  // Not web URLs
+  { url: 'ftp://example.com/file.txt', expected: null },
+  { url: 'mailto:someone@example.com', expected: null },
+  { url: 'not a url', expected: null },
+];
+
+/** Serializes a value with sorted keys and undefined fields dropped, for comparison */
+const toComparable = (value: unknown): string =>
+  JSON.stringify(value, (_key, field) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(Object.keys(field).sort().map(key => [key, field[key]]))
+      : field
+  );
+
+/** Checks one fixture, returning why it failed or null if it passed */
+const checkFixture = (fixture: IngestFixture, actual: EmbedData | null): string | null => {
+  if (!actual || !fixture.expected) {
+    return actual === fixture.expected ? null : actual ? 'expected no clip' : 'expected a clip';
+  }
+
+  const { id, createdAt, ...rest } = actual;
+  if (createdAt !== CORPUS_NOW || !id.startsWith(`${actual.type}-`)) return `unexpected id ${id}`;
+  return toComparable(rest) === toComparable(fixture.expected) ? null : 'clip differs';
+};
+
+/** Runs every fixture through the ingestion pipeline and returns the failures */
+export const runIngestCorpus = async (): Promise<CorpusFailure[]> => {
+  const failures: CorpusFailure[] = [];
+  for (const fixture of INGEST_CORPUS) {
+    const actual = await createEmbedFromUrl(fixture.url, corpusContext);
+    const reason = checkFixture(fixture, actual);
+    if (reason) failures.push({ url: fixture.url, expected: fixture.expected, actual, reason });
+  }
+  return failures;
+};
@@ -0,0 +1,27 @@
+/**
+ * Ingestion - turns shared URLs into clips.
+ *
+ * Pure TypeScript with no React Native or storage imports, so the whole
+ * pipeline runs under Node. Network access goes through an `IngestContext`
+ * that defaults to fetch and can be swapped out (see `corpus.ts`).
+ */
+export { parseInstagramUrl } from '../providers/instagram';
+export { parseRedditUrl } from '../providers/reddit';
+export { parseTikTokUrl } from '../providers/tiktok';
+export { parseTwitchUrl } from '../providers/twitch';
+export { parseVimeoUrl } from '../providers/vimeo';
+export { parseXUrl } from '../providers/x';
+export { parseYouTubeUrl } from '../providers/youtube';
+export { detectCollectionClips, parseBookmarksHtml, parseTakeoutCsv } from './collectionImport';
+export type { CollectionEntry, CollectionImport } from './collectionImport';
+export { defaultIngestContext, defaultNetwork, resolveShortUrl } from './network';
+export { fetchPageMetadata, parsePageMetadata } from './openGraph';
+export {
+  canonicalizeSharedUrl,
+  createEmbedFromUrl,
+  findProviderForUrl,
+  getCanonicalKey,
+  withCanonicalKey,
+} from './pipeline';
+export { detectClips, extractSharedUrls, formatImportSummary } from './shareImport';
+export type { DetectedClip, ShareImportSummary } from './shareImport';
@@ -0,0 +1,49 @@
+import { IngestContext, IngestNetwork } from '../types';
+import { fetchPageMetadata } from './openGraph';
+
+/** Resolves a share short link (vt.tiktok.com, redd.it, ...) to the URL it redirects to */
+export const resolveShortUrl = async (shortUrl: string): Promise<string | null> => {
+  try {
+    console.log('🔄 Resolving short URL:', shortUrl);
+
+    // Make a HEAD request to get the redirect URL
+    const response = await fetch(shortUrl, {
+      method: 'HEAD',
+      redirect: 'manual' // Don't follow redirects automatically
+    });
+
+    // Check if we got a redirect
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      if (location) {
+        console.log('✅ Resolved short URL:', location);
+        return location;
+      }
+    }
+
+    // If no redirect, try a GET request with redirect following
+    const getResponse = await fetch(shortUrl, { redirect: 'follow' });
+    if (getResponse.url !== shortUrl) {
+      console.log('✅ Resolved short URL via GET:', getResponse.url);
+      return getResponse.url;
+    }
+
+    console.log('❌ Could not resolve short URL');
+    return null;
+
+  } catch (error) {
+    console.log('❌ Error resolving short URL:', error);
+    return null;
+  }
+};
+
+/** Real network access through fetch */
+export const defaultNetwork: IngestNetwork = {
+  resolveShortUrl,
+  fetchPageMetadata,
+};
+
+export const defaultIngestContext: IngestContext = {
+  network: defaultNetwork,
+  now: () => Date.now(),
+};
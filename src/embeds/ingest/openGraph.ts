@@ -0,0 +1,153 @@
+import { PageMetadata } from '../types';
+import { resolveUrl } from '../url';
+
+// How long a page and its oEmbed endpoint get to answer, and how much of the page is read
+const PAGE_FETCH_TIMEOUT_MS = 10 * 1000;
+const PAGE_READ_LIMIT = 512 * 1024;
+
+// Anything else, like a direct link to a video file, has no <meta> tags worth downloading
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/** Decodes the handful of HTML entities that show up in meta tag attributes */
+const decodeHtmlEntities = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/** Reads the attributes of a single HTML tag into a lowercase-keyed map */
+const parseTagAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attributeRegex = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributeRegex.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+/** Extracts OpenGraph / Twitter card metadata and the oEmbed discovery link from page HTML */
+export const parsePageMetadata = (html: string, pageUrl: string): PageMetadata & { oembedUrl?: string } => {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\s[^>]*>/gi) || []) {
+    const attributes = parseTagAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    // Keep the first occurrence; pages list the preferred value first
+    if (key && attributes.content && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let oembedUrl: string | undefined;
+  for (const tag of html.match(/<link\s[^>]*>/gi) || []) {
+    const attributes = parseTagAttributes(tag);
+    if (attributes.rel === 'alternate' && attributes.type === 'application/json+oembed') {
+      oembedUrl = resolveUrl(attributes.href, pageUrl);
+      break;
+    }
+  }
+
+  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
+
+  return {
+    title: meta['og:title'] || meta['twitter:title'] || (titleMatch ? decodeHtmlEntities(titleMatch[1].trim()) : undefined),
+    image: resolveUrl(meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'], pageUrl),
+    siteName: meta['og:site_name'],
+    author: meta['author'] || meta['article:author'],
+    video: resolveUrl(
+      meta['og:video:secure_url'] || meta['og:video:url'] || meta['og:video'] || meta['twitter:player'],
+      pageUrl
+    ),
+    videoType: meta['og:video:type'],
+    oembedUrl,
+  };
+};
+
+/**
+ * Reads a page's HTML up to `</head>` or the read limit, whichever comes
+ * first. React Native's fetch can't stream a body, so there a page only gets
+ * this far once its length is known to fit; one that doesn't say is read
+ * whole, bounded by the fetch timeout.
+ */
+const readPageHead = async (response: Response): Promise<string | null> => {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    if (Number(response.headers.get('content-length')) > PAGE_READ_LIMIT) return null;
+    return (await response.text()).slice(0, PAGE_READ_LIMIT);
+  }
+
+  const decoder = new TextDecoder();
+  let html = '';
+  let bytesRead = 0;
+  while (bytesRead < PAGE_READ_LIMIT && !/<\/head>/i.test(html)) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.length;
+    html += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => undefined);
+  return html.slice(0, PAGE_READ_LIMIT);
+};
+
+/**
+ * Fetches the start of a page and returns its discovery metadata, filling
+ * gaps from its oEmbed endpoint. Anything that isn't an HTML page, is too
+ * long or doesn't answer in time resolves to null, leaving a bare link.
+ */
+export const fetchPageMetadata = async (pageUrl: string): Promise<PageMetadata | null> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT_MS);
+  try {
+    // Servers that honor the range send no more than gets read
+    const response = await fetch(pageUrl, {
+      signal: controller.signal,
+      headers: { Range: `bytes=0-${PAGE_READ_LIMIT - 1}` },
+    });
+    if (!response.ok) {
+      console.log('❌ Page metadata fetch failed:', response.status, pageUrl);
+      return null;
+    }
+
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!HTML_CONTENT_TYPES.includes(contentType)) {
+      console.log('❌ Not an HTML page:', contentType || 'no content type', pageUrl);
+      controller.abort();
+      return null;
+    }
+
+    const html = await readPageHead(response);
+    if (html === null) {
+      console.log('❌ Page too long to read for metadata:', pageUrl);
+      controller.abort();
+      return null;
+    }
+    const { oembedUrl, ...metadata } = parsePageMetadata(html, pageUrl);
+
+    if (oembedUrl && (!metadata.title || !metadata.image || !metadata.author)) {
+      try {
+        const oembedResponse = await fetch(oembedUrl, { signal: controller.signal });
+        if (oembedResponse.ok) {
+          const oembed = await oembedResponse.json();
+          metadata.title = metadata.title || oembed.title;
+          metadata.image = metadata.image || oembed.thumbnail_url;
+          metadata.siteName = metadata.siteName || oembed.provider_name;
+          metadata.author = metadata.author || oembed.author_name;
+        }
+      } catch (error) {
+        console.log('❌ oEmbed discovery fetch error:', error);
+      }
+    }
+
+    console.log('✅ Page metadata:', metadata);
+    return metadata;
+
+  } catch (error) {
+    console.log('❌ Page metadata fetch error:', error);
+    return null;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * Ingestion pipeline - canonicalizes a shared URL and builds a clip with the
+ * first provider that recognizes it.
+ */
+import { canonicalizeUrl, getLinkCanonicalKey } from '../canonical';
+import { getProvider, PROVIDERS } from '../providers';
+import { EmbedData, EmbedProvider, IngestContext } from '../types';
+import { defaultIngestContext } from './network';
+
+// Link clips fetch page metadata, so imports of many links run a few at a time
+export const INGEST_CONCURRENCY = 4;
+
+/** Strips tracking parameters and applies the owning provider's host/path normalization */
+export const canonicalizeSharedUrl = (url: string): string =>
+  canonicalizeUrl(url, parts => {
+    for (const provider of PROVIDERS) {
+      const normalized = provider.normalizeUrl?.(parts);
+      if (normalized) return normalized;
+    }
+    return null;
+  });
+
+/** Finds the provider that handles a shared URL */
+export const findProviderForUrl = (url: string): EmbedProvider | undefined => {
+  const canonicalUrl = canonicalizeSharedUrl(url);
+  return PROVIDERS.find(provider => provider.matchesUrl(canonicalUrl));
+};
+
+/** Returns a clip's canonical key, computing it for clips saved before keys existed */
+export const getCanonicalKey = (embed: EmbedData): string =>
+  embed.canonicalKey
+    ?? getProvider(embed.type)?.getCanonicalKey(embed)
+    ?? getLinkCanonicalKey(embed.url);
+
+/** Returns the clip with its canonical key filled in */
+export const withCanonicalKey = (embed: EmbedData): EmbedData =>
+  embed.canonicalKey ? embed : { ...embed, canonicalKey: getCanonicalKey(embed) };
+
+/** Creates EmbedData object from shared URL using the first matching provider */
+export const createEmbedFromUrl = async (
+  url: string,
+  context: IngestContext = defaultIngestContext
+): Promise<EmbedData | null> => {
+  const canonicalUrl = canonicalizeSharedUrl(url);
+  for (const provider of PROVIDERS) {
+    if (!provider.matchesUrl(canonicalUrl)) continue;
+    const embed = await provider.createEmbed(canonicalUrl, context);
+    if (embed) return { ...embed, canonicalKey: provider.getCanonicalKey(embed) };
+  }
+  return null;
+};
+
+/** Runs `task` over every item with at most `limit` running at once, keeping order */
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
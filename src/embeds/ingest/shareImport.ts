@@ -0,0 +1,73 @@
+/**
+ * Share import - pulls every link out of shared text (captions like
+ * "Check this out! https://...", or a Notes export with dozens of links)
+ * and turns them into clips, marking ones already in the library.
+ */
+import { EmbedData, IngestContext } from '../types';
+import { defaultIngestContext } from './network';
+import { createEmbedFromUrl, getCanonicalKey, INGEST_CONCURRENCY, mapWithConcurrency } from './pipeline';
+
+export interface DetectedClip {
+  url: string;
+  embed: EmbedData | null; // null if no provider could build a clip
+  isDuplicate: boolean; // already saved, or repeated earlier in the same share
+}
+
+/** Summary of a finished import, shown in the share banner */
+export interface ShareImportSummary {
+  added: EmbedData[];
+  duplicates: number;
+  failed: number;
+}
+
+// Punctuation that usually ends a sentence rather than the URL itself
+const TRAILING_PUNCTUATION = /[.,;:!?'"”’)\]}>]+$/;
+
+/** Finds every http(s) URL in shared text, in order, without exact repeats */
+export const extractSharedUrls = (text: string): string[] => {
+  const matches = text.match(/\b(?:https?:\/\/|www\.)[^\s<>"]+/gi) || [];
+  const urls = matches.map(match => {
+    let url = match.replace(TRAILING_PUNCTUATION, '');
+    // Keep a closing paren that belongs to the URL, e.g. Wikipedia links
+    if (match.length > url.length && match[url.length] === ')' && url.includes('(')) {
+      url += ')';
+    }
+    return url.toLowerCase().startsWith('www.') ? `https://${url}` : url;
+  });
+  return Array.from(new Set(urls));
+};
+
+/** Builds clips for every URL, a few at a time, and marks duplicates against the library's canonical keys and the batch itself */
+export const detectClips = async (
+  urls: string[],
+  existingKeys: Set<string>,
+  context: IngestContext = defaultIngestContext
+): Promise<DetectedClip[]> => {
+  const embeds = await mapWithConcurrency(urls, INGEST_CONCURRENCY, url => createEmbedFromUrl(url, context).catch(() => null));
+  const seenKeys = new Set(existingKeys);
+
+  return urls.map((url, index) => {
+    const embed = embeds[index];
+    if (!embed) return { url, embed, isDuplicate: false };
+
+    const key = getCanonicalKey(embed);
+    const isDuplicate = seenKeys.has(key);
+    seenKeys.add(key);
+    return { url, embed, isDuplicate };
+  });
+};
+
+/** Formats the banner text for a finished import */
+export const formatImportSummary = ({ added, duplicates, failed }: ShareImportSummary): string => {
+  const parts: string[] = [];
+  if (added.length > 0) {
+    parts.push(`Added ${added.length} ${added.length === 1 ? 'clip' : 'clips'}`);
+  }
+  if (duplicates > 0) {
+    parts.push(`${duplicates} already saved`);
+  }
+  if (failed > 0) {
+    parts.push(`${failed} unsupported`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Nothing to add';
+};
@@ -0,0 +1,61 @@
+/**
+ * Provider registry - the single list of supported platforms.
+ *
+ * Adding a platform means writing one provider module, adding its id to
+ * `PlatformType` and registering it here. The gallery, filter page and
+ * share-intent flow all read from this registry; turning URLs into clips
+ * lives in `src/embeds/ingest`.
+ */
+import { EmbedData, EmbedProvider, PlatformType } from '../types';
+import { instagramProvider } from './instagram';
+import { linkProvider } from './link';
+import { redditProvider } from './reddit';
+import { tiktokProvider } from './tiktok';
+import { twitchProvider } from './twitch';
+import { vimeoProvider } from './vimeo';
+import { xProvider } from './x';
+import { youtubeProvider } from './youtube';
+
+/** Registered providers, in the order they appear in the filter page */
+export const PROVIDERS: EmbedProvider[] = [
+  youtubeProvider,
+  tiktokProvider,
+  instagramProvider,
+  vimeoProvider,
+  xProvider,
+  redditProvider,
+  twitchProvider,
+  // Fallback for unsupported URLs - must stay last
+  linkProvider,
+];
+
+export const PLATFORM_TYPES: PlatformType[] = PROVIDERS.map(provider => provider.type);
+
+/** Looks up a provider by clip type; undefined for unknown (legacy) types */
+export const getProvider = (type: string): EmbedProvider | undefined =>
+  PROVIDERS.find(provider => provider.type === type);
+
+/** Main HTML generator - routes to the clip's provider */
+export const generateEmbedHtml = (embed: EmbedData): string => {
+  if (!embed.type) {
+    return '<html><body><p>Invalid embed data: missing type</p></body></html>';
+  }
+
+  const html = getProvider(embed.type)?.generateHtml(embed);
+  return html ?? '<html><body><p>Invalid embed data</p></body></html>';
+};
+
+/** Returns the page URL to load in the player when the provider doesn't generate HTML */
+export const getPlayerUri = (embed: EmbedData): string | null =>
+  getProvider(embed.type)?.getPlayerUri?.(embed) ?? null;
+
+/** Returns base URL for WebView origin whitelist */
+export const getBaseUrl = (type: PlatformType): string | undefined => getProvider(type)?.baseUrl;
+
+/** Returns a thumbnail URL that needs no network lookup, null otherwise */
+export const getThumbnailUrl = (embed: EmbedData): string | null => {
+  if (!embed.type) {
+    return null;
+  }
+  return getProvider(embed.type)?.getThumbnailUrl?.(embed) ?? null;
+};
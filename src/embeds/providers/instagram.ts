@@ -0,0 +1,160 @@
+import { keepQueryParams } from '../canonical';
+import { ContentKind, EmbedData, EmbedProvider } from '../types';
+import { getQueryParam, splitUrl } from '../url';
+
+type InstagramContentKind = Extract<ContentKind, 'post' | 'reel' | 'tv'>;
+
+const INSTAGRAM_PATHS: Record<InstagramContentKind, string> = { post: 'p', reel: 'reel', tv: 'tv' };
+const INSTAGRAM_LABELS: Record<InstagramContentKind, string> = { post: 'Post', reel: 'Reel', tv: 'TV' };
+
+/** Builds the permalink for a post, keeping its content type and carousel slide */
+const getInstagramPermalink = (postId: string, contentKind: InstagramContentKind = 'post', carouselIndex?: number): string => {
+  const slideParam = carouselIndex ? `?img_index=${carouselIndex}` : '';
+  return `https://www.instagram.com/${INSTAGRAM_PATHS[contentKind]}/${postId}/${slideParam}`;
+};
+
+/** Returns the clip's Instagram content kind, treating legacy clips as posts */
+const getInstagramContentKind = (embed: EmbedData): InstagramContentKind =>
+  embed.contentKind === 'reel' || embed.contentKind === 'tv' ? embed.contentKind : 'post';
+
+/** Generates Instagram embed HTML using Instagram's embed script */
+const generateInstagramHtml = (permalink: string): string => {
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
+  .instagram-media{margin:0 auto;}
+  </style></head><body>
+  <div class="wrap">
+    <blockquote class="instagram-media" data-instgrm-permalink="${permalink}" data-instgrm-version="14"></blockquote>
+  </div>
+  <script async src="https://www.instagram.com/embed.js"></script>
+  </body></html>`;
+};
+
+/** Generates Instagram tile HTML for grid cards - sized to fit within card constraints */
+const generateInstagramTileHtml = (permalink: string): string => {
+  return `<!doctype html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<style>
+  html, body { margin:0; padding:0; height:100%; background:#000; }
+  /* Center the embed within the tile */
+  .wrap {
+    display:flex; align-items:center; justify-content:center;
+    width:100%; height:100%; /* Use full available height */
+    position:relative; /* Better positioning control */
+  }
+  /* Kill Instagram's min/max constraints and let it shrink */
+  .instagram-media {
+    margin:0 auto !important;
+    max-width:100% !important;
+    min-width:0 !important;
+    width:100% !important;
+    transform: scale(1.5) translateY(50px); /* 1.5x zoom + 50px down */
+    transform-origin: center center; /* Scale from center */
+  }
+  /* Instagram injects inner wrappers; make sure they don't force width */
+  .instagram-media, .instagram-media * {
+    box-sizing:border-box;
+    max-width:100% !important;
+  }
+</style>
+</head>
+<body>
+  <div class="wrap">
+    <blockquote class="instagram-media"
+      data-instgrm-permalink="${permalink}"
+      data-instgrm-version="14"></blockquote>
+  </div>
+  <script async src="https://www.instagram.com/embed.js"></script>
+</body>
+</html>`;
+};
+
+/** Parses Instagram URLs (posts/reels/TV) and extracts post ID, username, content type and carousel slide */
+export const parseInstagramUrl = (url: string): {
+  postId: string;
+  username?: string;
+  contentType: InstagramContentKind;
+  carouselIndex?: number;
+} | null => {
+  // Instagram URL patterns:
+  // https://www.instagram.com/p/POST_ID/ (posts)
+  // https://www.instagram.com/p/POST_ID/?img_index=3 (carousel slide)
+  // https://www.instagram.com/reel/REEL_ID/ (reels)
+  // https://www.instagram.com/reels/REEL_ID/ (reels tab)
+  // https://www.instagram.com/tv/TV_ID/ (IGTV)
+  // https://www.instagram.com/username/p/POST_ID/
+  // https://www.instagram.com/username/reel/REEL_ID/
+  const instagramRegex = /(?:https?:\/\/(?:www\.)?instagram\.com(?:\/([^\/]+))?\/(p|reels?|tv)\/([^\/\?#]+))/;
+  const match = url.match(instagramRegex);
+
+  if (match) {
+    const username = match[1];
+    const contentType: InstagramContentKind = match[2] === 'p' ? 'post' : match[2] === 'tv' ? 'tv' : 'reel';
+    const postId = match[3];
+
+    const parts = splitUrl(url);
+    const imgIndex = parts ? Number(getQueryParam(parts, 'img_index')) : NaN;
+    const carouselIndex = Number.isInteger(imgIndex) && imgIndex > 0 ? imgIndex : undefined;
+
+    return { postId, username, contentType, carouselIndex };
+  }
+
+  return null;
+};
+
+export const instagramProvider: EmbedProvider = {
+  type: 'instagram',
+  displayName: 'Instagram',
+  color: '#E4405F',
+  filterIcon: '📷',
+  tagStyle: {
+    backgroundColor: 'transparent',
+    borderColor: 'rgba(131, 58, 180, 1)',
+    gradient: ['rgba(131, 58, 180, 0.4)', 'rgba(225, 48, 108, 0.4)', 'rgba(252, 175, 69, 0.4)'],
+  },
+  baseUrl: 'https://www.instagram.com',
+
+  normalizeUrl: (parts) => {
+    if (!/^(?:www\.|m\.)?instagram\.com$/.test(parts.host)) return null;
+    const path = (parts.path.endsWith('/') ? parts.path : `${parts.path}/`).replace(/^((?:\/[^\/]+)?)\/reels\//, '$1/reel/');
+    return keepQueryParams({ ...parts, host: 'www.instagram.com', path }, ['img_index']);
+  },
+
+  getCanonicalKey: (embed) => `instagram:${embed.postId}`,
+
+  getTagLabel: (embed) => `Instagram ${INSTAGRAM_LABELS[getInstagramContentKind(embed)]}`,
+
+  matchesUrl: (url) => parseInstagramUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const instagramData = parseInstagramUrl(url);
+    if (!instagramData) return null;
+
+    const { postId, username, contentType, carouselIndex } = instagramData;
+    const slideLabel = carouselIndex ? ` · Slide ${carouselIndex}` : '';
+
+    return {
+      id: `instagram-${postId}-${context.now()}`,
+      type: 'instagram',
+      title: `Instagram ${INSTAGRAM_LABELS[contentType]}`,
+      subtitle: `${username ? `@${username}` : postId}${slideLabel}`,
+      url: getInstagramPermalink(postId, contentType, carouselIndex),
+      postId,
+      username,
+      contentKind: contentType,
+      carouselIndex,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: (embed) => embed.postId
+    ? generateInstagramHtml(getInstagramPermalink(embed.postId, getInstagramContentKind(embed), embed.carouselIndex))
+    : null,
+
+  // Instagram has no public thumbnail endpoint, so cards render a live embed tile
+  generateTileHtml: (embed) => embed.postId
+    ? generateInstagramTileHtml(getInstagramPermalink(embed.postId, getInstagramContentKind(embed), embed.carouselIndex))
+    : null,
+};
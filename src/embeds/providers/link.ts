@@ -0,0 +1,94 @@
+import { getLinkCanonicalKey } from '../canonical';
+import { EmbedData, EmbedProvider } from '../types';
+import { getHostLabel, splitUrl } from '../url';
+
+const DIRECT_VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|m3u8)(?:[?#]|$)/i;
+
+/** og:video comes from arbitrary pages (or imported archives), so only web URLs are played */
+const getPlayableVideoUrl = (embed: EmbedData): string | null => {
+  const videoUrl = embed.videoUrl?.trim();
+  const protocol = videoUrl ? splitUrl(videoUrl)?.protocol : undefined;
+  return videoUrl && (protocol === 'http' || protocol === 'https') ? videoUrl : null;
+};
+
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/'/g, '&#39;');
+
+/** Generates player HTML for a page's og:video - a <video> for files, an iframe for players */
+const generateLinkVideoHtml = (videoUrl: string, videoType?: string): string => {
+  const isVideoType = videoType?.startsWith('video/') ?? false;
+  const isDirectVideo = isVideoType || DIRECT_VIDEO_EXTENSIONS.test(videoUrl);
+  const src = escapeAttribute(videoUrl);
+  const type = videoType && isVideoType ? ` type="${escapeAttribute(videoType)}"` : '';
+  const player = isDirectVideo
+    ? `<video controls autoplay playsinline><source src="${src}"${type} /></video>`
+    : `<iframe src="${src}" title="Video player" allow="autoplay; encrypted-media; fullscreen; picture-in-picture" allowfullscreen></iframe>`;
+
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;height:100%;} .wrap{position:fixed;inset:0;display:flex;align-items:center;}
+  iframe,video{border:0;width:100%;height:100%;display:block;object-fit:contain;}
+  </style></head><body>
+  <div class="wrap">
+    ${player}
+  </div>
+  </body></html>`;
+};
+
+/**
+ * Fallback provider for any web URL no other provider recognizes. Keeps the
+ * share as a card built from the page's OpenGraph / oEmbed metadata.
+ * Must stay last in the registry since it matches every http(s) URL.
+ */
+export const linkProvider: EmbedProvider = {
+  type: 'link',
+  displayName: 'Link',
+  color: '#9a9ba1',
+  filterIcon: '🔗',
+  tagStyle: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  baseUrl: 'https://localhost',
+
+  getCanonicalKey: (embed) => getLinkCanonicalKey(embed.url),
+
+  matchesUrl: (url) => /^https?:\/\/[^\s\/]+/i.test(url.trim()),
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const pageUrl = url.trim();
+    const host = getHostLabel(pageUrl);
+
+    // Even if the page can't be fetched the link is kept, just without a preview
+    const metadata = await context.network.fetchPageMetadata(pageUrl);
+
+    return {
+      id: `link-${host}-${context.now()}`,
+      type: 'link',
+      title: metadata?.title || host,
+      subtitle: metadata?.siteName || metadata?.author || host,
+      url: pageUrl,
+      username: metadata?.author,
+      thumbnailUrl: metadata?.image,
+      videoUrl: metadata?.video,
+      videoType: metadata?.videoType,
+      createdAt: context.now()
+    };
+  },
+
+  // Pages without a playable og:video are opened directly through getPlayerUri
+  generateHtml: (embed) => {
+    const videoUrl = getPlayableVideoUrl(embed);
+    return videoUrl ? generateLinkVideoHtml(videoUrl, embed.videoType) : null;
+  },
+
+  getPlayerUri: (embed) => getPlayableVideoUrl(embed) ? null : embed.url,
+
+  getThumbnailUrl: (embed) => embed.thumbnailUrl ?? null,
+
+  getPlaceholderLabel: (embed) => embed.title,
+};
@@ -0,0 +1,122 @@
+import { canonicalizeUrl } from '../canonical';
+import { EmbedData, EmbedProvider } from '../types';
+import { UrlParts } from '../url';
+
+/** Generates Reddit post embed HTML using Reddit's embed script */
+const generateRedditHtml = (postId: string, subreddit?: string): string => {
+  const permalink = subreddit
+    ? `https://www.reddit.com/r/${subreddit}/comments/${postId}/`
+    : `https://www.reddit.com/comments/${postId}/`;
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
+  .reddit-embed-bq{margin:0 auto;width:100%;max-width:640px;}
+  </style></head><body>
+  <div class="wrap">
+    <blockquote class="reddit-embed-bq" data-embed-theme="dark" data-embed-showtitle="true" data-embed-height="740">
+      <a href="${permalink}"></a>
+    </blockquote>
+  </div>
+  <script async src="https://embed.reddit.com/widgets.js" charset="UTF-8"></script>
+  </body></html>`;
+};
+
+/** Parses Reddit post URLs and extracts post ID and subreddit */
+export const parseRedditUrl = (url: string): { postId: string; subreddit?: string; isShortUrl?: boolean } | null => {
+  // Reddit URL patterns:
+  // https://www.reddit.com/r/SUBREDDIT/comments/POST_ID/SLUG/ (full format)
+  // https://old.reddit.com/r/SUBREDDIT/comments/POST_ID/ (full format)
+  // https://www.reddit.com/comments/POST_ID/ (full format, no subreddit)
+  // https://redd.it/POST_ID (short format)
+  // https://www.reddit.com/r/SUBREDDIT/s/SHARE_CODE (share link)
+  const fullRedditRegex = /https?:\/\/(?:(?:www|old|new|m|np)\.)?reddit\.com\/(?:r\/([^\/\?#]+)\/)?comments\/([a-z0-9]+)/i;
+  const shortRedditRegex = /https?:\/\/redd\.it\/([a-z0-9]+)/i;
+  const shareRedditRegex = /https?:\/\/(?:(?:www|m)\.)?reddit\.com\/r\/([^\/\?#]+)\/s\/([^\/\?#]+)/i;
+
+  const fullMatch = url.match(fullRedditRegex);
+  if (fullMatch) {
+    return { postId: fullMatch[2], subreddit: fullMatch[1] };
+  }
+
+  const shortMatch = url.match(shortRedditRegex);
+  if (shortMatch) {
+    return { postId: shortMatch[1], isShortUrl: true };
+  }
+
+  const shareMatch = url.match(shareRedditRegex);
+  if (shareMatch) {
+    return { postId: shareMatch[2], subreddit: shareMatch[1], isShortUrl: true };
+  }
+
+  return null;
+};
+
+/** Folds old./m./new. hosts into www.reddit.com and drops share tracking */
+const normalizeRedditUrl = (parts: UrlParts): UrlParts | null => {
+  if (!/^(?:(?:www|old|new|m|np)\.)?reddit\.com$/.test(parts.host)) return null;
+  return { ...parts, host: 'www.reddit.com', query: [] };
+};
+
+export const redditProvider: EmbedProvider = {
+  type: 'reddit',
+  displayName: 'Reddit',
+  color: '#FF4500',
+  filterIcon: '👽',
+  tagStyle: {
+    backgroundColor: 'rgba(255, 69, 0, 0.4)',
+    borderColor: 'rgba(255, 69, 0, 0.6)',
+  },
+  baseUrl: 'https://www.reddit.com',
+
+  normalizeUrl: normalizeRedditUrl,
+
+  getCanonicalKey: (embed) => embed.isShortUrl ? `reddit:share:${embed.postId}` : `reddit:${embed.postId}`,
+
+  matchesUrl: (url) => parseRedditUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const redditData = parseRedditUrl(url);
+    if (!redditData) return null;
+
+    let finalUrl = url;
+    let finalPostId = redditData.postId;
+    let finalSubreddit = redditData.subreddit;
+    let isShortUrl = redditData.isShortUrl;
+
+    // Short and share links redirect to the full comments URL
+    if (redditData.isShortUrl) {
+      const resolvedUrl = await context.network.resolveShortUrl(url);
+      if (resolvedUrl) {
+        const resolvedData = parseRedditUrl(resolvedUrl);
+        if (resolvedData && !resolvedData.isShortUrl) {
+          finalUrl = canonicalizeUrl(resolvedUrl, normalizeRedditUrl);
+          finalPostId = resolvedData.postId;
+          finalSubreddit = resolvedData.subreddit;
+          isShortUrl = false;
+          console.log('✅ Successfully resolved Reddit short URL to full format');
+        }
+      }
+    }
+
+    // A redd.it ID is a real post ID, so it still embeds without resolution
+    if (isShortUrl && url.match(/redd\.it\//i)) {
+      isShortUrl = false;
+      finalUrl = `https://www.reddit.com/comments/${finalPostId}/`;
+    }
+
+    return {
+      id: `reddit-${finalPostId}-${context.now()}`,
+      type: 'reddit',
+      title: 'Reddit Post',
+      subtitle: finalSubreddit ? `r/${finalSubreddit}` : (isShortUrl ? 'Short URL' : finalPostId),
+      url: finalUrl,
+      postId: finalPostId,
+      subreddit: finalSubreddit,
+      isShortUrl: isShortUrl,
+      createdAt: context.now()
+    };
+  },
+
+  // Unresolved share codes aren't post IDs, so there's nothing to embed
+  generateHtml: (embed) =>
+    embed.postId && !embed.isShortUrl ? generateRedditHtml(embed.postId, embed.subreddit) : null,
+};
@@ -0,0 +1,179 @@
+import { canonicalizeUrl } from '../canonical';
+import { ContentKind, EmbedData, EmbedProvider } from '../types';
+import { UrlParts } from '../url';
+
+/** Builds the public URL of a TikTok post, falling back to the ID-only form when the author is unknown */
+const getTikTokPostUrl = (postId: string, username?: string, contentKind: ContentKind = 'video'): string =>
+  username
+    ? `https://www.tiktok.com/@${username}/${contentKind}/${postId}`
+    : `https://m.tiktok.com/v/${postId}.html`;
+
+/** Generates TikTok embed HTML using TikTok's embed script */
+const generateTikTokHtml = (postId: string, username?: string, contentKind?: ContentKind): string => {
+  const cite = getTikTokPostUrl(postId, username, contentKind);
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
+  .tiktok-embed{margin:0 auto;width:100%;max-width:500px;}
+  </style></head><body>
+  <div class="wrap">
+    <blockquote class="tiktok-embed" cite="${cite}" data-video-id="${postId}" data-embed-from="oembed">
+      <section></section>
+    </blockquote>
+  </div>
+  <script async src="https://www.tiktok.com/embed.js"></script>
+  </body></html>`;
+};
+
+/** Fetches TikTok thumbnail via oEmbed API with fallback URL construction */
+const fetchTikTokThumbnail = async (embed: EmbedData): Promise<string | null> => {
+  const videoId = embed.postId!;
+  try {
+    if (embed.isShortUrl) {
+      // For short URLs, we can't use oEmbed API directly
+      // Return a placeholder or try to construct a generic thumbnail
+      console.log('🔄 Short TikTok URL detected, using placeholder');
+      return null; // Will fall back to the "TIKTOK" text display
+    }
+
+    // Try TikTok's oEmbed API first
+    const postUrl = getTikTokPostUrl(videoId, embed.username || 'username', embed.contentKind);
+    const oembedUrl = `https://www.tiktok.com/oembed?url=${postUrl}`;
+    const response = await fetch(oembedUrl);
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.thumbnail_url) {
+        console.log('✅ TikTok thumbnail from oEmbed:', data.thumbnail_url);
+        return data.thumbnail_url;
+      }
+    }
+
+    // Fallback: Try to construct thumbnail URL from video ID
+    // This is a common pattern for TikTok thumbnails
+    const fallbackUrl = `https://p16-sign-va.tiktokcdn-us.com/obj/tos-useast2a-p-0037-euttp/${videoId}_n.jpeg`;
+    console.log('🔄 Trying TikTok fallback thumbnail:', fallbackUrl);
+    return fallbackUrl;
+
+  } catch (error) {
+    console.log('❌ TikTok thumbnail fetch error:', error);
+    return null;
+  }
+};
+
+/** Parses TikTok URLs and extracts post ID, username and content kind */
+export const parseTikTokUrl = (url: string): {
+  postId: string;
+  username?: string;
+  contentKind?: ContentKind;
+  isShortUrl?: boolean;
+} | null => {
+  // TikTok URL patterns:
+  // https://www.tiktok.com/@username/video/POST_ID (full format)
+  // https://www.tiktok.com/@username/photo/POST_ID (photo slideshow)
+  // https://m.tiktok.com/v/POST_ID.html (mobile format, no username)
+  // https://vt.tiktok.com/SHORT_ID (shortened format)
+  // https://vm.tiktok.com/SHORT_ID (shortened format)
+  // https://www.tiktok.com/t/SHORT_ID (shortened format)
+  const fullTiktokRegex = /(?:https?:\/\/(?:www\.|m\.)?tiktok\.com\/@([^\/\?#]+)\/(video|photo)\/(\d+))/;
+  const mobileTiktokRegex = /(?:https?:\/\/m\.tiktok\.com\/v\/(\d+)(?:\.html)?)/;
+  const shortTiktokRegex = /(?:https?:\/\/(?:vt|vm)\.tiktok\.com\/([^\/\?#]+))/;
+  const shareTiktokRegex = /(?:https?:\/\/(?:www\.)?tiktok\.com\/t\/([^\/\?#]+))/;
+
+  const fullMatch = url.match(fullTiktokRegex);
+  if (fullMatch) {
+    const username = fullMatch[1];
+    const contentKind = fullMatch[2] as ContentKind;
+    const postId = fullMatch[3];
+    return { postId, username, contentKind };
+  }
+
+  const mobileMatch = url.match(mobileTiktokRegex);
+  if (mobileMatch) {
+    return { postId: mobileMatch[1], contentKind: 'video' };
+  }
+
+  const shortMatch = url.match(shortTiktokRegex) || url.match(shareTiktokRegex);
+  if (shortMatch) {
+    const shortId = shortMatch[1];
+    return { postId: shortId, isShortUrl: true };
+  }
+
+  return null;
+};
+
+/** Folds tiktok.com into www.tiktok.com; TikTok query strings are all share tracking (_t, _r, sender_device, ...) */
+const normalizeTikTokUrl = (parts: UrlParts): UrlParts | null => {
+  if (parts.host === 'tiktok.com' || parts.host === 'www.tiktok.com') {
+    return { ...parts, host: 'www.tiktok.com', query: [] };
+  }
+  return parts.host.endsWith('.tiktok.com') ? { ...parts, query: [] } : null;
+};
+
+export const tiktokProvider: EmbedProvider = {
+  type: 'tiktok',
+  displayName: 'TikTok',
+  color: '#000000',
+  filterIcon: '🎵',
+  tagStyle: {
+    backgroundColor: 'transparent',
+    borderColor: 'rgba(0, 242, 234, 0.4)',
+    gradient: ['rgba(0, 242, 234, 0.4)', 'rgba(0, 0, 0, 0.4)', 'rgba(255, 0, 80, 0.4)'],
+  },
+  baseUrl: 'https://www.tiktok.com',
+
+  normalizeUrl: normalizeTikTokUrl,
+
+  getCanonicalKey: (embed) => embed.isShortUrl ? `tiktok:short:${embed.postId}` : `tiktok:${embed.postId}`,
+
+  getTagLabel: (embed) => embed.contentKind === 'photo' ? 'TikTok Photo' : 'TikTok',
+
+  matchesUrl: (url) => parseTikTokUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const tiktokData = parseTikTokUrl(url);
+    if (!tiktokData) return null;
+
+    let finalUrl = url;
+    let finalPostId = tiktokData.postId;
+    let finalUsername = tiktokData.username;
+    let contentKind = tiktokData.contentKind;
+    let isShortUrl = tiktokData.isShortUrl;
+
+    // If it's a short URL, try to resolve it
+    if (tiktokData.isShortUrl) {
+      const resolvedUrl = await context.network.resolveShortUrl(url);
+      if (resolvedUrl) {
+        // Parse the resolved URL to get the full format data
+        const resolvedData = parseTikTokUrl(resolvedUrl);
+        if (resolvedData && !resolvedData.isShortUrl) {
+          finalUrl = canonicalizeUrl(resolvedUrl, normalizeTikTokUrl);
+          finalPostId = resolvedData.postId;
+          finalUsername = resolvedData.username;
+          contentKind = resolvedData.contentKind;
+          isShortUrl = false;
+          console.log('✅ Successfully resolved TikTok short URL to full format');
+        }
+      }
+    }
+
+    return {
+      id: `tiktok-${finalPostId}-${context.now()}`,
+      type: 'tiktok',
+      title: contentKind === 'photo' ? 'TikTok Photo' : 'TikTok Video',
+      subtitle: finalUsername ? `@${finalUsername}` : (isShortUrl ? 'Short URL' : finalPostId),
+      url: finalUrl,
+      postId: finalPostId,
+      username: finalUsername,
+      contentKind,
+      isShortUrl: isShortUrl,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: (embed) =>
+    embed.postId ? generateTikTokHtml(embed.postId, embed.username, embed.contentKind) : null,
+
+  // TikTok thumbnails need to be fetched dynamically
+  fetchThumbnailUrl: (embed) =>
+    embed.postId ? fetchTikTokThumbnail(embed) : Promise.resolve(null),
+};
@@ -0,0 +1,112 @@
+import { keepQueryParams } from '../canonical';
+import { fetchPageMetadata } from '../ingest/openGraph';
+import { EmbedData, EmbedProvider } from '../types';
+
+// Twitch refuses to play unless `parent` matches the embedding page's host,
+// so the player WebView is loaded with this host as its base URL
+const TWITCH_PARENT_HOST = 'localhost';
+
+/** Generates Twitch clip or VOD player HTML with the required parent parameter */
+const generateTwitchHtml = (embed: EmbedData): string | null => {
+  let embedUrl: string;
+  if (embed.videoId) {
+    embedUrl = `https://player.twitch.tv/?video=${embed.videoId}&parent=${TWITCH_PARENT_HOST}&autoplay=true`;
+  } else if (embed.postId) {
+    embedUrl = `https://clips.twitch.tv/embed?clip=${embed.postId}&parent=${TWITCH_PARENT_HOST}&autoplay=true`;
+  } else {
+    return null;
+  }
+
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;height:100%;} .wrap{position:fixed;inset:0;}
+  iframe{border:0;width:100%;height:100%;display:block}
+  </style></head><body>
+  <div class="wrap">
+    <iframe src="${embedUrl}" title="Twitch video player" allow="autoplay; fullscreen" allowfullscreen></iframe>
+  </div>
+  </body></html>`;
+};
+
+/** Parses Twitch clip and VOD URLs */
+export const parseTwitchUrl = (url: string): { clipSlug?: string; vodId?: string; channel?: string } | null => {
+  // Twitch URL patterns:
+  // https://clips.twitch.tv/CLIP_SLUG (clip)
+  // https://www.twitch.tv/CHANNEL/clip/CLIP_SLUG (clip)
+  // https://m.twitch.tv/CHANNEL/clip/CLIP_SLUG (clip)
+  // https://www.twitch.tv/videos/VOD_ID (VOD)
+  const clipsDomainRegex = /https?:\/\/clips\.twitch\.tv\/(?!embed)([A-Za-z0-9_-]+)/;
+  const channelClipRegex = /https?:\/\/(?:www\.|m\.)?twitch\.tv\/([^\/\?#]+)\/clip\/([A-Za-z0-9_-]+)/;
+  const vodRegex = /https?:\/\/(?:www\.|m\.)?twitch\.tv\/videos\/(\d+)/;
+
+  const clipsDomainMatch = url.match(clipsDomainRegex);
+  if (clipsDomainMatch) {
+    return { clipSlug: clipsDomainMatch[1] };
+  }
+
+  const channelClipMatch = url.match(channelClipRegex);
+  if (channelClipMatch) {
+    return { clipSlug: channelClipMatch[2], channel: channelClipMatch[1] };
+  }
+
+  const vodMatch = url.match(vodRegex);
+  if (vodMatch) {
+    return { vodId: vodMatch[1] };
+  }
+
+  return null;
+};
+
+export const twitchProvider: EmbedProvider = {
+  type: 'twitch',
+  displayName: 'Twitch',
+  color: '#9146FF',
+  filterIcon: '🎮',
+  tagStyle: {
+    backgroundColor: 'rgba(145, 70, 255, 0.4)',
+    borderColor: 'rgba(145, 70, 255, 0.7)',
+  },
+  baseUrl: `https://${TWITCH_PARENT_HOST}`,
+
+  normalizeUrl: (parts) => {
+    if (parts.host === 'clips.twitch.tv') return { ...parts, query: [] };
+    if (!/^(?:www\.|m\.)?twitch\.tv$/.test(parts.host)) return null;
+    return keepQueryParams({ ...parts, host: 'www.twitch.tv' }, ['t']);
+  },
+
+  getCanonicalKey: (embed) => embed.videoId ? `twitch:video:${embed.videoId}` : `twitch:clip:${embed.postId}`,
+
+  matchesUrl: (url) => parseTwitchUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const twitchData = parseTwitchUrl(url);
+    if (!twitchData) return null;
+
+    if (twitchData.vodId) {
+      return {
+        id: `twitch-${twitchData.vodId}-${context.now()}`,
+        type: 'twitch',
+        title: 'Twitch VOD',
+        subtitle: `Video ${twitchData.vodId}`,
+        url: `https://www.twitch.tv/videos/${twitchData.vodId}`,
+        videoId: twitchData.vodId,
+        createdAt: context.now()
+      };
+    }
+
+    return {
+      id: `twitch-${twitchData.clipSlug}-${context.now()}`,
+      type: 'twitch',
+      title: 'Twitch Clip',
+      subtitle: twitchData.channel ? twitchData.channel : twitchData.clipSlug!,
+      url: `https://clips.twitch.tv/${twitchData.clipSlug}`,
+      postId: twitchData.clipSlug,
+      username: twitchData.channel,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: generateTwitchHtml,
+
+  // Twitch has no unauthenticated thumbnail API; the public pages carry og:image
+  fetchThumbnailUrl: async (embed) => (await fetchPageMetadata(embed.url))?.image ?? null,
+};
@@ -0,0 +1,115 @@
+import { keepQueryParams } from '../canonical';
+import { EmbedData, EmbedProvider } from '../types';
+
+/** Builds the Vimeo player URL, including the hash needed for unlisted videos */
+const getVimeoPlayerUrl = (videoId: string, unlistedHash?: string): string => {
+  const hashParam = unlistedHash ? `h=${unlistedHash}&` : '';
+  return `https://player.vimeo.com/video/${videoId}?${hashParam}playsinline=1&title=0&byline=0`;
+};
+
+/** Generates Vimeo embed HTML with responsive iframe */
+const generateVimeoHtml = (videoId: string, unlistedHash?: string): string => {
+  const embedUrl = getVimeoPlayerUrl(videoId, unlistedHash);
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;height:100%;} .wrap{position:fixed;inset:0;}
+  iframe{border:0;width:100%;height:100%;display:block}
+  </style></head><body>
+  <div class="wrap">
+    <iframe src="${embedUrl}" title="Vimeo video player" allow="autoplay; fullscreen; picture-in-picture; clipboard-write" allowfullscreen></iframe>
+  </div>
+  </body></html>`;
+};
+
+/** Parses Vimeo URLs and extracts video ID and unlisted hash */
+export const parseVimeoUrl = (url: string): { videoId: string; unlistedHash?: string } | null => {
+  // Vimeo URL patterns:
+  // https://vimeo.com/VIDEO_ID
+  // https://vimeo.com/VIDEO_ID/HASH (unlisted)
+  // https://vimeo.com/channels/CHANNEL/VIDEO_ID
+  // https://vimeo.com/groups/GROUP/videos/VIDEO_ID
+  // https://player.vimeo.com/video/VIDEO_ID
+  // https://player.vimeo.com/video/VIDEO_ID?h=HASH (unlisted)
+  const playerRegex = /https?:\/\/player\.vimeo\.com\/video\/(\d+)/;
+  const pageRegex = /https?:\/\/(?:www\.)?vimeo\.com\/(?:channels\/[^\/]+\/|groups\/[^\/]+\/videos\/)?(\d+)(?:\/([0-9a-f]+))?(?:[\/?#]|$)/;
+
+  const match = url.match(playerRegex) || url.match(pageRegex);
+  if (!match) return null;
+
+  const videoId = match[1];
+  const hashParam = url.match(/[?&]h=([0-9a-f]+)/);
+  const unlistedHash = match[2] || (hashParam ? hashParam[1] : undefined);
+
+  return { videoId, unlistedHash };
+};
+
+/** Fetches Vimeo thumbnail via the oEmbed API */
+const fetchVimeoThumbnail = async (url: string): Promise<string | null> => {
+  try {
+    const oembedUrl = `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(url)}`;
+    const response = await fetch(oembedUrl);
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.thumbnail_url) {
+        console.log('✅ Vimeo thumbnail from oEmbed:', data.thumbnail_url);
+        return data.thumbnail_url;
+      }
+    }
+
+    console.log('❌ Vimeo oEmbed returned no thumbnail');
+    return null;
+
+  } catch (error) {
+    console.log('❌ Vimeo thumbnail fetch error:', error);
+    return null;
+  }
+};
+
+export const vimeoProvider: EmbedProvider = {
+  type: 'vimeo',
+  displayName: 'Vimeo',
+  color: '#1AB7EA',
+  filterIcon: '🎬',
+  tagStyle: {
+    backgroundColor: 'rgba(26, 183, 234, 0.4)',
+    borderColor: 'rgba(26, 183, 234, 0.6)',
+  },
+  baseUrl: 'https://vimeo.com',
+
+  normalizeUrl: (parts) => {
+    if (parts.host === 'www.vimeo.com' || parts.host === 'vimeo.com') {
+      return keepQueryParams({ ...parts, host: 'vimeo.com' }, ['h']);
+    }
+    return parts.host === 'player.vimeo.com' ? keepQueryParams(parts, ['h']) : null;
+  },
+
+  getCanonicalKey: (embed) => `vimeo:${embed.videoId}`,
+
+  matchesUrl: (url) => parseVimeoUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const vimeoData = parseVimeoUrl(url);
+    if (!vimeoData) return null;
+
+    // Store the canonical page URL so oEmbed lookups work for player links too
+    const cleanUrl = vimeoData.unlistedHash
+      ? `https://vimeo.com/${vimeoData.videoId}/${vimeoData.unlistedHash}`
+      : `https://vimeo.com/${vimeoData.videoId}`;
+
+    return {
+      id: `vimeo-${vimeoData.videoId}-${context.now()}`,
+      type: 'vimeo',
+      title: 'Vimeo Video',
+      subtitle: vimeoData.unlistedHash ? `Unlisted ${vimeoData.videoId}` : `Open ${vimeoData.videoId}`,
+      url: cleanUrl,
+      videoId: vimeoData.videoId,
+      unlistedHash: vimeoData.unlistedHash,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: (embed) => embed.videoId ? generateVimeoHtml(embed.videoId, embed.unlistedHash) : null,
+
+  // Vimeo thumbnails are only available through oEmbed
+  fetchThumbnailUrl: (embed) => fetchVimeoThumbnail(embed.url),
+};
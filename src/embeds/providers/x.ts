@@ -0,0 +1,78 @@
+import { EmbedData, EmbedProvider } from '../types';
+
+/** Generates X post embed HTML using the official widgets script */
+const generateXHtml = (postId: string, username?: string): string => {
+  // The widgets script only needs the status ID; "i" is X's placeholder user
+  const permalink = `https://twitter.com/${username || 'i'}/status/${postId}`;
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;} .wrap{display:flex;align-items:center;justify-content:center;min-height:100vh;}
+  .twitter-tweet{margin:0 auto !important;}
+  </style></head><body>
+  <div class="wrap">
+    <blockquote class="twitter-tweet" data-theme="dark" data-dnt="true"><a href="${permalink}"></a></blockquote>
+  </div>
+  <script async src="https://platform.twitter.com/widgets.js" charset="utf-8"></script>
+  </body></html>`;
+};
+
+/** Parses X / Twitter status URLs and extracts status ID and username */
+export const parseXUrl = (url: string): { postId: string; username?: string } | null => {
+  // X URL patterns:
+  // https://x.com/USERNAME/status/STATUS_ID
+  // https://twitter.com/USERNAME/status/STATUS_ID
+  // https://mobile.twitter.com/USERNAME/status/STATUS_ID
+  // https://x.com/USERNAME/status/STATUS_ID/video/1
+  // https://x.com/i/status/STATUS_ID (no author)
+  const xRegex = /https?:\/\/(?:www\.|mobile\.)?(?:x|twitter)\.com\/([^\/\?#]+)\/status(?:es)?\/(\d+)/;
+  const match = url.match(xRegex);
+
+  if (match) {
+    const username = match[1] === 'i' ? undefined : match[1];
+    const postId = match[2];
+    return { postId, username };
+  }
+
+  return null;
+};
+
+export const xProvider: EmbedProvider = {
+  type: 'x',
+  displayName: 'X',
+  color: '#FFFFFF',
+  filterIcon: '𝕏',
+  tagStyle: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  baseUrl: 'https://twitter.com',
+
+  // Drops ?s= / ?t= share tracking and folds twitter.com hosts into x.com
+  normalizeUrl: (parts) => {
+    if (!/^(?:www\.|mobile\.)?(?:x|twitter)\.com$/.test(parts.host)) return null;
+    return { ...parts, host: 'x.com', query: [] };
+  },
+
+  getCanonicalKey: (embed) => `x:${embed.postId}`,
+
+  matchesUrl: (url) => parseXUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const xData = parseXUrl(url);
+    if (!xData) return null;
+
+    return {
+      id: `x-${xData.postId}-${context.now()}`,
+      type: 'x',
+      title: 'X Post',
+      subtitle: xData.username ? `@${xData.username}` : xData.postId,
+      url: xData.username
+        ? `https://x.com/${xData.username}/status/${xData.postId}`
+        : `https://x.com/i/status/${xData.postId}`,
+      postId: xData.postId,
+      username: xData.username,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: (embed) => embed.postId ? generateXHtml(embed.postId, embed.username) : null,
+};
@@ -0,0 +1,112 @@
+import { keepQueryParams } from '../canonical';
+import { EmbedData, EmbedProvider } from '../types';
+import { parseTimestamp } from '../timestamps';
+import { getQueryParam, splitUrl, UrlParts } from '../url';
+
+const YOUTUBE_HOSTS = /^(?:www\.|m\.|music\.)?youtube\.com$/;
+const YOUTUBE_PARAMS = ['v', 't', 'start', 'list'];
+
+/** Generates YouTube embed HTML with responsive iframe */
+const generateYouTubeHtml = (videoId: string, startSeconds?: number): string => {
+  const startParam = startSeconds ? `start=${startSeconds}&` : '';
+  const embedUrl = `https://www.youtube.com/embed/${videoId}?${startParam}playsinline=1&modestbranding=1&rel=0`;
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1" />
+  <style>html,body{margin:0;padding:0;background:#000;height:100%;} .wrap{position:fixed;inset:0;}
+  iframe{border:0;width:100%;height:100%;display:block}
+  </style></head><body>
+  <div class="wrap">
+    <iframe src="${embedUrl}" title="YouTube video player" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" allowfullscreen></iframe>
+  </div>
+  </body></html>`;
+};
+
+/** Reads the start time from ?t=, ?start= or #t= (seconds, 1m30s or 1h2m3s) */
+const parseYouTubeStartTime = (url: string): number | undefined => {
+  const parts = splitUrl(url);
+  if (!parts) return undefined;
+
+  const hashMatch = parts.hash.match(/(?:^|&)t=([^&]+)/);
+  const startSeconds = parseTimestamp(getQueryParam(parts, 't'))
+    ?? parseTimestamp(getQueryParam(parts, 'start'))
+    ?? parseTimestamp(hashMatch ? hashMatch[1] : undefined);
+
+  return startSeconds ? startSeconds : undefined;
+};
+
+/** Parses YouTube URLs and extracts video ID and start time */
+export const parseYouTubeUrl = (url: string): { videoId: string; startSeconds?: number } | null => {
+  // YouTube URL patterns:
+  // https://www.youtube.com/watch?v=VIDEO_ID
+  // https://youtu.be/VIDEO_ID
+  // https://youtube.com/shorts/VIDEO_ID (YouTube Shorts)
+  // https://www.youtube.com/shorts/VIDEO_ID (YouTube Shorts)
+  const youtubeRegex = /(?:https?:\/\/(?:www\.)?youtube\.com\/(?:watch\?v=|shorts\/)|https?:\/\/youtu\.be\/)([^&\n?#]+)/;
+  const match = url.match(youtubeRegex);
+
+  if (match) {
+    return { videoId: match[1], startSeconds: parseYouTubeStartTime(url) };
+  }
+
+  return null;
+};
+
+/** Maps youtu.be, m./music. hosts and embed/live paths onto www.youtube.com/watch?v= */
+const normalizeYouTubeUrl = (parts: UrlParts): UrlParts | null => {
+  if (parts.host === 'youtu.be') {
+    const videoId = parts.path.split('/')[1];
+    if (!videoId) return null;
+    return keepQueryParams(
+      { ...parts, host: 'www.youtube.com', path: '/watch', query: [['v', videoId], ...parts.query] },
+      YOUTUBE_PARAMS
+    );
+  }
+
+  if (!YOUTUBE_HOSTS.test(parts.host)) return null;
+
+  const playerPathMatch = parts.path.match(/^\/(?:embed|live|v)\/([^\/]+)/);
+  const normalized: UrlParts = playerPathMatch
+    ? { ...parts, path: '/watch', query: [['v', playerPathMatch[1]], ...parts.query] }
+    : parts;
+  return keepQueryParams({ ...normalized, host: 'www.youtube.com' }, YOUTUBE_PARAMS);
+};
+
+export const youtubeProvider: EmbedProvider = {
+  type: 'youtube',
+  displayName: 'YouTube',
+  color: '#FF0000',
+  filterIcon: '📺',
+  tagStyle: {
+    backgroundColor: 'rgba(204, 0, 0, 0.4)',
+    borderColor: 'rgba(255, 0, 0, 0.4)',
+  },
+  supportsStartTime: true,
+  baseUrl: 'https://www.youtube.com',
+
+  normalizeUrl: normalizeYouTubeUrl,
+
+  getCanonicalKey: (embed) => `youtube:${embed.videoId}`,
+
+  matchesUrl: (url) => parseYouTubeUrl(url) !== null,
+
+  createEmbed: async (url: string, context): Promise<EmbedData | null> => {
+    const youtubeData = parseYouTubeUrl(url);
+    if (!youtubeData) return null;
+
+    const isShorts = url.includes('/shorts/');
+    return {
+      id: `youtube-${youtubeData.videoId}-${context.now()}`,
+      type: 'youtube',
+      title: isShorts ? 'YouTube Short' : 'YouTube Video',
+      subtitle: `Open ${youtubeData.videoId}`,
+      url: url,
+      videoId: youtubeData.videoId,
+      startSeconds: youtubeData.startSeconds,
+      createdAt: context.now()
+    };
+  },
+
+  generateHtml: (embed) => embed.videoId ? generateYouTubeHtml(embed.videoId, embed.startSeconds) : null,
+
+  getThumbnailUrl: (embed) =>
+    embed.videoId ? `https://img.youtube.com/vi/${embed.videoId}/hqdefault.jpg` : null,
+};
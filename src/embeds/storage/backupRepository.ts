@@ -0,0 +1,125 @@
+/**
+ * Backup repository - archive snapshots, each a small database file of its
+ * own in the rack's backup folder, so losing or damaging the rack's database
+ * doesn't take its backups with it. They're encrypted with the racks' key
+ * whenever the library is. Snapshots are keyed by the time they were taken,
+ * which is in the file name along with the reason.
+ */
+import * as FileSystem from 'expo-file-system';
+import { getActiveRackId, getBackupDirectory, openBackupDatabase } from './database';
+
+/** A stored snapshot without its archive, which is only read to restore it */
+export interface BackupRecord {
+  createdAt: number;
+  reason: string;
+  clipCount: number;
+  categoryCount: number;
+}
+
+interface BackupRow {
+  created_at: number;
+  reason: string;
+  clip_count: number;
+  category_count: number;
+}
+
+// e.g. "backup-1700000000000-before-import.db"
+const BACKUP_FILE_NAME = /^backup-(\d+)-([a-z-]+)\.db$/;
+
+const BACKUP_TABLE = `CREATE TABLE backup (
+  created_at INTEGER PRIMARY KEY NOT NULL,
+  reason TEXT NOT NULL,
+  clip_count INTEGER NOT NULL,
+  category_count INTEGER NOT NULL,
+  archive TEXT NOT NULL
+)`;
+
+const toRecord = (row: BackupRow): BackupRecord => ({
+  createdAt: row.created_at,
+  reason: row.reason,
+  clipCount: row.clip_count,
+  categoryCount: row.category_count,
+});
+
+const requireBackupDirectory = (): string => {
+  const directory = getBackupDirectory(getActiveRackId());
+  if (!directory) {
+    throw new Error('Backups are not available on this device.');
+  }
+  return directory;
+};
+
+/** Lists the open rack's backup files, newest first */
+const getBackupFiles = async (): Promise<{ uri: string; createdAt: number }[]> => {
+  const directory = getBackupDirectory(getActiveRackId());
+  if (!directory || !(await FileSystem.getInfoAsync(directory)).exists) return [];
+
+  return (await FileSystem.readDirectoryAsync(directory))
+    .flatMap(name => {
+      const match = name.match(BACKUP_FILE_NAME);
+      return match ? [{ uri: `${directory}${name}`, createdAt: Number(match[1]) }] : [];
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/** Saves a snapshot; one taken at the same moment as another replaces it */
+export const insertBackup = async (record: BackupRecord, archive: string): Promise<void> => {
+  const directory = requireBackupDirectory();
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  for (const file of await getBackupFiles()) {
+    if (file.createdAt === record.createdAt) await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  }
+
+  const db = await openBackupDatabase(`${directory}backup-${record.createdAt}-${record.reason}.db`);
+  try {
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.execAsync(BACKUP_TABLE);
+      await txn.runAsync(
+        'INSERT INTO backup (created_at, reason, clip_count, category_count, archive) VALUES (?, ?, ?, ?, ?)',
+        [record.createdAt, record.reason, record.clipCount, record.categoryCount, archive]
+      );
+    });
+  } finally {
+    await db.closeAsync();
+  }
+};
+
+/** Lists the stored snapshots, newest first; a file that can't be read is left out */
+export const getBackupRecords = async (): Promise<BackupRecord[]> => {
+  const records: BackupRecord[] = [];
+  for (const file of await getBackupFiles()) {
+    try {
+      const db = await openBackupDatabase(file.uri);
+      try {
+        const row = await db.getFirstAsync<BackupRow>('SELECT created_at, reason, clip_count, category_count FROM backup');
+        if (row) records.push(toRecord(row));
+      } finally {
+        await db.closeAsync();
+      }
+    } catch (error) {
+      console.error('Failed to read backup:', file.uri, error);
+    }
+  }
+  return records;
+};
+
+/** Returns a snapshot's archive JSON, or null if it's gone */
+export const getBackupArchive = async (createdAt: number): Promise<string | null> => {
+  const file = (await getBackupFiles()).find(candidate => candidate.createdAt === createdAt);
+  if (!file) return null;
+
+  const db = await openBackupDatabase(file.uri);
+  try {
+    const row = await db.getFirstAsync<{ archive: string }>('SELECT archive FROM backup');
+    return row?.archive ?? null;
+  } finally {
+    await db.closeAsync();
+  }
+};
+
+/** Deletes every snapshot but the newest `limit` */
+export const deleteOldBackups = async (limit: number): Promise<void> => {
+  for (const file of (await getBackupFiles()).slice(limit)) {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  }
+};
@@ -0,0 +1,443 @@
+/**
+ * Clip repository - the only way screens read and write the library.
+ *
+ * Queries are paged and filtered in SQLite, so the screen never has to hold
+ * (or re-sort) the whole library. Every write is a single transaction that
+ * touches only the rows it changes. Deleting moves rows to the trash; only
+ * the purge functions remove them, leaving a tombstone for sync. Every write
+ * stamps `updated_at` with the time the caller passes.
+ */
+import { SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+import { getCanonicalKey } from '../ingest';
+import { Category, EmbedData, PlatformType } from '../types';
+import { getActiveRackId, getDatabase, getRackDatabase, writeClip } from './database';
+import { StoredLibrary } from './migrations';
+
+export type ClipSort = 'newest' | 'oldest' | 'title';
+
+export interface ClipQuery {
+  platforms?: PlatformType[]; // all platforms when omitted
+  categoryId?: string | null;
+  hiddenCategoryIds?: string[]; // clips filed under any of these are left out
+  sort?: ClipSort;
+  limit?: number;
+  offset?: number;
+}
+
+interface ClipRow {
+  data: string;
+  categories: string; // JSON array built by json_group_array
+}
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  created_at: number;
+}
+
+/** A clip in the trash, with the categories it will have again once restored */
+export interface TrashedClip {
+  clip: EmbedData;
+  deletedAt: number;
+}
+
+export interface TrashedCategory {
+  category: Category;
+  deletedAt: number;
+  clipCount: number; // saved clips still linked to it
+}
+
+// A clip's categories, leaving out trashed ones
+const CLIP_CATEGORIES = `(SELECT json_group_array(cc.category_id) FROM clip_categories cc
+  JOIN categories k ON k.id = cc.category_id AND k.deleted_at IS NULL
+  WHERE cc.clip_id = c.id) AS categories`;
+
+const ORDER_BY: Record<ClipSort, string> = {
+  newest: 'c.created_at DESC, c.id',
+  oldest: 'c.created_at ASC, c.id',
+  title: 'c.title COLLATE NOCASE ASC, c.created_at DESC',
+};
+
+/** Builds the WHERE clause shared by clip queries and counts */
+const buildClipFilter = (query: ClipQuery): { where: string; params: SQLiteBindValue[] } => {
+  const conditions: string[] = ['c.deleted_at IS NULL'];
+  const params: SQLiteBindValue[] = [];
+
+  if (query.platforms) {
+    conditions.push(`c.type IN (${query.platforms.map(() => '?').join(', ') || 'NULL'})`);
+    params.push(...query.platforms);
+  }
+  if (query.categoryId) {
+    conditions.push('EXISTS (SELECT 1 FROM clip_categories cc WHERE cc.clip_id = c.id AND cc.category_id = ?)');
+    params.push(query.categoryId);
+  }
+  if (query.hiddenCategoryIds?.length) {
+    conditions.push(
+      `NOT EXISTS (SELECT 1 FROM clip_categories cc WHERE cc.clip_id = c.id AND cc.category_id IN (${query.hiddenCategoryIds.map(() => '?').join(', ')}))`
+    );
+    params.push(...query.hiddenCategoryIds);
+  }
+
+  return { where: `WHERE ${conditions.join(' AND ')}`, params };
+};
+
+const toEmbed = (row: ClipRow): EmbedData => ({
+  ...JSON.parse(row.data),
+  categories: JSON.parse(row.categories),
+});
+
+const toCategory = (row: CategoryRow): Category => ({
+  id: row.id,
+  name: row.name,
+  color: row.color,
+  createdAt: row.created_at,
+});
+
+/** Returns one page of clips matching the query */
+export const queryClips = async (query: ClipQuery = {}): Promise<EmbedData[]> => {
+  const db = await getDatabase();
+  const { where, params } = buildClipFilter(query);
+  const rows = await db.getAllAsync<ClipRow>(
+    `SELECT c.data, ${CLIP_CATEGORIES}
+    FROM clips c ${where}
+    ORDER BY ${ORDER_BY[query.sort ?? 'newest']}
+    LIMIT ? OFFSET ?`,
+    [...params, query.limit ?? -1, query.offset ?? 0]
+  );
+  return rows.map(toEmbed);
+};
+
+/** Returns one clip by ID, or null if it no longer exists */
+export const getClip = async (clipId: string): Promise<EmbedData | null> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<ClipRow>(
+    `SELECT c.data, ${CLIP_CATEGORIES} FROM clips c WHERE c.id = ? AND c.deleted_at IS NULL`,
+    [clipId]
+  );
+  return row ? toEmbed(row) : null;
+};
+
+/** Counts the clips matching the query, ignoring paging */
+export const countClips = async (query: ClipQuery = {}): Promise<number> => {
+  const db = await getDatabase();
+  const { where, params } = buildClipFilter(query);
+  const row = await db.getFirstAsync<{ total: number }>(`SELECT COUNT(*) AS total FROM clips c ${where}`, params);
+  return row?.total ?? 0;
+};
+
+/** Returns how many saved clips each category, trashed or not, holds, leaving out clips filed under a hidden category */
+export const countClipsByCategory = async (hiddenCategoryIds: string[] = []): Promise<Record<string, number>> => {
+  const db = await getDatabase();
+  const { where, params } = buildClipFilter({ hiddenCategoryIds });
+  const rows = await db.getAllAsync<{ category_id: string; total: number }>(
+    `SELECT cc.category_id, COUNT(*) AS total FROM clip_categories cc
+    JOIN clips c ON c.id = cc.clip_id
+    ${where}
+    GROUP BY cc.category_id`,
+    params
+  );
+  return Object.fromEntries(rows.map(row => [row.category_id, row.total]));
+};
+
+/** Returns the ID of the most recently added clip that isn't filed under a hidden category */
+export const getNewestClipId = async (hiddenCategoryIds: string[] = []): Promise<string | null> => {
+  const db = await getDatabase();
+  const { where, params } = buildClipFilter({ hiddenCategoryIds });
+  const row = await db.getFirstAsync<{ id: string }>(`SELECT c.id FROM clips c ${where} ORDER BY c.created_at DESC LIMIT 1`, params);
+  return row?.id ?? null;
+};
+
+/**
+ * Returns the canonical key of every saved clip in a rack (the active one by
+ * default), for duplicate detection, leaving out clips filed under any of
+ * `hiddenCategoryIds`; trashed clips can be saved again
+ */
+export const getCanonicalKeys = async (rackId = getActiveRackId(), hiddenCategoryIds: string[] = []): Promise<Set<string>> => {
+  const db = await getRackDatabase(rackId);
+  const { where, params } = buildClipFilter({ hiddenCategoryIds });
+  const rows = await db.getAllAsync<{ canonical_key: string }>(`SELECT c.canonical_key FROM clips c ${where}`, params);
+  return new Set(rows.map(row => row.canonical_key));
+};
+
+/** Inserts new clips (or replaces ones with the same ID) */
+export const insertClips = async (embeds: EmbedData[]): Promise<void> => {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const embed of embeds) {
+      await writeClip(txn, embed);
+    }
+  });
+};
+
+/** Saves a clip's edited fields and categories */
+export const updateClip = async (embed: EmbedData): Promise<void> => {
+  await insertClips([embed]);
+};
+
+/** Moves a clip to the trash, in the active rack unless another is named */
+export const trashClip = async (clipId: string, deletedAt: number, rackId = getActiveRackId()): Promise<void> => {
+  const db = await getRackDatabase(rackId);
+  await db.runAsync(
+    'UPDATE clips SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [deletedAt, deletedAt, clipId]
+  );
+};
+
+/**
+ * Restores a trashed clip with its category links. If the same clip was saved
+ * again meanwhile, the saved copy gains the trashed one's categories instead.
+ * Works in the active rack unless another is named.
+ */
+export const restoreClip = async (clipId: string, restoredAt: number, rackId = getActiveRackId()): Promise<void> => {
+  const db = await getRackDatabase(rackId);
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const trashed = await txn.getFirstAsync<{ canonical_key: string }>(
+      'SELECT canonical_key FROM clips WHERE id = ? AND deleted_at IS NOT NULL',
+      [clipId]
+    );
+    if (!trashed) return;
+
+    const saved = await txn.getFirstAsync<{ id: string }>(
+      'SELECT id FROM clips WHERE canonical_key = ? AND deleted_at IS NULL',
+      [trashed.canonical_key]
+    );
+    if (!saved) {
+      await txn.runAsync('UPDATE clips SET deleted_at = NULL, updated_at = ? WHERE id = ?', [restoredAt, clipId]);
+      return;
+    }
+    await txn.runAsync(
+      'INSERT OR IGNORE INTO clip_categories (clip_id, category_id) SELECT ?, category_id FROM clip_categories WHERE clip_id = ?',
+      [saved.id, clipId]
+    );
+    await txn.runAsync('UPDATE clips SET updated_at = ? WHERE id = ?', [restoredAt, saved.id]);
+    await txn.runAsync('DELETE FROM clips WHERE id = ?', [clipId]);
+    await writeTombstone(txn, 'clip', clipId, restoredAt);
+  });
+};
+
+export const getCategories = async (): Promise<Category[]> => {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<CategoryRow>(
+    'SELECT id, name, color, created_at FROM categories WHERE deleted_at IS NULL ORDER BY created_at, rowid'
+  );
+  return rows.map(toCategory);
+};
+
+export const insertCategory = async (category: Category): Promise<void> => {
+  const db = await getDatabase();
+  await db.runAsync(
+    'INSERT INTO categories (id, name, color, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+    [category.id, category.name, category.color, category.createdAt, category.updatedAt ?? category.createdAt]
+  );
+};
+
+export const renameCategory = async (categoryId: string, name: string, renamedAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.runAsync('UPDATE categories SET name = ?, updated_at = ? WHERE id = ?', [name, renamedAt, categoryId]);
+};
+
+/** Returns every clip and category, for exports */
+export const getLibrary = async (): Promise<StoredLibrary> => {
+  const [embeds, categories] = await Promise.all([queryClips({ sort: 'oldest' }), getCategories()]);
+  return { embeds, categories };
+};
+
+/** Inserts or updates a category row, bringing it back if it was in the trash */
+export const writeCategory = async (txn: SQLiteDatabase, category: Category): Promise<void> => {
+  await txn.runAsync(
+    `INSERT INTO categories (id, name, color, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET name = excluded.name, color = excluded.color,
+      updated_at = excluded.updated_at, deleted_at = NULL`,
+    [category.id, category.name, category.color, category.createdAt, category.updatedAt ?? category.createdAt]
+  );
+  await txn.runAsync("DELETE FROM tombstones WHERE kind = 'category' AND id = ?", [category.id]);
+};
+
+/** Remembers that a row was deleted for good, so sync can tell other devices */
+export const writeTombstone = async (
+  txn: SQLiteDatabase,
+  kind: 'clip' | 'category',
+  id: string,
+  deletedAt: number
+): Promise<void> => {
+  await txn.runAsync(
+    'INSERT INTO tombstones (kind, id, deleted_at) VALUES (?, ?, ?) ON CONFLICT (kind, id) DO UPDATE SET deleted_at = excluded.deleted_at',
+    [kind, id, deletedAt]
+  );
+};
+
+/**
+ * Inserts categories and writes clips in one transaction, so an import lands
+ * whole or not at all. A category whose ID is in the trash is restored.
+ */
+export const importLibrary = async (library: StoredLibrary): Promise<void> => {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const category of library.categories) {
+      await writeCategory(txn, category);
+    }
+    for (const embed of library.embeds) {
+      await writeClip(txn, embed);
+    }
+  });
+};
+
+/**
+ * Makes the library match a snapshot in one transaction. Clips and categories
+ * the snapshot doesn't have move to the trash rather than being lost.
+ */
+export const replaceLibrary = async (library: StoredLibrary, deletedAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    // Everything is trashed first; writing the snapshot brings back what it holds
+    await txn.runAsync('UPDATE categories SET deleted_at = ?, updated_at = ? WHERE deleted_at IS NULL', [deletedAt, deletedAt]);
+    await txn.runAsync('UPDATE clips SET deleted_at = ?, updated_at = ? WHERE deleted_at IS NULL', [deletedAt, deletedAt]);
+    for (const category of library.categories) {
+      await writeCategory(txn, category);
+    }
+    for (const embed of library.embeds) {
+      await writeClip(txn, embed);
+    }
+  });
+};
+
+/**
+ * Copies clips into another rack in one transaction, skipping any that rack
+ * already has. Their categories become the rack's categories of the same
+ * name, created there if it has none. Resolves to the clips copied.
+ */
+export const copyClipsToRack = async (
+  embeds: EmbedData[],
+  categories: Category[],
+  rackId: string,
+  copiedAt: number
+): Promise<EmbedData[]> => {
+  const db = await getRackDatabase(rackId);
+  const copied: EmbedData[] = [];
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const keyRows = await txn.getAllAsync<{ canonical_key: string }>('SELECT canonical_key FROM clips WHERE deleted_at IS NULL');
+    const keys = new Set(keyRows.map(row => row.canonical_key));
+    const categoryRows = await txn.getAllAsync<CategoryRow>(
+      'SELECT id, name, color, created_at FROM categories WHERE deleted_at IS NULL'
+    );
+    const targetIds = new Map(categoryRows.map(row => [row.name.toLowerCase(), row.id]));
+
+    for (const embed of embeds) {
+      const key = getCanonicalKey(embed);
+      if (keys.has(key)) continue;
+      keys.add(key);
+
+      const categoryIds: string[] = [];
+      for (const category of categories.filter(c => embed.categories?.includes(c.id))) {
+        let targetId = targetIds.get(category.name.toLowerCase());
+        if (!targetId) {
+          targetId = `category-${copiedAt}-${targetIds.size}`;
+          await writeCategory(txn, { ...category, id: targetId, createdAt: copiedAt, updatedAt: copiedAt });
+          targetIds.set(category.name.toLowerCase(), targetId);
+        }
+        categoryIds.push(targetId);
+      }
+
+      const copy: EmbedData = {
+        ...embed,
+        categories: categoryIds,
+        categoryStamps: categoryIds.length > 0 ? Object.fromEntries(categoryIds.map(id => [id, copiedAt])) : undefined,
+        updatedAt: copiedAt,
+      };
+      await writeClip(txn, copy);
+      copied.push(copy);
+    }
+  });
+  return copied;
+};
+
+/** Moves a category to the trash; its clips drop it until it's restored */
+export const trashCategory = async (categoryId: string, deletedAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.runAsync(
+    'UPDATE categories SET deleted_at = ?, updated_at = ? WHERE id = ? AND deleted_at IS NULL',
+    [deletedAt, deletedAt, categoryId]
+  );
+};
+
+export const restoreCategory = async (categoryId: string, restoredAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.runAsync(
+    'UPDATE categories SET deleted_at = NULL, updated_at = ? WHERE id = ? AND deleted_at IS NOT NULL',
+    [restoredAt, categoryId]
+  );
+};
+
+/** Returns everything in the trash, most recently deleted first */
+export const getTrash = async (): Promise<{ clips: TrashedClip[]; categories: TrashedCategory[] }> => {
+  const db = await getDatabase();
+  const [clipRows, categoryRows, counts] = await Promise.all([
+    db.getAllAsync<ClipRow & { deleted_at: number }>(
+      `SELECT c.data, ${CLIP_CATEGORIES}, c.deleted_at FROM clips c
+      WHERE c.deleted_at IS NOT NULL ORDER BY c.deleted_at DESC`
+    ),
+    db.getAllAsync<CategoryRow & { deleted_at: number }>(
+      'SELECT id, name, color, created_at, deleted_at FROM categories WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+    ),
+    countClipsByCategory(),
+  ]);
+
+  return {
+    clips: clipRows.map(row => ({ clip: toEmbed(row), deletedAt: row.deleted_at })),
+    categories: categoryRows.map(row => ({
+      category: toCategory(row),
+      deletedAt: row.deleted_at,
+      clipCount: counts[row.id] ?? 0,
+    })),
+  };
+};
+
+export const countTrash = async (): Promise<number> => {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ total: number }>(
+    `SELECT (SELECT COUNT(*) FROM clips WHERE deleted_at IS NOT NULL)
+      + (SELECT COUNT(*) FROM categories WHERE deleted_at IS NOT NULL) AS total`
+  );
+  return row?.total ?? 0;
+};
+
+/** Permanently deletes one trashed clip */
+export const purgeClip = async (clipId: string, purgedAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const { changes } = await txn.runAsync('DELETE FROM clips WHERE id = ? AND deleted_at IS NOT NULL', [clipId]);
+    if (changes > 0) await writeTombstone(txn, 'clip', clipId, purgedAt);
+  });
+};
+
+/** Permanently deletes one trashed category; its clip links go with it */
+export const purgeCategory = async (categoryId: string, purgedAt: number): Promise<void> => {
+  const db = await getDatabase();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    const { changes } = await txn.runAsync('DELETE FROM categories WHERE id = ? AND deleted_at IS NOT NULL', [categoryId]);
+    if (changes > 0) await writeTombstone(txn, 'category', categoryId, purgedAt);
+  });
+};
+
+/** Permanently deletes everything trashed before `deletedBefore`; returns how many rows went */
+export const purgeTrash = async (deletedBefore: number, purgedAt: number): Promise<number> => {
+  const db = await getDatabase();
+  let purged = 0;
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await txn.runAsync(
+      `INSERT INTO tombstones (kind, id, deleted_at) SELECT 'clip', id, ? FROM clips WHERE deleted_at < ?
+      ON CONFLICT (kind, id) DO UPDATE SET deleted_at = excluded.deleted_at`,
+      [purgedAt, deletedBefore]
+    );
+    await txn.runAsync(
+      `INSERT INTO tombstones (kind, id, deleted_at) SELECT 'category', id, ? FROM categories WHERE deleted_at < ?
+      ON CONFLICT (kind, id) DO UPDATE SET deleted_at = excluded.deleted_at`,
+      [purgedAt, deletedBefore]
+    );
+    const clips = await txn.runAsync('DELETE FROM clips WHERE deleted_at < ?', [deletedBefore]);
+    const categories = await txn.runAsync('DELETE FROM categories WHERE deleted_at < ?', [deletedBefore]);
+    purged = clips.changes + categories.changes;
+  });
+  return purged;
+};
@@ -0,0 +1,502 @@
+/**
+ * SQLite library databases - clips, categories and the clip-category join.
+ *
+ * Each rack is its own database file, so racks share nothing but the schema;
+ * repositories work on the active rack's. A rack's backups are database files
+ * of their own in the document directory, so they outlive a lost or damaged
+ * rack database. Schema changes are ordered steps tracked with
+ * `PRAGMA user_version`; append a step to change the schema, never edit one
+ * that has shipped. The first open of the default rack also imports the
+ * legacy AsyncStorage library.
+ *
+ * With a passcode set, every database and backup is encrypted with SQLCipher
+ * using a random key that's only stored wrapped under the passcode; opens
+ * wait until the lock screen has unwrapped it. Turning encryption on or off
+ * is recorded in the secure store before any file changes, then rewrites
+ * each database and backup to a copy and swaps the copies in, keeping the
+ * originals until the new wrapped key is saved. A failure, or a crash on a
+ * later launch's settle, rolls every file back to the old key unless the new
+ * one was already saved, in which case the change is finished instead.
+ */
+import * as FileSystem from 'expo-file-system';
+import * as SQLite from 'expo-sqlite';
+import { getCanonicalKey } from '../ingest';
+import { EmbedData } from '../types';
+import { loadLegacyLibrary } from './legacyStorage';
+import {
+  createDatabaseKey,
+  getPendingKeyChange,
+  getWrappedKey,
+  hasPasscode,
+  PendingKeyChange,
+  setPendingKeyChange,
+  storeWrappedKey,
+  wrapDatabaseKey,
+} from './passcode';
+
+const DATABASE_NAME = 'cliprack.db';
+
+/** The rack every install starts with; its database is the original library file */
+export const DEFAULT_RACK_ID = 'default';
+
+const SCHEMA_STEPS: string[] = [
+  // 1: clips keep their full JSON in `data`; the other columns exist to be indexed
+  `CREATE TABLE clips (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    canonical_key TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX clips_created_at ON clips (created_at);
+  CREATE INDEX clips_type_created_at ON clips (type, created_at);
+  CREATE INDEX clips_canonical_key ON clips (canonical_key);
+  CREATE TABLE categories (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    color TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE clip_categories (
+    clip_id TEXT NOT NULL REFERENCES clips (id) ON DELETE CASCADE,
+    category_id TEXT NOT NULL REFERENCES categories (id) ON DELETE CASCADE,
+    PRIMARY KEY (clip_id, category_id)
+  );
+  CREATE INDEX clip_categories_category ON clip_categories (category_id, clip_id);
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );`,
+  // 2: soft deletes - trashed rows keep their links until they're purged
+  `ALTER TABLE clips ADD COLUMN deleted_at INTEGER;
+  ALTER TABLE categories ADD COLUMN deleted_at INTEGER;
+  CREATE INDEX clips_deleted_at ON clips (deleted_at);`,
+  // 3: sync - when each row last changed, and tombstones for purged rows other devices still have
+  `ALTER TABLE clips ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE categories ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+  UPDATE clips SET updated_at = MAX(created_at, COALESCE(deleted_at, 0));
+  UPDATE categories SET updated_at = MAX(created_at, COALESCE(deleted_at, 0));
+  CREATE INDEX clips_updated_at ON clips (updated_at);
+  CREATE TABLE tombstones (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    deleted_at INTEGER NOT NULL,
+    PRIMARY KEY (kind, id)
+  );`,
+];
+
+const LEGACY_IMPORTED_KEY = 'legacy_async_storage_imported';
+
+// Every repository call waits on the same open, so nothing runs before the import
+const databasePromises = new Map<string, Promise<SQLite.SQLiteDatabase>>();
+
+let activeRackId = DEFAULT_RACK_ID;
+
+// The key databases are opened with; null until the lock screen lets it out
+let databaseKey: string | null = null;
+
+// Opens waiting for the passcode
+let keyWaiters: ((key: string) => void)[] = [];
+
+// A database rewritten under a new key, waiting to replace the original
+const REKEYED_SUFFIX = '.rekeyed';
+
+// The original a rewritten copy replaced, kept until the new key is saved
+const ORIGINAL_SUFFIX = '.original';
+
+// Settles a key change an earlier launch left unfinished; runs once, before anything opens
+let keyChangeSettled: Promise<void> | null = null;
+
+// Set while rewritten copies are being swapped in, so nothing opens a database half way
+let databaseSwap: Promise<void> | null = null;
+
+const getDatabaseName = (rackId: string): string =>
+  rackId === DEFAULT_RACK_ID ? DATABASE_NAME : `${rackId}.db`;
+
+const getDatabaseUri = (rackId: string): string =>
+  `file://${String(SQLite.defaultDatabaseDirectory)}/${getDatabaseName(rackId)}`;
+
+/** Where a rack's backups are kept; the default rack's sit at the top of the backups folder */
+export const getBackupDirectory = (rackId: string): string | null => {
+  if (!FileSystem.documentDirectory) return null;
+  const directory = `${FileSystem.documentDirectory}backups/`;
+  return rackId === DEFAULT_RACK_ID ? directory : `${directory}racks/${rackId}/`;
+};
+
+/** Returns the database files among a rack's backups, including ones a key change left half swapped */
+const getBackupUris = async (rackId: string): Promise<string[]> => {
+  const directory = getBackupDirectory(rackId);
+  if (!directory || !(await FileSystem.getInfoAsync(directory)).exists) return [];
+
+  const names = (await FileSystem.readDirectoryAsync(directory))
+    .map(name => name.replace(/\.(rekeyed|original)$/, ''))
+    .filter(name => name.endsWith('.db'));
+  return [...new Set(names)].map(name => `${directory}${name}`);
+};
+
+const quoteSql = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+/** Resolves to the key to open databases with: null without a passcode, otherwise once the app is unlocked */
+const getDatabaseKey = async (): Promise<string | null> => {
+  if (!(await hasPasscode())) return null;
+  if (databaseKey !== null) return databaseKey;
+  return new Promise(resolve => keyWaiters.push(resolve));
+};
+
+/** Sets the key databases are opened with, letting any waiting opens through */
+const setDatabaseKey = (key: string | null): void => {
+  databaseKey = key;
+  if (key === null) return;
+  keyWaiters.forEach(resolve => resolve(key));
+  keyWaiters = [];
+};
+
+/** Applies schema steps newer than the database's user_version */
+const applySchema = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const currentVersion = row?.user_version ?? 0;
+
+  for (let version = currentVersion + 1; version <= SCHEMA_STEPS.length; version++) {
+    console.log('🔄 Applying database schema step:', version);
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await txn.execAsync(SCHEMA_STEPS[version - 1]);
+      await txn.execAsync(`PRAGMA user_version = ${version}`);
+    });
+  }
+};
+
+/**
+ * Writes a clip row and its category links; categories must already exist.
+ * Links to trashed categories are kept so restoring the category brings them back.
+ */
+export const writeClip = async (txn: SQLite.SQLiteDatabase, embed: EmbedData): Promise<void> => {
+  const { categories, ...clip } = embed;
+  // An upsert, not INSERT OR REPLACE: replacing the row would cascade-delete every link
+  await txn.runAsync(
+    `INSERT INTO clips (id, type, title, canonical_key, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET type = excluded.type, title = excluded.title, canonical_key = excluded.canonical_key,
+      created_at = excluded.created_at, updated_at = excluded.updated_at, data = excluded.data, deleted_at = NULL`,
+    [clip.id, clip.type, clip.title, getCanonicalKey(clip), clip.createdAt, clip.updatedAt ?? clip.createdAt, JSON.stringify(clip)]
+  );
+  // A clip saved again (or synced in) replaces any tombstone of its own
+  await txn.runAsync("DELETE FROM tombstones WHERE kind = 'clip' AND id = ?", [clip.id]);
+  await txn.runAsync(
+    'DELETE FROM clip_categories WHERE clip_id = ? AND category_id NOT IN (SELECT id FROM categories WHERE deleted_at IS NOT NULL)',
+    [clip.id]
+  );
+  for (const categoryId of new Set(categories ?? [])) {
+    await txn.runAsync(
+      'INSERT OR IGNORE INTO clip_categories (clip_id, category_id) SELECT ?, id FROM categories WHERE id = ?',
+      [clip.id, categoryId]
+    );
+  }
+};
+
+/** Copies the AsyncStorage library into SQLite the first time the database opens */
+const importLegacyLibrary = async (db: SQLite.SQLiteDatabase): Promise<void> => {
+  const imported = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', [LEGACY_IMPORTED_KEY]);
+  if (imported) return;
+
+  const library = await loadLegacyLibrary();
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    for (const category of library.categories) {
+      await txn.runAsync(
+        'INSERT OR IGNORE INTO categories (id, name, color, created_at) VALUES (?, ?, ?, ?)',
+        [category.id, category.name, category.color, category.createdAt]
+      );
+    }
+    for (const embed of library.embeds) {
+      await writeClip(txn, embed);
+    }
+    await txn.runAsync('INSERT INTO meta (key, value) VALUES (?, ?)', [LEGACY_IMPORTED_KEY, String(Date.now())]);
+  });
+  console.log(`✅ Imported ${library.embeds.length} clips and ${library.categories.length} categories into SQLite`);
+};
+
+/** Deletes a rack's database file along with its write-ahead log */
+const deleteDatabaseFiles = async (uri: string): Promise<void> => {
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  await FileSystem.deleteAsync(`${uri}-wal`, { idempotent: true });
+  await FileSystem.deleteAsync(`${uri}-shm`, { idempotent: true });
+};
+
+/** Returns every file a key change rewrites: the racks' databases and all their backups */
+const getKeyChangeUris = async (rackIds: string[]): Promise<string[]> => {
+  const uris = rackIds.map(getDatabaseUri);
+  for (const rackId of rackIds) {
+    uris.push(...(await getBackupUris(rackId)));
+  }
+  return uris;
+};
+
+/** Deletes the copies and kept originals a key change left behind */
+const deleteKeyChangeFiles = async (uris: string[]): Promise<void> => {
+  for (const uri of uris) {
+    await FileSystem.deleteAsync(`${uri}${REKEYED_SUFFIX}`, { idempotent: true });
+    await FileSystem.deleteAsync(`${uri}${ORIGINAL_SUFFIX}`, { idempotent: true });
+  }
+};
+
+/** Puts every swapped file's original back and the old key state with it, then drops the record */
+const rollBackKeyChange = async (change: PendingKeyChange): Promise<void> => {
+  const uris = await getKeyChangeUris(change.rackIds);
+  for (const uri of uris) {
+    if ((await FileSystem.getInfoAsync(`${uri}${ORIGINAL_SUFFIX}`)).exists) {
+      await deleteDatabaseFiles(uri);
+      await FileSystem.moveAsync({ from: `${uri}${ORIGINAL_SUFFIX}`, to: uri });
+    }
+  }
+  await storeWrappedKey(change.fromWrappedKey);
+  await deleteKeyChangeFiles(uris);
+  await setPendingKeyChange(null);
+};
+
+/**
+ * Settles a key change an earlier launch didn't finish, following its
+ * record: once the new key was saved every copy had been swapped in, so only
+ * the cleanup is left; before that, every rack goes back to the old key.
+ */
+const settleKeyChange = async (): Promise<void> => {
+  const change = await getPendingKeyChange();
+  if (!change) return;
+
+  if ((await getWrappedKey()) === change.toWrappedKey) {
+    console.log('🔄 Finishing interrupted passcode change');
+    await storeWrappedKey(change.toWrappedKey);
+    await deleteKeyChangeFiles(await getKeyChangeUris(change.rackIds));
+    await setPendingKeyChange(null);
+  } else {
+    console.log('↩️ Rolling back interrupted passcode change');
+    await rollBackKeyChange(change);
+  }
+};
+
+/** Settles any interrupted key change once per launch; call before reading whether a passcode is set */
+export const settlePendingKeyChange = (): Promise<void> => {
+  if (!keyChangeSettled) {
+    keyChangeSettled = settleKeyChange().catch(error => {
+      keyChangeSettled = null;
+      throw error;
+    });
+  }
+  return keyChangeSettled;
+};
+
+/** Opens a rack's database, creating it on first use; the default rack also imports the legacy library */
+const openLibraryDatabase = async (rackId: string): Promise<SQLite.SQLiteDatabase> => {
+  await settlePendingKeyChange();
+  await databaseSwap;
+  const key = await getDatabaseKey();
+  const db = await SQLite.openDatabaseAsync(getDatabaseName(rackId));
+  // The key has to be the first statement on an encrypted database
+  if (key !== null) {
+    await db.execAsync(`PRAGMA key = ${quoteSql(key)}`);
+  }
+  await db.execAsync('PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;');
+  await applySchema(db);
+  if (rackId === DEFAULT_RACK_ID) {
+    await importLegacyLibrary(db);
+  }
+  return db;
+};
+
+/** Returns a rack's open database; a failed open is retried by the next caller */
+export const getRackDatabase = (rackId: string): Promise<SQLite.SQLiteDatabase> => {
+  let databasePromise = databasePromises.get(rackId);
+  if (!databasePromise) {
+    databasePromise = openLibraryDatabase(rackId).catch(error => {
+      databasePromises.delete(rackId);
+      throw error;
+    });
+    databasePromises.set(rackId, databasePromise);
+  }
+  return databasePromise;
+};
+
+/** Returns the active rack's open database */
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => getRackDatabase(activeRackId);
+
+export const getActiveRackId = (): string => activeRackId;
+
+/** Points every repository at another rack's database */
+export const setActiveRackId = (rackId: string): void => {
+  activeRackId = rackId;
+};
+
+/** Closes a rack's database if it's open; the next caller opens it again */
+const closeRackDatabase = async (rackId: string): Promise<void> => {
+  const databasePromise = databasePromises.get(rackId);
+  databasePromises.delete(rackId);
+  if (databasePromise) {
+    await (await databasePromise.catch(() => null))?.closeAsync();
+  }
+};
+
+/** Closes and deletes a rack's database file; the default rack's is never deleted */
+export const deleteRackDatabase = async (rackId: string): Promise<void> => {
+  if (rackId === DEFAULT_RACK_ID) return;
+
+  await closeRackDatabase(rackId);
+  await SQLite.deleteDatabaseAsync(getDatabaseName(rackId));
+};
+
+/** Opens a backup file on a connection of its own with `key`, or unencrypted for null */
+const openBackupFile = async (uri: string, key: string | null): Promise<SQLite.SQLiteDatabase> => {
+  const path = decodeURI(uri.replace(/^file:\/\//, ''));
+  const nameStart = path.lastIndexOf('/') + 1;
+  const db = await SQLite.openDatabaseAsync(path.slice(nameStart), { useNewConnection: true }, path.slice(0, nameStart));
+  if (key !== null) {
+    await db.execAsync(`PRAGMA key = ${quoteSql(key)}`).catch(async error => {
+      await db.closeAsync();
+      throw error;
+    });
+  }
+  return db;
+};
+
+/** Opens a backup file with the key the racks are encrypted with, once it's unlocked; close it when done */
+export const openBackupDatabase = async (uri: string): Promise<SQLite.SQLiteDatabase> => {
+  await settlePendingKeyChange();
+  await databaseSwap;
+  return openBackupFile(uri, await getDatabaseKey());
+};
+
+/** Returns whether this build can encrypt databases (SQLCipher is compiled in) */
+export const isEncryptionAvailable = async (): Promise<boolean> => {
+  const db = await getRackDatabase(DEFAULT_RACK_ID);
+  const row = await db.getFirstAsync<{ cipher_version: string }>('PRAGMA cipher_version');
+  return Boolean(row?.cipher_version);
+};
+
+/** Returns whether a key opens the default rack's library; a missing file or one without the clips table doesn't count */
+const isDatabaseKey = async (key: string): Promise<boolean> => {
+  await settlePendingKeyChange();
+  if (!(await FileSystem.getInfoAsync(getDatabaseUri(DEFAULT_RACK_ID))).exists) return false;
+
+  // A separate connection, so a wrong key can't leave the shared one unusable
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME, { useNewConnection: true });
+  try {
+    await db.execAsync(`PRAGMA key = ${quoteSql(key)}`);
+    await db.getFirstAsync('SELECT COUNT(*) FROM clips');
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await db.closeAsync();
+  }
+};
+
+/**
+ * Lets opens waiting on the lock screen through with the key the passcode
+ * unwrapped. Throws if the key doesn't open the library.
+ */
+export const unlockDatabases = async (key: string): Promise<void> => {
+  if (databaseKey !== null) return;
+
+  if (!(await isDatabaseKey(key))) {
+    throw new Error('The library could not be decrypted.');
+  }
+  setDatabaseKey(key);
+};
+
+/** Wraps the key the library is encrypted with under a new passcode; nothing is re-encrypted */
+export const rewrapDatabaseKey = async (passcode: string): Promise<void> => {
+  const key = await getDatabaseKey();
+  if (key === null) {
+    throw new Error('The library is not encrypted.');
+  }
+  await storeWrappedKey(await wrapDatabaseKey(key, passcode));
+};
+
+/** Writes a copy of an open database beside its file, encrypted with `key` or unencrypted for an empty key */
+const writeRekeyedCopy = async (db: SQLite.SQLiteDatabase, uri: string, key: string): Promise<void> => {
+  await FileSystem.deleteAsync(`${uri}${REKEYED_SUFFIX}`, { idempotent: true });
+
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  await db.execAsync(`ATTACH DATABASE ${quoteSql(`${db.databasePath}${REKEYED_SUFFIX}`)} AS rekeyed KEY ${quoteSql(key)}`);
+  try {
+    await db.execAsync(`SELECT sqlcipher_export('rekeyed'); PRAGMA rekeyed.user_version = ${row?.user_version ?? 0};`);
+  } finally {
+    await db.execAsync('DETACH DATABASE rekeyed');
+  }
+};
+
+/** Puts a closed database's rewritten copy in its place, keeping the original beside it */
+const swapInRekeyedCopy = async (uri: string): Promise<void> => {
+  // Closing checkpointed the write-ahead log; a stale one must not be replayed into the copy
+  await FileSystem.moveAsync({ from: uri, to: `${uri}${ORIGINAL_SUFFIX}` });
+  await FileSystem.deleteAsync(`${uri}-wal`, { idempotent: true });
+  await FileSystem.deleteAsync(`${uri}-shm`, { idempotent: true });
+  await FileSystem.moveAsync({ from: `${uri}${REKEYED_SUFFIX}`, to: uri });
+};
+
+/**
+ * Encrypts every rack's database and backups with a new random key wrapped
+ * under `passcode`, or decrypts them for null, and saves the wrapped key in
+ * the secure store. Every copy is written and swapped in before the key is
+ * saved; if anything fails first, every file is put back and the error says
+ * the library wasn't changed.
+ */
+export const rekeyDatabases = async (rackIds: string[], passcode: string | null): Promise<void> => {
+  // An earlier change's record has to be settled, not overwritten
+  await settlePendingKeyChange();
+  const fromKey = await getDatabaseKey();
+  const key = passcode !== null ? await createDatabaseKey() : null;
+  const change: PendingKeyChange = {
+    rackIds,
+    fromWrappedKey: await getWrappedKey(),
+    toWrappedKey: key !== null && passcode !== null ? await wrapDatabaseKey(key, passcode) : null,
+  };
+  await setPendingKeyChange(change);
+
+  const uris: string[] = [];
+  let endSwap = (): void => undefined;
+  try {
+    for (const rackId of rackIds) {
+      await writeRekeyedCopy(await getRackDatabase(rackId), getDatabaseUri(rackId), key ?? '');
+      uris.push(getDatabaseUri(rackId));
+      for (const backupUri of await getBackupUris(rackId)) {
+        const backup = await openBackupFile(backupUri, fromKey);
+        try {
+          await writeRekeyedCopy(backup, backupUri, key ?? '');
+        } finally {
+          await backup.closeAsync();
+        }
+        uris.push(backupUri);
+      }
+    }
+    databaseSwap = new Promise(resolve => {
+      endSwap = resolve;
+    });
+    for (const rackId of rackIds) {
+      await closeRackDatabase(rackId);
+    }
+    for (const uri of uris) {
+      await swapInRekeyedCopy(uri);
+    }
+    await storeWrappedKey(change.toWrappedKey);
+  } catch (error) {
+    console.error('Failed to change the database key:', error);
+    try {
+      await rollBackKeyChange(change);
+    } catch (rollbackError) {
+      // The record stays, so the next launch tries the rollback again
+      console.error('Failed to roll back the database key change:', rollbackError);
+      keyChangeSettled = null;
+      throw new Error('The library could not be re-encrypted or put back yet. Restart ClipRack to restore it.');
+    } finally {
+      databaseSwap = null;
+      endSwap();
+    }
+    throw new Error('The library could not be re-encrypted. Your passcode and clips were not changed.');
+  }
+
+  setDatabaseKey(key);
+  databaseSwap = null;
+  endSwap();
+  // Left to the next launch's settle if it fails; the new key is already saved, so it only cleans up
+  await deleteKeyChangeFiles(uris)
+    .then(() => setPendingKeyChange(null))
+    .catch(error => console.error('Failed to clean up after the database key change:', error));
+};
@@ -0,0 +1,81 @@
+/**
+ * Library storage - clips and categories live in SQLite behind the clip
+ * repository, one database per rack, encrypted when a passcode is set; the
+ * AsyncStorage modules only feed the one-time import.
+ */
+export { deleteOldBackups, getBackupArchive, getBackupRecords, insertBackup } from './backupRepository';
+export type { BackupRecord } from './backupRepository';
+export {
+  copyClipsToRack,
+  countClips,
+  countClipsByCategory,
+  countTrash,
+  getCanonicalKeys,
+  getCategories,
+  getClip,
+  getLibrary,
+  getNewestClipId,
+  getTrash,
+  importLibrary,
+  insertCategory,
+  insertClips,
+  purgeCategory,
+  purgeClip,
+  purgeTrash,
+  queryClips,
+  renameCategory,
+  replaceLibrary,
+  restoreCategory,
+  restoreClip,
+  trashCategory,
+  trashClip,
+  updateClip,
+} from './clipRepository';
+export type { ClipQuery, ClipSort, TrashedCategory, TrashedClip } from './clipRepository';
+export {
+  DEFAULT_RACK_ID,
+  deleteRackDatabase,
+  getActiveRackId,
+  getBackupDirectory,
+  isEncryptionAvailable,
+  rekeyDatabases,
+  rewrapDatabaseKey,
+  setActiveRackId,
+  settlePendingKeyChange,
+  unlockDatabases,
+} from './database';
+export { clearLegacyLibrary, loadQuarantine } from './legacyStorage';
+export type { QuarantinedRecord } from './legacyStorage';
+export {
+  DEFAULT_RACK,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getBackupSchedule,
+  getEditHistory,
+  getLockedCategoryIds,
+  getRackFilters,
+  getRacks,
+  getSavedActiveRackId,
+  getSyncState,
+  getTrashRetentionDays,
+  INITIAL_SYNC_STATE,
+  setBackupSchedule,
+  setEditHistory,
+  setLockedCategoryIds,
+  setRackFilters,
+  setRacks,
+  setSavedActiveRackId,
+  setSyncState,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from './settings';
+export type { BackupSchedule, SyncState } from './settings';
+export {
+  getPasscodeAttempts,
+  getPasscodeProblem,
+  hasPasscode,
+  PASSCODE_MIN_LENGTH,
+  setPasscodeAttempts,
+  unwrapDatabaseKey,
+} from './passcode';
+export type { PasscodeAttempts } from './passcode';
+export { applyRemoteChanges, getLocalChanges } from './syncRepository';
@@ -0,0 +1,192 @@
+/**
+ * Legacy AsyncStorage library - where clips and categories lived before the
+ * SQLite store. Read once on first launch and imported into SQLite; the keys
+ * are left in place so a failed import can simply run again, until setting
+ * a passcode clears them along with every other unencrypted copy. The
+ * quarantine key is never cleared, since it holds the only copy of the
+ * records it keeps.
+ *
+ * The stored schema version lives under its own key, and the data is
+ * migrated to the current shape before it's handed over. Nothing is ever
+ * silently dropped: records that fail validation (or a blob that doesn't
+ * parse at all) move to the quarantine key.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_CATEGORIES, STORAGE_KEYS } from '../constants';
+import { Category, EmbedData } from '../types';
+import { migrateLibrary, SCHEMA_VERSION, StoredLibrary } from './migrations';
+import { getCategoryProblem, getEmbedProblem } from './validation';
+
+/** A stored value that failed validation, kept so it can be exported (Library → Export Quarantined Records) and recovered by hand */
+export interface QuarantinedRecord {
+  key: string; // storage key the value was read from
+  value: unknown; // the rejected record, or the raw string if the blob didn't parse
+  reason: string;
+  quarantinedAt: number;
+}
+
+let quarantineQueue: Promise<void> = Promise.resolve();
+
+/** Key holding the in-flight copy of a write until it has been swapped in */
+const getPendingKey = (key: string): string => `${key}_pending`;
+
+const isParseable = (raw: string): boolean => {
+  try {
+    JSON.parse(raw);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Writes a value via a pending copy: an app kill while writing the pending
+ * copy leaves the old value intact, and a kill during the swap is finished
+ * from the pending copy on the next read.
+ */
+const writeAtomically = async (key: string, value: string): Promise<void> => {
+  await AsyncStorage.setItem(getPendingKey(key), value);
+  await AsyncStorage.setItem(key, value);
+  await AsyncStorage.removeItem(getPendingKey(key));
+};
+
+/** Reads a key, completing a write that was interrupted before its swap finished */
+const readAtomically = async (key: string): Promise<string | null> => {
+  const [[, stored], [, pending]] = await AsyncStorage.multiGet([key, getPendingKey(key)]);
+  if (pending === null) return stored;
+
+  if (isParseable(pending)) {
+    console.log('🔄 Completing interrupted write for:', key);
+    await AsyncStorage.setItem(key, pending);
+    await AsyncStorage.removeItem(getPendingKey(key));
+    return pending;
+  }
+
+  // The pending copy itself was cut short, so the stored value was never touched
+  await AsyncStorage.removeItem(getPendingKey(key));
+  return stored;
+};
+
+/** Appends rejected values to the quarantine key */
+const appendToQuarantine = async (records: QuarantinedRecord[]): Promise<void> => {
+  const stored = await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE);
+  let existing: QuarantinedRecord[] = [];
+  if (stored && isParseable(stored)) {
+    existing = JSON.parse(stored);
+  } else if (stored) {
+    // Even a damaged quarantine is kept rather than overwritten
+    existing = [{ key: STORAGE_KEYS.QUARANTINE, value: stored, reason: 'quarantine did not parse', quarantinedAt: Date.now() }];
+  }
+  await writeAtomically(STORAGE_KEYS.QUARANTINE, JSON.stringify([...existing, ...records]));
+  console.warn(`⚠️ Quarantined ${records.length} stored ${records.length === 1 ? 'value' : 'values'}:`, records.map(record => record.reason));
+};
+
+/** Queues a quarantine append; clips and categories load in parallel and must not race on the key */
+const quarantine = (records: QuarantinedRecord[]): Promise<void> => {
+  const append = quarantineQueue.then(() => appendToQuarantine(records));
+  quarantineQueue = append.catch(() => undefined);
+  return append;
+};
+
+/**
+ * Reads a stored list, moving invalid records to quarantine. Returns null if
+ * the key has never been written. Throws only if storage itself can't be read.
+ */
+const readRecords = async <T>(key: string, getProblem: (value: unknown) => string | null): Promise<T[] | null> => {
+  const raw = await readAtomically(key);
+  if (raw === null) return null;
+
+  const quarantinedAt = Date.now();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (!Array.isArray(parsed)) {
+    await quarantine([{ key, value: raw, reason: 'stored value is not a list', quarantinedAt }]);
+    await writeAtomically(key, JSON.stringify([]));
+    return [];
+  }
+
+  const valid: T[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  const seenIds = new Set<string>();
+  for (const value of parsed) {
+    const problem = getProblem(value) ?? (seenIds.has((value as { id: string }).id) ? 'duplicate id' : null);
+    if (problem) {
+      rejected.push({ key, value, reason: problem, quarantinedAt });
+    } else {
+      seenIds.add((value as { id: string }).id);
+      valid.push(value as T);
+    }
+  }
+
+  if (rejected.length > 0) {
+    // Quarantine first so the rejected records are safe before the list is rewritten without them
+    await quarantine(rejected);
+    await writeAtomically(key, JSON.stringify(valid));
+  }
+  return valid;
+};
+
+/** Upgrades stored data written by an older schema version */
+const runMigrations = async (): Promise<void> => {
+  const storedVersion = await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION);
+
+  // Installs from before versioning have data but no version
+  const fromVersion = storedVersion ? Number(storedVersion) : 0;
+  if (fromVersion >= SCHEMA_VERSION) return;
+
+  const [storedEmbeds, storedCategories] = await Promise.all([
+    readRecords<EmbedData>(STORAGE_KEYS.DYNAMIC_EMBEDS, getEmbedProblem),
+    readRecords<Category>(STORAGE_KEYS.CATEGORIES, getCategoryProblem),
+  ]);
+
+  if (!storedEmbeds && !storedCategories) {
+    await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(SCHEMA_VERSION));
+    return;
+  }
+
+  const migrated = await migrateLibrary({
+    embeds: storedEmbeds ?? [],
+    categories: storedCategories ?? DEFAULT_CATEGORIES,
+  }, fromVersion);
+
+  await writeAtomically(STORAGE_KEYS.DYNAMIC_EMBEDS, JSON.stringify(migrated.embeds));
+  // Categories that were never saved keep following the defaults
+  if (storedCategories) {
+    await writeAtomically(STORAGE_KEYS.CATEGORIES, JSON.stringify(migrated.categories));
+  }
+  // The version goes last so an interrupted migration reruns on next launch
+  await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(SCHEMA_VERSION));
+  console.log(`✅ Migrated storage from schema ${fromVersion} to ${SCHEMA_VERSION}`);
+};
+
+/**
+ * Reads the whole AsyncStorage library - migrated to the current schema, with
+ * invalid records quarantined - for the one-time move into SQLite. Throws if
+ * storage can't be read, so the move is retried instead of importing nothing.
+ */
+export const loadLegacyLibrary = async (): Promise<StoredLibrary> => {
+  await runMigrations();
+  const [embeds, categories] = await Promise.all([
+    readRecords<EmbedData>(STORAGE_KEYS.DYNAMIC_EMBEDS, getEmbedProblem),
+    readRecords<Category>(STORAGE_KEYS.CATEGORIES, getCategoryProblem),
+  ]);
+  return { embeds: embeds ?? [], categories: categories ?? DEFAULT_CATEGORIES };
+};
+
+/** Returns everything that has been quarantined, oldest first */
+export const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+  const stored = await readAtomically(STORAGE_KEYS.QUARANTINE);
+  return stored && isParseable(stored) ? JSON.parse(stored) : [];
+};
+
+/** Deletes the stored clips and categories, once they're safely inside the encrypted database; the quarantine stays */
+export const clearLegacyLibrary = async (): Promise<void> => {
+  const keys = [STORAGE_KEYS.DYNAMIC_EMBEDS, STORAGE_KEYS.CATEGORIES];
+  await AsyncStorage.multiRemove([...keys, ...keys.map(getPendingKey)]);
+  console.log('🗑️ Cleared the unencrypted AsyncStorage library');
+};
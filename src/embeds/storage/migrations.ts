@@ -0,0 +1,110 @@
+/**
+ * Storage migrations - ordered upgrades for data saved by older app versions.
+ *
+ * Each migration receives the whole stored library and returns it in the
+ * shape of its version. To change a stored shape, bump `SCHEMA_VERSION` and
+ * append a migration here; never edit one that has already shipped.
+ */
+import { createEmbedFromUrl, withCanonicalKey } from '../ingest';
+import { defaultIngestContext } from '../ingest/network';
+import { Category, EmbedData, IngestContext } from '../types';
+
+/** Everything persisted for the library, as one unit migrations can rewrite */
+export interface StoredLibrary {
+  embeds: EmbedData[];
+  categories: Category[];
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (library: StoredLibrary, context: IngestContext) => Promise<StoredLibrary>;
+}
+
+/** Applies a change to every clip */
+const mapEmbeds = (library: StoredLibrary, update: (embed: EmbedData) => EmbedData): StoredLibrary => ({
+  ...library,
+  embeds: library.embeds.map(update),
+});
+
+/** Resolves a TikTok saved as an unresolved short link, keeping the clip's identity and edits */
+const resolveShortTikTok = async (embed: EmbedData, context: IngestContext): Promise<EmbedData> => {
+  const resolved = await createEmbedFromUrl(embed.url, context).catch(() => null);
+  if (!resolved || resolved.type !== 'tiktok' || resolved.isShortUrl) return embed;
+
+  return {
+    ...resolved,
+    id: embed.id,
+    createdAt: embed.createdAt,
+    categories: embed.categories,
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Give clips saved before categories existed an empty category list',
+    migrate: async (library) => mapEmbeds(library, embed =>
+      Array.isArray(embed.categories) ? embed : { ...embed, categories: [] }
+    ),
+  },
+  {
+    version: 2,
+    description: 'Restore reel URLs that older versions rewrote to /p/ and record Instagram content kinds',
+    migrate: async (library) => mapEmbeds(library, embed => {
+      if (embed.type !== 'instagram' || embed.contentKind || !embed.postId) return embed;
+
+      // Reels were saved under a /p/ URL; only the title remembers what they were
+      const isReel = embed.title === 'Instagram Reel' || /\/reels?\//.test(embed.url);
+      return isReel
+        ? { ...embed, contentKind: 'reel', url: `https://www.instagram.com/reel/${embed.postId}/` }
+        : { ...embed, contentKind: 'post' };
+    }),
+  },
+  {
+    version: 3,
+    description: 'Resolve TikToks saved as unresolved short links',
+    migrate: async (library, context) => ({
+      ...library,
+      // Links that still can't be resolved (offline, deleted post) stay short links
+      embeds: await Promise.all(library.embeds.map(embed =>
+        embed.type === 'tiktok' && embed.isShortUrl ? resolveShortTikTok(embed, context) : Promise.resolve(embed)
+      )),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Drop category IDs that no longer match a saved category',
+    migrate: async (library) => {
+      const categoryIds = new Set(library.categories.map(category => category.id));
+      return mapEmbeds(library, embed => ({
+        ...embed,
+        categories: (embed.categories ?? []).filter(id => categoryIds.has(id)),
+      }));
+    },
+  },
+  {
+    version: 5,
+    description: 'Store canonical keys on clips saved before they existed',
+    // Keys computed from pre-migration fields may be stale, so recompute them all
+    migrate: async (library) => mapEmbeds(library, ({ canonicalKey, ...embed }) => withCanonicalKey(embed)),
+  },
+];
+
+/** The schema version written by this build */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Runs every migration newer than `fromVersion`, in order */
+export const migrateLibrary = async (
+  library: StoredLibrary,
+  fromVersion: number,
+  context: IngestContext = defaultIngestContext
+): Promise<StoredLibrary> => {
+  let migrated = library;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    console.log(`🔄 Storage migration ${migration.version}: ${migration.description}`);
+    migrated = await migration.migrate(migrated, context);
+  }
+  return migrated;
+};
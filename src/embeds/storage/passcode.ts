@@ -0,0 +1,134 @@
+/**
+ * App passcode - guards the random key every rack database is encrypted
+ * with. The key is only ever stored wrapped: sealed with AES-GCM under a key
+ * derived from the passcode with PBKDF2, so reading the secure store alone
+ * doesn't open the library, and each guess at a lost store costs a full key
+ * derivation. A passcode is checked by unwrapping the key with it. Wrong
+ * guesses are counted here too, so restarting the app doesn't reset the
+ * throttle, and a key change in progress is recorded so an interrupted one
+ * can be settled.
+ */
+import { gcm } from '@noble/ciphers/aes';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+const PASSCODE_SET_KEY = 'cliprack_passcode_set';
+const WRAPPED_KEY_KEY = 'cliprack_wrapped_database_key';
+const PASSCODE_ATTEMPTS_KEY = 'cliprack_passcode_attempts';
+const PENDING_KEY_CHANGE_KEY = 'cliprack_pending_key_change';
+
+export const PASSCODE_MIN_LENGTH = 6;
+
+// PBKDF2-SHA256 rounds for new wrappings; each wrapping records its own, so this can be raised later
+const KEY_DERIVATION_ROUNDS = 210_000;
+
+/** Wrong passcodes entered in a row, and when the next guess is allowed */
+export interface PasscodeAttempts {
+  failedAttempts: number;
+  retryAt: number;
+}
+
+/**
+ * A database key change that has started but not been cleaned up yet, with
+ * the wrapped keys from before and after; null means unencrypted
+ */
+export interface PendingKeyChange {
+  rackIds: string[];
+  fromWrappedKey: string | null;
+  toWrappedKey: string | null;
+}
+
+/** The database key sealed under a passcode, as saved in the secure store */
+interface WrappedKey {
+  rounds: number;
+  salt: string;
+  nonce: string;
+  sealed: string; // the key and its GCM tag
+}
+
+const deriveWrappingKey = (passcode: string, salt: string, rounds: number): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, passcode, hexToBytes(salt), { c: rounds, dkLen: 32 });
+
+/** Returns whether the library is encrypted behind a passcode */
+export const hasPasscode = async (): Promise<boolean> =>
+  (await SecureStore.getItemAsync(PASSCODE_SET_KEY)) === 'true';
+
+/** Creates a random 256-bit key for encrypting the databases */
+export const createDatabaseKey = async (): Promise<string> => bytesToHex(await Crypto.getRandomBytesAsync(32));
+
+/** Seals a database key under a passcode; nothing is saved until it's passed to `storeWrappedKey` */
+export const wrapDatabaseKey = async (key: string, passcode: string): Promise<string> => {
+  const salt = bytesToHex(await Crypto.getRandomBytesAsync(16));
+  const nonce = await Crypto.getRandomBytesAsync(12);
+  const wrappingKey = await deriveWrappingKey(passcode, salt, KEY_DERIVATION_ROUNDS);
+  const sealed = gcm(wrappingKey, nonce).encrypt(hexToBytes(key));
+  const wrapped: WrappedKey = { rounds: KEY_DERIVATION_ROUNDS, salt, nonce: bytesToHex(nonce), sealed: bytesToHex(sealed) };
+  return JSON.stringify(wrapped);
+};
+
+/** Returns the saved wrapped key, or null without a passcode */
+export const getWrappedKey = (): Promise<string | null> => SecureStore.getItemAsync(WRAPPED_KEY_KEY);
+
+/** Saves the wrapped key the databases are now encrypted with and marks the passcode set, or clears both for null */
+export const storeWrappedKey = async (wrappedKey: string | null): Promise<void> => {
+  if (wrappedKey !== null) {
+    await SecureStore.setItemAsync(WRAPPED_KEY_KEY, wrappedKey);
+    await SecureStore.setItemAsync(PASSCODE_SET_KEY, 'true');
+  } else {
+    await SecureStore.deleteItemAsync(PASSCODE_SET_KEY);
+    await SecureStore.deleteItemAsync(WRAPPED_KEY_KEY);
+  }
+};
+
+/** Unwraps the saved database key with a passcode; null if the passcode is wrong or no key is saved */
+export const unwrapDatabaseKey = async (passcode: string): Promise<string | null> => {
+  const stored = await getWrappedKey();
+  if (!stored) return null;
+
+  const wrapped = JSON.parse(stored) as WrappedKey;
+  const wrappingKey = await deriveWrappingKey(passcode, wrapped.salt, wrapped.rounds);
+  try {
+    return bytesToHex(gcm(wrappingKey, hexToBytes(wrapped.nonce)).decrypt(hexToBytes(wrapped.sealed)));
+  } catch {
+    // The tag only checks out under the passcode the key was wrapped with
+    return null;
+  }
+};
+
+export const getPasscodeAttempts = async (): Promise<PasscodeAttempts> => {
+  const stored = await SecureStore.getItemAsync(PASSCODE_ATTEMPTS_KEY);
+  try {
+    const attempts = stored ? (JSON.parse(stored) as Partial<PasscodeAttempts>) : {};
+    return { failedAttempts: Number(attempts.failedAttempts) || 0, retryAt: Number(attempts.retryAt) || 0 };
+  } catch {
+    return { failedAttempts: 0, retryAt: 0 };
+  }
+};
+
+export const setPasscodeAttempts = async (attempts: PasscodeAttempts): Promise<void> => {
+  await SecureStore.setItemAsync(PASSCODE_ATTEMPTS_KEY, JSON.stringify(attempts));
+};
+
+export const getPendingKeyChange = async (): Promise<PendingKeyChange | null> => {
+  const stored = await SecureStore.getItemAsync(PENDING_KEY_CHANGE_KEY);
+  return stored ? (JSON.parse(stored) as PendingKeyChange) : null;
+};
+
+/** Records a key change before any file is touched, or clears the record once it's settled */
+export const setPendingKeyChange = async (change: PendingKeyChange | null): Promise<void> => {
+  if (change) {
+    await SecureStore.setItemAsync(PENDING_KEY_CHANGE_KEY, JSON.stringify(change));
+  } else {
+    await SecureStore.deleteItemAsync(PENDING_KEY_CHANGE_KEY);
+  }
+};
+
+/** Returns why a new passcode can't be used, or null if it can */
+export const getPasscodeProblem = (passcode: string): string | null => {
+  if (!/^\d*$/.test(passcode)) return 'Use digits only.';
+  if (passcode.length < PASSCODE_MIN_LENGTH) return `Use at least ${PASSCODE_MIN_LENGTH} digits.`;
+  return null;
+};
@@ -0,0 +1,172 @@
+/**
+ * Library settings - small user preferences kept in the database's meta table,
+ * so they live and move with the library rather than the device. The edit
+ * history is kept there too, so undo survives a restart, as are the backup schedule and sync position.
+ *
+ * Each rack keeps its own; the list of racks and which one is open are kept
+ * in the default rack's database, the one every install has.
+ */
+import { PLATFORM_TYPES } from '../providers';
+import { PlatformType, Rack, RackFilters } from '../types';
+import { DEFAULT_RACK_ID, getActiveRackId, getRackDatabase } from './database';
+
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+const EDIT_HISTORY_KEY = 'edit_history';
+const BACKUP_SCHEDULE_KEY = 'backup_schedule';
+const SYNC_STATE_KEY = 'sync_state';
+const RACK_FILTERS_KEY = 'rack_filters';
+const RACKS_KEY = 'racks';
+const ACTIVE_RACK_KEY = 'active_rack';
+const LOCKED_CATEGORIES_KEY = 'locked_categories';
+
+/** The rack listed first; it holds everything saved before racks existed */
+export const DEFAULT_RACK: Rack = { id: DEFAULT_RACK_ID, name: 'Saved Clips', createdAt: 0, showsStarterClips: true };
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** When the last automatic backup ran and how many changes have landed since */
+export interface BackupSchedule {
+  lastBackupAt: number | null;
+  changesSinceBackup: number;
+}
+
+/** Where this device syncs to and how far it got */
+export interface SyncState {
+  serverUrl: string | null;
+  cursor: string | null; // the server's position after the last sync
+  pushedUpTo: number; // local changes up to this time have been sent
+  lastSyncedAt: number | null;
+}
+
+export const INITIAL_SYNC_STATE: SyncState = { serverUrl: null, cursor: null, pushedUpTo: 0, lastSyncedAt: null };
+
+/** Choices offered for how long deleted items stay in Recently Deleted */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+const getSetting = async (key: string, rackId: string = getActiveRackId()): Promise<string | null> => {
+  const db = await getRackDatabase(rackId);
+  const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', [key]);
+  return row?.value ?? null;
+};
+
+const setSetting = async (key: string, value: string, rackId: string = getActiveRackId()): Promise<void> => {
+  const db = await getRackDatabase(rackId);
+  await db.runAsync(
+    'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+    [key, value]
+  );
+};
+
+/** Returns how many days deleted clips and categories are kept before they're purged */
+export const getTrashRetentionDays = async (): Promise<number> => {
+  const days = Number(await getSetting(TRASH_RETENTION_KEY));
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = async (days: number): Promise<void> => {
+  await setSetting(TRASH_RETENTION_KEY, String(Math.max(1, Math.round(days))));
+};
+
+/** Returns the saved undo/redo history as JSON, or null if nothing was saved */
+export const getEditHistory = (): Promise<string | null> => getSetting(EDIT_HISTORY_KEY);
+
+export const setEditHistory = async (json: string): Promise<void> => {
+  await setSetting(EDIT_HISTORY_KEY, json);
+};
+
+export const getBackupSchedule = async (): Promise<BackupSchedule> => {
+  try {
+    const saved = JSON.parse((await getSetting(BACKUP_SCHEDULE_KEY)) ?? '{}') as Partial<BackupSchedule>;
+    return {
+      lastBackupAt: typeof saved.lastBackupAt === 'number' ? saved.lastBackupAt : null,
+      changesSinceBackup: typeof saved.changesSinceBackup === 'number' ? saved.changesSinceBackup : 0,
+    };
+  } catch {
+    return { lastBackupAt: null, changesSinceBackup: 0 };
+  }
+};
+
+export const setBackupSchedule = async (schedule: BackupSchedule): Promise<void> => {
+  await setSetting(BACKUP_SCHEDULE_KEY, JSON.stringify(schedule));
+};
+
+export const getSyncState = async (): Promise<SyncState> => {
+  try {
+    const saved = JSON.parse((await getSetting(SYNC_STATE_KEY)) ?? '{}') as Partial<SyncState>;
+    return {
+      serverUrl: typeof saved.serverUrl === 'string' ? saved.serverUrl : null,
+      cursor: typeof saved.cursor === 'string' ? saved.cursor : null,
+      pushedUpTo: typeof saved.pushedUpTo === 'number' ? saved.pushedUpTo : 0,
+      lastSyncedAt: typeof saved.lastSyncedAt === 'number' ? saved.lastSyncedAt : null,
+    };
+  } catch {
+    return INITIAL_SYNC_STATE;
+  }
+};
+
+export const setSyncState = async (state: SyncState): Promise<void> => {
+  await setSetting(SYNC_STATE_KEY, JSON.stringify(state));
+};
+
+/** Returns the filters a rack was last viewed with, or null if it has none saved */
+export const getRackFilters = async (rackId: string): Promise<RackFilters | null> => {
+  try {
+    const saved = JSON.parse((await getSetting(RACK_FILTERS_KEY, rackId)) ?? 'null') as Partial<RackFilters> | null;
+    if (!saved || !Array.isArray(saved.platforms)) return null;
+    return {
+      platforms: saved.platforms.filter((type): type is PlatformType => PLATFORM_TYPES.includes(type)),
+      categoryId: typeof saved.categoryId === 'string' ? saved.categoryId : null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const setRackFilters = async (rackId: string, filters: RackFilters): Promise<void> => {
+  await setSetting(RACK_FILTERS_KEY, JSON.stringify(filters), rackId);
+};
+
+/** Returns the IDs of a rack's categories (the active one's by default) kept hidden until the passcode is entered */
+export const getLockedCategoryIds = async (rackId: string = getActiveRackId()): Promise<string[]> => {
+  try {
+    const saved = JSON.parse((await getSetting(LOCKED_CATEGORIES_KEY, rackId)) ?? '[]') as unknown[];
+    return saved.filter((id): id is string => typeof id === 'string');
+  } catch {
+    return [];
+  }
+};
+
+export const setLockedCategoryIds = async (categoryIds: string[]): Promise<void> => {
+  await setSetting(LOCKED_CATEGORIES_KEY, JSON.stringify(categoryIds));
+};
+
+/** Lists every rack, the default one first */
+export const getRacks = async (): Promise<Rack[]> => {
+  try {
+    const saved = JSON.parse((await getSetting(RACKS_KEY, DEFAULT_RACK_ID)) ?? '[]') as Partial<Rack>[];
+    const racks = saved.flatMap(rack =>
+      typeof rack.id === 'string' && typeof rack.name === 'string'
+        ? [{
+          id: rack.id,
+          name: rack.name,
+          createdAt: typeof rack.createdAt === 'number' ? rack.createdAt : 0,
+          showsStarterClips: rack.showsStarterClips !== false,
+        }]
+        : []
+    );
+    return racks.some(rack => rack.id === DEFAULT_RACK_ID) ? racks : [DEFAULT_RACK, ...racks];
+  } catch {
+    return [DEFAULT_RACK];
+  }
+};
+
+export const setRacks = async (racks: Rack[]): Promise<void> => {
+  await setSetting(RACKS_KEY, JSON.stringify(racks), DEFAULT_RACK_ID);
+};
+
+/** Returns the rack that was open last, or null if none was saved */
+export const getSavedActiveRackId = (): Promise<string | null> => getSetting(ACTIVE_RACK_KEY, DEFAULT_RACK_ID);
+
+export const setSavedActiveRackId = async (rackId: string): Promise<void> => {
+  await setSetting(ACTIVE_RACK_KEY, rackId, DEFAULT_RACK_ID);
+};
@@ -0,0 +1,186 @@
+/**
+ * Sync repository - reads the rows changed since the last sync as protocol
+ * records, and writes back what the server sent merged with the local copies.
+ *
+ * Unlike the clip repository this sees trashed rows, every category link and
+ * tombstones, since other devices need all of them to settle on one library.
+ */
+import { SQLiteDatabase } from 'expo-sqlite';
+import { getCanonicalKey } from '../ingest';
+import { isSameRecord, mergeCategoryLinks, mergeCategoryRecords, mergeClipRecords } from '../sync/merge';
+import { SyncCategory, SyncChanges, SyncClip } from '../sync/protocol';
+import { EmbedData } from '../types';
+import { writeCategory, writeTombstone } from './clipRepository';
+import { getDatabase, writeClip } from './database';
+
+interface SyncClipRow {
+  id: string;
+  data: string;
+  categories: string;
+  updated_at: number;
+  deleted_at: number | null;
+}
+
+interface SyncCategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  created_at: number;
+  updated_at: number;
+  deleted_at: number | null;
+}
+
+interface TombstoneRow {
+  id: string;
+  deleted_at: number;
+}
+
+// Every category link, trashed categories included, so restoring one on another device brings its links too
+const SYNC_CLIP_COLUMNS = `c.id, c.data, c.updated_at, c.deleted_at,
+  (SELECT json_group_array(cc.category_id) FROM clip_categories cc WHERE cc.clip_id = c.id) AS categories`;
+
+const SYNC_CATEGORY_COLUMNS = 'id, name, color, created_at, updated_at, deleted_at';
+
+const toSyncClip = (row: SyncClipRow): SyncClip => ({
+  id: row.id,
+  updatedAt: row.updated_at,
+  deletedAt: row.deleted_at,
+  clip: {
+    ...JSON.parse(row.data),
+    categories: (JSON.parse(row.categories) as string[]).sort(),
+    updatedAt: row.updated_at,
+  },
+});
+
+const toSyncCategory = (row: SyncCategoryRow): SyncCategory => ({
+  id: row.id,
+  updatedAt: row.updated_at,
+  deletedAt: row.deleted_at,
+  category: { id: row.id, name: row.name, color: row.color, createdAt: row.created_at, updatedAt: row.updated_at },
+});
+
+const toTombstone = (row: TombstoneRow) => ({ id: row.id, updatedAt: row.deleted_at, deletedAt: row.deleted_at });
+
+/** Returns every record changed after `since`, tombstones included, and when the latest of them changed */
+export const getLocalChanges = async (since: number): Promise<{ changes: SyncChanges; changedUpTo: number }> => {
+  const db = await getDatabase();
+  const [clipRows, categoryRows, tombstoneRows] = await Promise.all([
+    db.getAllAsync<SyncClipRow>(`SELECT ${SYNC_CLIP_COLUMNS} FROM clips c WHERE c.updated_at > ?`, [since]),
+    db.getAllAsync<SyncCategoryRow>(`SELECT ${SYNC_CATEGORY_COLUMNS} FROM categories WHERE updated_at > ?`, [since]),
+    db.getAllAsync<TombstoneRow & { kind: 'clip' | 'category' }>(
+      'SELECT kind, id, deleted_at FROM tombstones WHERE deleted_at > ?',
+      [since]
+    ),
+  ]);
+
+  const changes: SyncChanges = {
+    clips: [
+      ...clipRows.map(toSyncClip),
+      ...tombstoneRows.filter(row => row.kind === 'clip').map(row => ({ ...toTombstone(row), clip: null })),
+    ],
+    categories: [
+      ...categoryRows.map(toSyncCategory),
+      ...tombstoneRows.filter(row => row.kind === 'category').map(row => ({ ...toTombstone(row), category: null })),
+    ],
+  };
+  const changedUpTo = [...changes.clips, ...changes.categories].reduce((latest, record) => Math.max(latest, record.updatedAt), since);
+  return { changes, changedUpTo };
+};
+
+const readClipRecord = async (txn: SQLiteDatabase, clipId: string): Promise<SyncClip | null> => {
+  const row = await txn.getFirstAsync<SyncClipRow>(`SELECT ${SYNC_CLIP_COLUMNS} FROM clips c WHERE c.id = ?`, [clipId]);
+  if (row) return toSyncClip(row);
+
+  const tombstone = await txn.getFirstAsync<TombstoneRow>("SELECT id, deleted_at FROM tombstones WHERE kind = 'clip' AND id = ?", [clipId]);
+  return tombstone ? { ...toTombstone(tombstone), clip: null } : null;
+};
+
+const readCategoryRecord = async (txn: SQLiteDatabase, categoryId: string): Promise<SyncCategory | null> => {
+  const row = await txn.getFirstAsync<SyncCategoryRow>(`SELECT ${SYNC_CATEGORY_COLUMNS} FROM categories WHERE id = ?`, [categoryId]);
+  if (row) return toSyncCategory(row);
+
+  const tombstone = await txn.getFirstAsync<TombstoneRow>(
+    "SELECT id, deleted_at FROM tombstones WHERE kind = 'category' AND id = ?",
+    [categoryId]
+  );
+  return tombstone ? { ...toTombstone(tombstone), category: null } : null;
+};
+
+/** Writes a merged clip record exactly as it is, links included */
+const writeClipRecord = async (txn: SQLiteDatabase, record: SyncClip): Promise<void> => {
+  if (!record.clip) {
+    await txn.runAsync('DELETE FROM clips WHERE id = ?', [record.id]);
+    await writeTombstone(txn, 'clip', record.id, record.updatedAt);
+    return;
+  }
+  await txn.runAsync('DELETE FROM clip_categories WHERE clip_id = ?', [record.id]);
+  await writeClip(txn, { ...record.clip, updatedAt: record.updatedAt });
+  if (record.deletedAt !== null) {
+    await txn.runAsync('UPDATE clips SET deleted_at = ? WHERE id = ?', [record.deletedAt, record.id]);
+  }
+};
+
+const writeCategoryRecord = async (txn: SQLiteDatabase, record: SyncCategory): Promise<void> => {
+  if (!record.category) {
+    await txn.runAsync('DELETE FROM categories WHERE id = ?', [record.id]);
+    await writeTombstone(txn, 'category', record.id, record.updatedAt);
+    return;
+  }
+  await writeCategory(txn, { ...record.category, updatedAt: record.updatedAt });
+  if (record.deletedAt !== null) {
+    await txn.runAsync('UPDATE categories SET deleted_at = ? WHERE id = ?', [record.deletedAt, record.id]);
+  }
+};
+
+/**
+ * Folds copies of one link saved separately on two devices into the copy with
+ * the smallest ID, so every device keeps the same one.
+ */
+const foldDuplicateClips = async (txn: SQLiteDatabase, embed: EmbedData, now: number): Promise<void> => {
+  const rows = await txn.getAllAsync<SyncClipRow>(
+    `SELECT ${SYNC_CLIP_COLUMNS} FROM clips c WHERE c.canonical_key = ? AND c.deleted_at IS NULL ORDER BY c.id`,
+    [getCanonicalKey(embed)]
+  );
+  if (rows.length < 2) return;
+
+  const [kept, ...duplicates] = rows.map(toSyncClip);
+  let clip = kept.clip as EmbedData;
+  for (const duplicate of duplicates) {
+    clip = { ...clip, ...mergeCategoryLinks(clip, duplicate.clip as EmbedData) };
+    await writeClipRecord(txn, { id: duplicate.id, updatedAt: now, deletedAt: now, clip: null });
+  }
+  await writeClipRecord(txn, { ...kept, updatedAt: now, clip: { ...clip, updatedAt: now } });
+  console.log(`🔄 Folded ${duplicates.length} synced duplicate(s) into clip:`, kept.id);
+};
+
+/** Merges the server's records into the library in one transaction; returns how many rows changed */
+export const applyRemoteChanges = async (changes: SyncChanges, now: number): Promise<number> => {
+  const db = await getDatabase();
+  let applied = 0;
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    // Categories first, so the clips linking to them find them
+    for (const remote of changes.categories) {
+      const local = await readCategoryRecord(txn, remote.id);
+      if (!local && !remote.category) continue;
+
+      const merged = mergeCategoryRecords(local, remote);
+      if (local && isSameRecord(local, merged)) continue;
+      await writeCategoryRecord(txn, merged);
+      applied++;
+    }
+
+    for (const remote of changes.clips) {
+      const local = await readClipRecord(txn, remote.id);
+      if (!local && !remote.clip) continue;
+
+      const merged = mergeClipRecords(local, remote);
+      if (local && isSameRecord(local, merged)) continue;
+      await writeClipRecord(txn, merged);
+      applied++;
+      if (merged.clip && merged.deletedAt === null) {
+        await foldDuplicateClips(txn, merged.clip, now);
+      }
+    }
+  });
+  return applied;
+};
@@ -0,0 +1,52 @@
+/**
+ * Record validation - checks stored clips and categories before they reach
+ * the screen. Lenient towards legacy shapes the migrations know how to
+ * upgrade; strict about anything a card or player would crash on.
+ */
+import { PLATFORM_TYPES } from '../providers';
+import { EmbedData } from '../types';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean'): boolean =>
+  value === undefined || typeof value === type;
+
+/** Returns why a stored clip is unusable, or null if it's valid */
+export const getEmbedProblem = (value: unknown): string | null => {
+  if (!isRecord(value)) return 'not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'missing id';
+  if (!PLATFORM_TYPES.includes(value.type as EmbedData['type'])) return `unknown type ${String(value.type)}`;
+  if (typeof value.url !== 'string' || !value.url) return 'missing url';
+  if (typeof value.title !== 'string' || typeof value.subtitle !== 'string') return 'missing title';
+  if (typeof value.createdAt !== 'number' || !Number.isFinite(value.createdAt)) return 'invalid createdAt';
+  if (value.categories !== undefined
+    && !(Array.isArray(value.categories) && value.categories.every(id => typeof id === 'string'))) {
+    return 'invalid categories';
+  }
+  if (value.categoryStamps !== undefined
+    && !(isRecord(value.categoryStamps) && Object.values(value.categoryStamps).every(at => typeof at === 'number'))) {
+    return 'invalid categoryStamps';
+  }
+
+  const optionalFields: [string, 'string' | 'number' | 'boolean'][] = [
+    ['videoId', 'string'], ['username', 'string'], ['postId', 'string'], ['subreddit', 'string'],
+    ['isShortUrl', 'boolean'], ['contentKind', 'string'], ['carouselIndex', 'number'],
+    ['startSeconds', 'number'], ['unlistedHash', 'string'], ['thumbnailUrl', 'string'],
+    ['videoUrl', 'string'], ['videoType', 'string'], ['canonicalKey', 'string'], ['updatedAt', 'number'],
+  ];
+  const badField = optionalFields.find(([field, type]) => !isOptional(value[field], type));
+  return badField ? `invalid ${badField[0]}` : null;
+};
+
+/** Returns why a stored category is unusable, or null if it's valid */
+export const getCategoryProblem = (value: unknown): string | null => {
+  if (!isRecord(value)) return 'not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'missing id';
+  if (typeof value.name !== 'string') return 'missing name';
+  if (typeof value.color !== 'string') return 'missing color';
+  if (typeof value.createdAt !== 'number') return 'invalid createdAt';
+  if (!isOptional(value.updatedAt, 'number')) return 'invalid updatedAt';
+  return null;
+};
+
@@ -0,0 +1,767 @@
+/**
+ * Clip store - the app-wide library state every screen shares.
+ *
+ * Screens read through the hooks in `hooks.ts` and change the library only
+ * through `clipActions`. Actions run one at a time on a write queue, each
+ * reading the rows it changes inside its turn, so two quick shares (or an
+ * edit racing a delete) can't overwrite each other with stale copies.
+ * Edits are recorded in the history as they land, so `undo` and `redo` take
+ * their turn on the same queue, and counted toward the next automatic backup.
+ * Every write stamps what it changes with the time, for sync to settle by.
+ * Racks are separate libraries; switching racks takes its turn on the queue
+ * too, and everything after it reads and writes the newly opened rack.
+ * Locked categories, and the clips filed under them, are left out of the
+ * state until the passcode is entered, and hidden again when the app locks.
+ */
+import { BackupInfo, BackupReason, deleteRackBackups, isBackupDue, writeBackup } from '../archive/backups';
+import { ArchiveMergePlan, ConflictResolution, planArchiveMerge } from '../archive/merge';
+import { CATEGORY_COLORS, DEFAULT_CATEGORIES } from '../constants';
+import { getCanonicalKey } from '../ingest';
+import {
+  applyRemoteChanges,
+  clearLegacyLibrary,
+  copyClipsToRack,
+  countClips,
+  countClipsByCategory,
+  countTrash,
+  DEFAULT_RACK,
+  DEFAULT_RACK_ID,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  deleteRackDatabase,
+  getActiveRackId,
+  getBackupSchedule,
+  getCanonicalKeys,
+  getCategories,
+  getClip,
+  getEditHistory,
+  getLibrary,
+  getLocalChanges,
+  getLockedCategoryIds,
+  getNewestClipId,
+  getPasscodeProblem,
+  getRackFilters,
+  getRacks,
+  getSavedActiveRackId,
+  getSyncState,
+  getTrashRetentionDays,
+  importLibrary,
+  INITIAL_SYNC_STATE,
+  insertCategory,
+  insertClips,
+  isEncryptionAvailable,
+  purgeCategory,
+  purgeClip,
+  purgeTrash,
+  rekeyDatabases,
+  renameCategory,
+  replaceLibrary,
+  restoreCategory,
+  restoreClip,
+  rewrapDatabaseKey,
+  setActiveRackId,
+  setBackupSchedule,
+  setEditHistory,
+  setLockedCategoryIds,
+  setRackFilters,
+  setRacks,
+  setSavedActiveRackId,
+  setSyncState,
+  setTrashRetentionDays,
+  trashCategory,
+  trashClip,
+  updateClip,
+} from '../storage';
+import { StoredLibrary } from '../storage/migrations';
+import { exchangeChanges, normalizeServerUrl, stampCategoryChanges, SYNC_PROTOCOL_VERSION } from '../sync';
+import { Category, EmbedData, Rack, RackFilters } from '../types';
+import {
+  describeEdit,
+  EditCommand,
+  EditDirection,
+  EditHistory,
+  EMPTY_HISTORY,
+  getEditEffects,
+  parseEditHistory,
+  pickClipFields,
+  recordEdit,
+  stepHistory,
+  toClipChanges,
+} from './history';
+import { getLockState, lockActions, setPasscodeState, subscribeToLock } from './lockStore';
+
+/** Library-wide state; clip pages are queried per screen by `useClips` */
+export interface LibraryState {
+  isLoaded: boolean;
+  racks: Rack[];
+  activeRackId: string; // the rack every other field describes
+  rackFilters: RackFilters | null; // the filters the open rack was last viewed with
+  categories: Category[]; // leaving out hidden ones
+  lockedCategoryIds: string[];
+  hiddenCategoryIds: string[]; // locked categories while the passcode hasn't been entered; their clips are left out too
+  categoryCounts: Record<string, number>;
+  clipTotal: number;
+  newestClipId: string | null;
+  trashCount: number; // clips and categories in Recently Deleted
+  trashRetentionDays: number;
+  undoLabel: string | null; // what undo would reverse, e.g. "Delete Clip"; null when there's nothing to undo
+  redoLabel: string | null;
+  syncServerUrl: string | null;
+  lastSyncedAt: number | null;
+  revision: number; // bumped after every write so clip queries re-run
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let state: LibraryState = {
+  isLoaded: false,
+  racks: [DEFAULT_RACK],
+  activeRackId: DEFAULT_RACK_ID,
+  rackFilters: null,
+  categories: [],
+  lockedCategoryIds: [],
+  hiddenCategoryIds: [],
+  categoryCounts: {},
+  clipTotal: 0,
+  newestClipId: null,
+  trashCount: 0,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  undoLabel: null,
+  redoLabel: null,
+  syncServerUrl: null,
+  lastSyncedAt: null,
+  revision: 0,
+};
+
+/** What one sync sent and took in */
+export interface SyncSummary {
+  sent: number;
+  received: number; // records the server sent that changed this library
+}
+
+let history: EditHistory = EMPTY_HISTORY;
+
+const listeners = new Set<() => void>();
+
+// Every write waits for the one queued before it; a failed write doesn't block the next
+let writeQueue: Promise<unknown> = Promise.resolve();
+let isLoadStarted = false;
+
+// A sync already on its way; asking again waits for it instead of starting another
+let syncInFlight: Promise<SyncSummary | null> | null = null;
+
+// Whether the passcode was entered to show locked categories since the app last locked
+let areLockedCategoriesShown = false;
+
+const setState = (changes: Partial<LibraryState>): void => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+/** The locked categories to leave out: all of them, unless the passcode was entered since the app last locked */
+const getHiddenCategoryIds = (lockedCategoryIds: string[]): string[] =>
+  getLockState().hasPasscode && !areLockedCategoriesShown ? lockedCategoryIds : [];
+
+/** Returns the canonical keys of a rack's saved clips, leaving out those in locked categories that are hidden right now */
+export const getVisibleCanonicalKeys = async (rackId: string = getActiveRackId()): Promise<Set<string>> =>
+  getCanonicalKeys(rackId, getHiddenCategoryIds(await getLockedCategoryIds(rackId)));
+
+/**
+ * Picks the new clips that match one hidden in a locked category. They aren't
+ * saved again, but they count as saved, so a share doesn't give the hidden
+ * clip away.
+ */
+const getQuietDuplicates = async (embeds: EmbedData[], rackId: string): Promise<EmbedData[]> => {
+  const visibleKeys = await getVisibleCanonicalKeys(rackId);
+  const allKeys = await getCanonicalKeys(rackId);
+  return embeds.filter(embed => {
+    const key = getCanonicalKey(embed);
+    return allKeys.has(key) && !visibleKeys.has(key);
+  });
+};
+
+/** Re-reads the library-wide state after a write */
+const refreshLibrary = async (): Promise<void> => {
+  const activeRackId = getActiveRackId();
+  const lockedCategoryIds = await getLockedCategoryIds();
+  const hiddenCategoryIds = getHiddenCategoryIds(lockedCategoryIds);
+  const [racks, rackFilters, categories, categoryCounts, clipTotal, newestClipId, trashCount, trashRetentionDays, sync] = await Promise.all([
+    getRacks(),
+    getRackFilters(activeRackId),
+    getCategories(),
+    countClipsByCategory(hiddenCategoryIds),
+    countClips({ hiddenCategoryIds }),
+    getNewestClipId(hiddenCategoryIds),
+    countTrash(),
+    getTrashRetentionDays(),
+    getSyncState(),
+  ]);
+  setState({
+    isLoaded: true,
+    racks,
+    activeRackId,
+    rackFilters,
+    categories: categories.filter(category => !hiddenCategoryIds.includes(category.id)),
+    lockedCategoryIds,
+    hiddenCategoryIds,
+    categoryCounts,
+    clipTotal,
+    newestClipId,
+    trashCount,
+    trashRetentionDays,
+    undoLabel: history.undo.length > 0 ? describeEdit(history.undo[history.undo.length - 1]) : null,
+    redoLabel: history.redo.length > 0 ? describeEdit(history.redo[history.redo.length - 1]) : null,
+    syncServerUrl: sync.serverUrl,
+    lastSyncedAt: sync.lastSyncedAt,
+    revision: state.revision + 1,
+  });
+};
+
+/** Queues a write behind every earlier one and refreshes the library once it lands */
+const enqueueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const run = writeQueue.then(async () => {
+    try {
+      return await write();
+    } finally {
+      await refreshLibrary().catch(error => console.error('Failed to refresh library:', error));
+    }
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+/** Queues a write that changes the library, counting it toward the next automatic backup */
+const enqueueChange = <T>(write: () => Promise<T>): Promise<T> => enqueueWrite(async () => {
+  const result = await write();
+  await noteChange().catch(error => console.error('Failed to back up library:', error));
+  return result;
+});
+
+export const getLibraryState = (): LibraryState => state;
+
+/** Subscribes to library changes; the first subscriber triggers the initial load */
+export const subscribeToLibrary = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  if (!isLoadStarted) {
+    // Loaded on the queue too, so the first read can't interleave with an early write
+    isLoadStarted = true;
+    enqueueWrite(loadLibrary).catch(error => console.error('Failed to load library:', error));
+    subscribeToLock(() => {
+      if (getLockState().isLocked && areLockedCategoriesShown) {
+        clipActions.hideLockedCategories().catch(error => console.error('Failed to hide locked categories:', error));
+      }
+    });
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Reopens the rack that was open last, then loads it */
+const loadLibrary = async (): Promise<void> => {
+  const savedRackId = await getSavedActiveRackId();
+  if (savedRackId && (await getRacks()).some(rack => rack.id === savedRackId)) {
+    setActiveRackId(savedRackId);
+  }
+  await openRack();
+};
+
+/** Restores the open rack's edit history, purges its expired trash and takes its daily backup if it's due */
+const openRack = async (): Promise<void> => {
+  history = parseEditHistory(await getEditHistory());
+  await purgeExpiredTrash();
+  if (isBackupDue(await getBackupSchedule(), Date.now())) {
+    await backUpLibrary('scheduled').catch(error => console.error('Failed to back up library:', error));
+  }
+};
+
+/** Snapshots the library and restarts the backup schedule */
+const backUpLibrary = async (reason: BackupReason): Promise<BackupInfo> => {
+  const backup = await writeBackup(reason);
+  await setBackupSchedule({ lastBackupAt: backup.createdAt, changesSinceBackup: 0 });
+  return backup;
+};
+
+/** Counts a change, backing up once enough changes or a day have passed */
+const noteChange = async (): Promise<void> => {
+  const schedule = await getBackupSchedule();
+  const next = { ...schedule, changesSinceBackup: schedule.changesSinceBackup + 1 };
+  if (isBackupDue(next, Date.now())) {
+    await backUpLibrary('scheduled');
+  } else {
+    await setBackupSchedule(next);
+  }
+};
+
+/** Permanently deletes whatever has been in the trash longer than the retention period */
+const purgeExpiredTrash = async (): Promise<void> => {
+  const days = await getTrashRetentionDays();
+  const purged = await purgeTrash(Date.now() - days * DAY_MS, Date.now());
+  if (purged > 0) {
+    console.log(`🗑️ Purged ${purged} items deleted over ${days} days ago`);
+  }
+};
+
+const saveHistory = async (next: EditHistory): Promise<void> => {
+  history = next;
+  await setEditHistory(JSON.stringify(history));
+};
+
+/** Applies changes to a clip, stamping when it and any category links changed */
+const withChanges = (current: EmbedData, changes: Partial<EmbedData>, now: number): EmbedData => ({
+  ...current,
+  ...changes,
+  id: current.id,
+  updatedAt: now,
+  categoryStamps: changes.categories ? stampCategoryChanges(current, changes.categories, now) : current.categoryStamps,
+});
+
+/** Stamps clips and categories coming in from elsewhere as changed now, so sync doesn't take them for old copies */
+const stampLibrary = (library: StoredLibrary, now: number): StoredLibrary => ({
+  embeds: library.embeds.map(embed => ({ ...embed, updatedAt: now })),
+  categories: library.categories.map(category => ({ ...category, updatedAt: now })),
+});
+
+/** Applies changes to the stored copy of a clip, not a screen's possibly stale one */
+const writeClipChanges = async (clipId: string, changes: Partial<EmbedData>): Promise<EmbedData | null> => {
+  const current = await getClip(clipId);
+  if (!current) return null;
+
+  const updated = withChanges(current, changes, Date.now());
+  await updateClip(updated);
+
+  const keys = Object.keys(changes) as (keyof EmbedData)[];
+  const before = pickClipFields(current, keys);
+  const after = pickClipFields(updated, keys);
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    await saveHistory(recordEdit(history, { type: 'editClip', clipId, before, after }));
+  }
+  return updated;
+};
+
+/** Runs a recorded command backwards or forwards, without recording it again */
+const applyEdit = async (command: EditCommand, direction: EditDirection): Promise<void> => {
+  const rackIds = new Set((await getRacks()).map(rack => rack.id));
+
+  for (const effect of getEditEffects(command, direction)) {
+    switch (effect.type) {
+      case 'trashClip':
+      case 'restoreClip':
+        // Copies in a since-deleted rack are left alone
+        if (effect.rackId && !rackIds.has(effect.rackId)) break;
+        await (effect.type === 'trashClip'
+          ? trashClip(effect.clipId, Date.now(), effect.rackId)
+          : restoreClip(effect.clipId, Date.now(), effect.rackId));
+        break;
+      case 'trashCategory':
+        await trashCategory(effect.categoryId, Date.now());
+        break;
+      case 'restoreCategory':
+        await restoreCategory(effect.categoryId, Date.now());
+        break;
+      case 'updateClip': {
+        const current = await getClip(effect.clipId);
+        if (current) await updateClip(withChanges(current, toClipChanges(effect.fields), Date.now()));
+        break;
+      }
+      case 'renameCategory':
+        await renameCategory(effect.categoryId, effect.name, Date.now());
+        break;
+    }
+  }
+};
+
+/** Undoes or redoes the next command in the history; resolves to its description, or null if there was none */
+const stepEdit = (direction: EditDirection): Promise<string | null> => enqueueChange(async () => {
+  const step = stepHistory(history, direction);
+  if (!step) return null;
+
+  await applyEdit(step.command, direction);
+  await saveHistory(step.history);
+  const description = describeEdit(step.command);
+  console.log(direction === 'undo' ? '↩️ Undid:' : '↪️ Redid:', description);
+  return description;
+});
+
+/** Switches every repository to another rack and saves it as the one to reopen */
+const activateRack = async (rackId: string): Promise<void> => {
+  setActiveRackId(rackId);
+  await setSavedActiveRackId(rackId);
+  await openRack();
+  console.log('📂 Opened rack:', rackId);
+};
+
+/** Returns the name trimmed, or null if it's blank or another rack already uses it */
+const getFreeRackName = (racks: Rack[], name: string, rackId: string | null = null): string | null => {
+  const trimmed = name.trim();
+  const isTaken = racks.some(rack => rack.id !== rackId && rack.name.toLowerCase() === trimmed.toLowerCase());
+  return trimmed && !isTaken ? trimmed : null;
+};
+
+const updateRack = async (rackId: string, changes: Partial<Omit<Rack, 'id'>>): Promise<void> => {
+  const racks = await getRacks();
+  await setRacks(racks.map(rack => (rack.id === rackId ? { ...rack, ...changes } : rack)));
+};
+
+/** Copies the stored copies of clips into another rack; resolves to the clips it didn't already have */
+const copyToRack = async (clipIds: string[], rackId: string): Promise<EmbedData[]> => {
+  const clips = (await Promise.all(clipIds.map(getClip))).filter((clip): clip is EmbedData => clip !== null);
+  return copyClipsToRack(clips, await getCategories(), rackId, Date.now());
+};
+
+/** Runs one sync; local changes are read and the reply applied on the write queue, with the request in between off it */
+const syncLibrary = async (): Promise<SyncSummary | null> => {
+  const outgoing = await enqueueWrite(async () => {
+    const sync = await getSyncState();
+    return sync.serverUrl ? { sync, rackId: getActiveRackId(), ...(await getLocalChanges(sync.pushedUpTo)) } : null;
+  });
+  const serverUrl = outgoing?.sync.serverUrl;
+  if (!outgoing || !serverUrl) return null;
+
+  const { sync, rackId, changes, changedUpTo } = outgoing;
+  const sent = changes.clips.length + changes.categories.length;
+  console.log(`🔄 Syncing ${sent} changes with`, serverUrl);
+  const response = await exchangeChanges(serverUrl, { protocol: SYNC_PROTOCOL_VERSION, since: sync.cursor, changes });
+
+  return enqueueWrite(async () => {
+    // Switching racks or servers mid-sync starts over, so this reply no longer applies
+    if (getActiveRackId() !== rackId) return null;
+    const current = await getSyncState();
+    if (current.serverUrl !== serverUrl) return null;
+
+    const received = await applyRemoteChanges(response.changes, Date.now());
+    await setSyncState({ ...current, cursor: response.cursor, pushedUpTo: changedUpTo, lastSyncedAt: Date.now() });
+    if (received > 0) {
+      await noteChange().catch(error => console.error('Failed to back up library:', error));
+    }
+    console.log('✅ Synced:', { sent, received });
+    return { sent, received };
+  });
+};
+
+/** Every way a screen can change the library */
+export const clipActions = {
+  /**
+   * Saves new clips, skipping any already in the library; resolves to the
+   * clips added, along with any that quietly matched a hidden clip
+   */
+  add: (embeds: EmbedData[]): Promise<EmbedData[]> => enqueueChange(async () => {
+    // Checked inside the queue, so a clip saved by an earlier share counts as a duplicate
+    const quietDuplicates = await getQuietDuplicates(embeds, getActiveRackId());
+    const keys = await getCanonicalKeys();
+    const now = Date.now();
+    const added = embeds
+      .filter(embed => {
+        const key = getCanonicalKey(embed);
+        if (keys.has(key)) return false;
+        keys.add(key);
+        return true;
+      })
+      .map(embed => ({ ...embed, updatedAt: now }));
+
+    if (added.length > 0) {
+      await insertClips(added);
+      await saveHistory(recordEdit(history, { type: 'addClips', clipIds: added.map(embed => embed.id) }));
+      console.log('💾 Saved clips:', added.length);
+    }
+    return [...added, ...quietDuplicates];
+  }),
+
+  /** Updates editable clip fields; resolves to null if the clip was deleted meanwhile */
+  update: (clipId: string, changes: Partial<EmbedData>): Promise<EmbedData | null> => enqueueChange(async () => {
+    const updated = await writeClipChanges(clipId, changes);
+    console.log('🏷️ Updated clip:', clipId, changes);
+    return updated;
+  }),
+
+  /** Replaces a clip's categories */
+  categorize: (clipId: string, categoryIds: string[]): Promise<EmbedData | null> => enqueueChange(async () => {
+    const updated = await writeClipChanges(clipId, { categories: categoryIds });
+    console.log('🏷️ Categorized clip:', clipId, categoryIds);
+    return updated;
+  }),
+
+  /** Moves a clip to Recently Deleted */
+  remove: (clipId: string): Promise<void> => enqueueChange(async () => {
+    await trashClip(clipId, Date.now());
+    await saveHistory(recordEdit(history, { type: 'deleteClip', clipId }));
+    console.log('🗑️ Deleted clip:', clipId);
+  }),
+
+  restoreClip: (clipId: string): Promise<void> => enqueueChange(async () => {
+    await restoreClip(clipId, Date.now());
+    await saveHistory(recordEdit(history, { type: 'restoreClip', clipId }));
+    console.log('♻️ Restored clip:', clipId);
+  }),
+
+  /** Deletes a trashed clip for good */
+  purgeClip: (clipId: string): Promise<void> => enqueueWrite(async () => {
+    await purgeClip(clipId, Date.now());
+    console.log('🗑️ Purged clip:', clipId);
+  }),
+
+  /** Creates a category with the next palette color; resolves to null for a blank name */
+  createCategory: (name: string): Promise<Category | null> => enqueueChange(async () => {
+    if (!name.trim()) return null;
+
+    const existing = await getCategories();
+    const category: Category = {
+      id: `category-${Date.now()}`,
+      name: name.trim(),
+      color: CATEGORY_COLORS[existing.length % CATEGORY_COLORS.length],
+      createdAt: Date.now(),
+    };
+    await insertCategory(category);
+    await saveHistory(recordEdit(history, { type: 'createCategory', categoryId: category.id }));
+    console.log('➕ Created new category:', category);
+    return category;
+  }),
+
+  /** Moves a category to Recently Deleted; its clips drop it until it's restored */
+  deleteCategory: (categoryId: string): Promise<void> => enqueueChange(async () => {
+    await trashCategory(categoryId, Date.now());
+    await saveHistory(recordEdit(history, { type: 'deleteCategory', categoryId }));
+    console.log('🗑️ Deleted category:', categoryId);
+  }),
+
+  /** Renames a category; resolves to null for a blank name or a category deleted meanwhile */
+  renameCategory: (categoryId: string, name: string): Promise<Category | null> => enqueueChange(async () => {
+    const category = (await getCategories()).find(c => c.id === categoryId);
+    if (!category || !name.trim()) return null;
+    if (category.name === name.trim()) return category;
+
+    const previousName = category.name;
+    await renameCategory(categoryId, name.trim(), Date.now());
+    await saveHistory(recordEdit(history, { type: 'renameCategory', categoryId, before: previousName, after: name.trim() }));
+    console.log('🏷️ Renamed category:', categoryId, name.trim());
+    return { ...category, name: name.trim() };
+  }),
+
+  /** Restores a category along with its links to every clip */
+  restoreCategory: (categoryId: string): Promise<void> => enqueueChange(async () => {
+    await restoreCategory(categoryId, Date.now());
+    await saveHistory(recordEdit(history, { type: 'restoreCategory', categoryId }));
+    console.log('♻️ Restored category:', categoryId);
+  }),
+
+  /** Deletes a trashed category for good */
+  purgeCategory: (categoryId: string): Promise<void> => enqueueWrite(async () => {
+    await purgeCategory(categoryId, Date.now());
+    console.log('🗑️ Purged category:', categoryId);
+  }),
+
+  /** Deletes everything in Recently Deleted for good */
+  emptyTrash: (): Promise<void> => enqueueWrite(async () => {
+    const purged = await purgeTrash(Number.MAX_SAFE_INTEGER, Date.now());
+    console.log('🗑️ Emptied Recently Deleted:', purged);
+  }),
+
+  /** Reverses the most recent edit; resolves to what was undone, e.g. "Delete Clip" */
+  undo: (): Promise<string | null> => stepEdit('undo'),
+
+  /** Re-applies the most recently undone edit */
+  redo: (): Promise<string | null> => stepEdit('redo'),
+
+  /** Changes how long deleted items are kept, purging any now past it */
+  setTrashRetentionDays: (days: number): Promise<void> => enqueueWrite(async () => {
+    await setTrashRetentionDays(days);
+    await purgeExpiredTrash();
+  }),
+
+  /** Merges an imported library, planned against the library as it is when the write runs */
+  importArchive: (library: StoredLibrary, resolution: ConflictResolution): Promise<ArchiveMergePlan> => enqueueChange(async () => {
+    const plan = planArchiveMerge(await getLibrary(), library, resolution);
+    if (plan.added.length > 0 || plan.updated.length > 0 || plan.categories.length > 0) {
+      await backUpLibrary('before-import').catch(error => console.error('Failed to back up before import:', error));
+    }
+    await importLibrary(stampLibrary({ embeds: [...plan.added, ...plan.updated], categories: plan.categories }, Date.now()));
+    console.log('📦 Imported archive:', plan);
+    return plan;
+  }),
+
+  /** Sets the sync server, starting over with a full sync; a blank address turns sync off */
+  setSyncServer: (url: string): Promise<void> => enqueueWrite(async () => {
+    const serverUrl = normalizeServerUrl(url) || null;
+    if ((await getSyncState()).serverUrl === serverUrl) return;
+
+    await setSyncState({ ...INITIAL_SYNC_STATE, serverUrl });
+    console.log('🔄 Sync server set:', serverUrl);
+  }),
+
+  /** Sends local changes to the sync server and merges in everyone else's; resolves to null when sync is off */
+  sync: (): Promise<SyncSummary | null> => {
+    if (!syncInFlight) {
+      syncInFlight = syncLibrary().finally(() => {
+        syncInFlight = null;
+      });
+    }
+    return syncInFlight;
+  },
+
+  /** Opens another rack; every screen then shows its clips, categories and settings */
+  switchRack: (rackId: string): Promise<void> => enqueueWrite(async () => {
+    if (rackId === getActiveRackId() || !(await getRacks()).some(rack => rack.id === rackId)) return;
+    await activateRack(rackId);
+  }),
+
+  /**
+   * Creates a rack and opens it; starter content adds the default categories
+   * and shows the sample clips. Resolves to null for a blank or taken name.
+   */
+  createRack: (name: string, withStarterContent: boolean): Promise<Rack | null> => enqueueWrite(async () => {
+    const racks = await getRacks();
+    const freeName = getFreeRackName(racks, name);
+    if (!freeName) return null;
+
+    const now = Date.now();
+    const rack: Rack = { id: `rack-${now}`, name: freeName, createdAt: now, showsStarterClips: withStarterContent };
+    await setRacks([...racks, rack]);
+    await activateRack(rack.id);
+    if (withStarterContent) {
+      for (const category of DEFAULT_CATEGORIES) {
+        await insertCategory({ ...category, createdAt: now, updatedAt: now });
+      }
+    }
+    console.log('➕ Created rack:', rack);
+    return rack;
+  }),
+
+  /** Renames a rack; resolves to false for a blank or taken name */
+  renameRack: (rackId: string, name: string): Promise<boolean> => enqueueWrite(async () => {
+    const freeName = getFreeRackName(await getRacks(), name, rackId);
+    if (!freeName) return false;
+
+    await updateRack(rackId, { name: freeName });
+    console.log('🏷️ Renamed rack:', rackId, freeName);
+    return true;
+  }),
+
+  /** Shows or hides the sample clips in a rack */
+  setShowsStarterClips: (rackId: string, showsStarterClips: boolean): Promise<void> => enqueueWrite(async () => {
+    await updateRack(rackId, { showsStarterClips });
+  }),
+
+  /**
+   * Deletes a rack with everything in it, its backups included; the default
+   * rack can't be deleted. Deleting the open rack opens the default one.
+   */
+  deleteRack: (rackId: string): Promise<void> => enqueueWrite(async () => {
+    if (rackId === DEFAULT_RACK_ID) return;
+
+    if (rackId === getActiveRackId()) {
+      await activateRack(DEFAULT_RACK_ID);
+    }
+    await setRacks((await getRacks()).filter(rack => rack.id !== rackId));
+    await deleteRackDatabase(rackId);
+    await deleteRackBackups(rackId).catch(error => console.error('Failed to delete rack backups:', error));
+    console.log('🗑️ Deleted rack:', rackId);
+  }),
+
+  /** Remembers the filters a rack is viewed with; saved straight away rather than queued, since no clip changes */
+  saveRackFilters: async (rackId: string, filters: RackFilters): Promise<void> => {
+    await setRackFilters(rackId, filters);
+    if (rackId === getActiveRackId()) setState({ rackFilters: filters });
+  },
+
+  /** Copies clips into another rack, filed under its categories of the same names; resolves to the clips it didn't already have */
+  copyToRack: (clipIds: string[], rackId: string): Promise<EmbedData[]> => enqueueWrite(async () => {
+    const copied = await copyToRack(clipIds, rackId);
+    console.log(`📤 Copied ${copied.length} clips to rack:`, rackId);
+    return copied;
+  }),
+
+  /**
+   * Saves new clips straight into another rack without switching to it;
+   * resolves to the ones it didn't already have, along with any that quietly
+   * matched a hidden clip
+   */
+  addToRack: (embeds: EmbedData[], rackId: string): Promise<EmbedData[]> => enqueueWrite(async () => {
+    const quietDuplicates = await getQuietDuplicates(embeds, rackId);
+    const added = await copyClipsToRack(embeds, [], rackId, Date.now());
+    console.log(`💾 Saved ${added.length} clips to rack:`, rackId);
+    return [...added, ...quietDuplicates];
+  }),
+
+  /** Copies clips into another rack, then moves them to this rack's Recently Deleted */
+  moveToRack: (clipIds: string[], rackId: string): Promise<EmbedData[]> => enqueueChange(async () => {
+    if (rackId === getActiveRackId()) return [];
+
+    const copied = await copyToRack(clipIds, rackId);
+    for (const clipId of clipIds) {
+      await trashClip(clipId, Date.now());
+    }
+    await saveHistory(recordEdit(history, { type: 'moveClips', clipIds, rackId, copiedIds: copied.map(clip => clip.id) }));
+    console.log(`📤 Moved ${clipIds.length} clips to rack:`, rackId);
+    return copied;
+  }),
+
+  /** Keeps a category and its clips hidden until the passcode is entered, or stops doing so */
+  setCategoryLocked: (categoryId: string, isLocked: boolean): Promise<void> => enqueueWrite(async () => {
+    const lockedCategoryIds = (await getLockedCategoryIds()).filter(id => id !== categoryId);
+    await setLockedCategoryIds(isLocked ? [...lockedCategoryIds, categoryId] : lockedCategoryIds);
+    console.log(isLocked ? '🔒 Locked category:' : '🔓 Unlocked category:', categoryId);
+  }),
+
+  /** Shows locked categories until the app next locks; resolves to why the passcode was refused, or null */
+  showLockedCategories: (passcode: string): Promise<string | null> => enqueueWrite(async () => {
+    const problem = await lockActions.checkPasscode(passcode);
+    if (problem) return problem;
+    areLockedCategoriesShown = true;
+    return null;
+  }),
+
+  /** Hides locked categories again */
+  hideLockedCategories: (): Promise<void> => enqueueWrite(async () => {
+    areLockedCategoriesShown = false;
+  }),
+
+  /**
+   * Sets, changes or (with null) removes the passcode. `current` must be the
+   * passcode in use, if there is one. Setting one encrypts every rack's
+   * database and backup file with a new random key wrapped under it and
+   * clears the unencrypted AsyncStorage copy; removing it decrypts them
+   * again, and changing it only wraps the same key under the new passcode.
+   * Resolves to why it was refused, or null.
+   */
+  changePasscode: (current: string | null, next: string | null): Promise<string | null> => enqueueWrite(async () => {
+    const { hasPasscode } = getLockState();
+    if (hasPasscode) {
+      const problem = await lockActions.checkPasscode(current ?? '');
+      if (problem) return problem;
+    }
+    if (next === null && !hasPasscode) return null;
+    if (next !== null) {
+      const problem = getPasscodeProblem(next);
+      if (problem) return problem;
+    }
+
+    if (hasPasscode && next !== null) {
+      await rewrapDatabaseKey(next);
+      console.log('🔒 Changed passcode');
+      return null;
+    }
+    if (next !== null && !(await isEncryptionAvailable())) return 'This build of ClipRack can\'t encrypt the library.';
+
+    await rekeyDatabases((await getRacks()).map(rack => rack.id), next);
+    if (next !== null) {
+      await clearLegacyLibrary().catch(error => console.error('Failed to clear the AsyncStorage library:', error));
+    }
+    setPasscodeState(next !== null);
+    console.log(next === null ? '🔓 Removed passcode' : '🔒 Encrypted the library behind a new passcode');
+    return null;
+  }),
+
+  /** Snapshots the library now; resolves to the new backup */
+  backUp: (): Promise<BackupInfo> => enqueueWrite(() => backUpLibrary('manual')),
+
+  /**
+   * Rolls the library back to a backup, first backing up the current one.
+   * Clips and categories added since move to Recently Deleted.
+   */
+  restoreBackup: (library: StoredLibrary): Promise<void> => enqueueChange(async () => {
+    await backUpLibrary('before-restore').catch(error => console.error('Failed to back up before restore:', error));
+    await replaceLibrary(stampLibrary(library, Date.now()), Date.now());
+    console.log(`♻️ Restored backup with ${library.embeds.length} clips`);
+  }),
+};
+
+export type ClipActions = typeof clipActions;
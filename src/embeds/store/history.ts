@@ -0,0 +1,163 @@
+/**
+ * Edit history - the undo and redo stacks behind the gallery's undo button.
+ *
+ * Each store action records the command it ran, holding just enough to run it
+ * either way: deletes and adds flip between the library and Recently Deleted,
+ * edits keep the fields from before and after, and moves to another rack flip
+ * both the clips here and their copies there. Bulk imports aren't recorded,
+ * and purging an item makes the commands that touch it do nothing.
+ */
+import { EmbedData } from '../types';
+
+/** Clip fields as an edit left them; null marks a field that was unset, since JSON drops undefined */
+export type ClipFields = { [K in keyof EmbedData]?: EmbedData[K] | null };
+
+export type EditCommand =
+  | { type: 'addClips'; clipIds: string[] }
+  | { type: 'deleteClip'; clipId: string }
+  | { type: 'restoreClip'; clipId: string }
+  | { type: 'editClip'; clipId: string; before: ClipFields; after: ClipFields }
+  | { type: 'createCategory'; categoryId: string }
+  | { type: 'deleteCategory'; categoryId: string }
+  | { type: 'restoreCategory'; categoryId: string }
+  | { type: 'renameCategory'; categoryId: string; before: string; after: string }
+  | { type: 'moveClips'; clipIds: string[]; rackId: string; copiedIds: string[] };
+
+export interface EditHistory {
+  undo: EditCommand[]; // oldest first
+  redo: EditCommand[]; // most recently undone last
+}
+
+export type EditDirection = 'undo' | 'redo';
+
+/** One change an undo or redo makes to the library; `rackId` is set for clips in another rack */
+export type EditEffect =
+  | { type: 'trashClip' | 'restoreClip'; clipId: string; rackId?: string }
+  | { type: 'trashCategory' | 'restoreCategory'; categoryId: string }
+  | { type: 'updateClip'; clipId: string; fields: ClipFields }
+  | { type: 'renameCategory'; categoryId: string; name: string };
+
+/** How many commands are kept, and saved across restarts */
+export const EDIT_HISTORY_LIMIT = 50;
+
+const COMMAND_TYPES = new Set<EditCommand['type']>([
+  'addClips',
+  'deleteClip',
+  'restoreClip',
+  'editClip',
+  'createCategory',
+  'deleteCategory',
+  'restoreCategory',
+  'renameCategory',
+  'moveClips',
+]);
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] };
+
+/** Returns a short name for a command, e.g. "Delete Clip" for "Undo Delete Clip" */
+export const describeEdit = (command: EditCommand): string => {
+  switch (command.type) {
+    case 'addClips':
+      return command.clipIds.length === 1 ? 'Add Clip' : `Add ${command.clipIds.length} Clips`;
+    case 'deleteClip':
+      return 'Delete Clip';
+    case 'restoreClip':
+      return 'Restore Clip';
+    case 'editClip':
+      return Object.keys(command.after).every(key => key === 'categories') ? 'Recategorize Clip' : 'Edit Clip';
+    case 'createCategory':
+      return 'New Category';
+    case 'deleteCategory':
+      return 'Delete Category';
+    case 'restoreCategory':
+      return 'Restore Category';
+    case 'renameCategory':
+      return 'Rename Category';
+    case 'moveClips':
+      return command.clipIds.length === 1 ? 'Move Clip' : `Move ${command.clipIds.length} Clips`;
+  }
+};
+
+/**
+ * Lists the changes that undo or redo a command, in order. Undoing an add or
+ * restore trashes the item again and undoing a delete brings it back; redoing
+ * does what the command first did.
+ */
+export const getEditEffects = (command: EditCommand, direction: EditDirection): EditEffect[] => {
+  const isUndo = direction === 'undo';
+  const shouldTrash = command.type === 'deleteClip' || command.type === 'deleteCategory' ? !isUndo : isUndo;
+  const clipEffect = (clipId: string, trash: boolean, rackId?: string): EditEffect =>
+    ({ type: trash ? 'trashClip' : 'restoreClip', clipId, ...(rackId ? { rackId } : {}) });
+
+  switch (command.type) {
+    case 'addClips':
+      return command.clipIds.map(clipId => clipEffect(clipId, shouldTrash));
+    case 'deleteClip':
+    case 'restoreClip':
+      return [clipEffect(command.clipId, shouldTrash)];
+    case 'editClip':
+      return [{ type: 'updateClip', clipId: command.clipId, fields: isUndo ? command.before : command.after }];
+    case 'createCategory':
+    case 'deleteCategory':
+    case 'restoreCategory':
+      return [{ type: shouldTrash ? 'trashCategory' : 'restoreCategory', categoryId: command.categoryId }];
+    case 'renameCategory':
+      return [{ type: 'renameCategory', categoryId: command.categoryId, name: isUndo ? command.before : command.after }];
+    case 'moveClips':
+      // Undoing brings the clips back here and trashes their copies in the other rack
+      return [
+        ...command.clipIds.map(clipId => clipEffect(clipId, !isUndo)),
+        ...command.copiedIds.map(clipId => clipEffect(clipId, isUndo, command.rackId)),
+      ];
+  }
+};
+
+/** Copies the named fields of a clip, marking unset ones with null */
+export const pickClipFields = (embed: EmbedData, keys: (keyof EmbedData)[]): ClipFields =>
+  Object.fromEntries(keys.map(key => [key, embed[key] ?? null]));
+
+/** Turns recorded fields back into clip changes, clearing the ones that were unset */
+export const toClipChanges = (fields: ClipFields): Partial<EmbedData> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value ?? undefined]));
+
+/** Adds a command to the undo stack, dropping the oldest past the limit; a new edit clears redo */
+export const recordEdit = (history: EditHistory, command: EditCommand): EditHistory => ({
+  undo: [...history.undo, command].slice(-EDIT_HISTORY_LIMIT),
+  redo: [],
+});
+
+/** Takes the next command to undo or redo and moves it to the other stack; null if there is none */
+export const stepHistory = (
+  history: EditHistory,
+  direction: EditDirection
+): { command: EditCommand; history: EditHistory } | null => {
+  const from = direction === 'undo' ? history.undo : history.redo;
+  const command = from[from.length - 1];
+  if (!command) return null;
+
+  const to = direction === 'undo' ? history.redo : history.undo;
+  const remaining = from.slice(0, -1);
+  const moved = [...to, command].slice(-EDIT_HISTORY_LIMIT);
+  return {
+    command,
+    history: direction === 'undo' ? { undo: remaining, redo: moved } : { undo: moved, redo: remaining },
+  };
+};
+
+const isEditCommand = (value: unknown): value is EditCommand =>
+  Boolean(value) && typeof value === 'object' && COMMAND_TYPES.has((value as EditCommand).type);
+
+/** Reads a saved history, dropping anything it doesn't recognize */
+export const parseEditHistory = (json: string | null): EditHistory => {
+  if (!json) return EMPTY_HISTORY;
+  try {
+    const saved = JSON.parse(json) as Partial<EditHistory> | null;
+    return {
+      undo: Array.isArray(saved?.undo) ? saved.undo.filter(isEditCommand).slice(-EDIT_HISTORY_LIMIT) : [],
+      redo: Array.isArray(saved?.redo) ? saved.redo.filter(isEditCommand).slice(-EDIT_HISTORY_LIMIT) : [],
+    };
+  } catch {
+    console.log('⚠️ Ignoring unreadable edit history');
+    return EMPTY_HISTORY;
+  }
+};
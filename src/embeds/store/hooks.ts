@@ -0,0 +1,140 @@
+/**
+ * Clip store hooks - how screens read the library.
+ *
+ * `useLibrary` exposes the library-wide state; `useClips` pages through the
+ * clips matching a query, `useTrash` lists Recently Deleted and `useBackups`
+ * the saved snapshots, each re-querying whenever a store action lands.
+ * `useAppLock` tells whether the app is behind its passcode.
+ */
+import React from 'react';
+import { BackupInfo, listBackups } from '../archive/backups';
+import { ClipQuery, countClips, getTrash, queryClips, TrashedCategory, TrashedClip } from '../storage';
+import { EmbedData } from '../types';
+import { getLibraryState, LibraryState, subscribeToLibrary } from './clipStore';
+import { getLockState, LockState, subscribeToLock } from './lockStore';
+
+const DEFAULT_PAGE_SIZE = 40;
+
+interface ClipPage {
+  clips: EmbedData[];
+  total: number; // clips matching the query, loaded or not
+}
+
+/** Returns the library-wide state, re-rendering when any store action lands */
+export const useLibrary = (): LibraryState =>
+  React.useSyncExternalStore(subscribeToLibrary, getLibraryState);
+
+/** Returns the saved categories and how many clips each holds */
+export const useCategories = (): Pick<LibraryState, 'categories' | 'categoryCounts'> => {
+  const { categories, categoryCounts } = useLibrary();
+  return { categories, categoryCounts };
+};
+
+/** Pages through the clips matching `query`, keeping loaded pages current as the library changes */
+export const useClips = (query: ClipQuery = {}, pageSize: number = DEFAULT_PAGE_SIZE) => {
+  const { revision } = useLibrary();
+  const [page, setPage] = React.useState<ClipPage>({ clips: [], total: 0 });
+  const [isLoading, setIsLoading] = React.useState(true);
+  const pageRef = React.useRef(page);
+  const requestRef = React.useRef(0);
+
+  // Callers usually pass a fresh object each render; only a different query should re-run it
+  const queryKey = JSON.stringify(query);
+  const stableQuery = React.useMemo(() => JSON.parse(queryKey) as ClipQuery, [queryKey]);
+  const loadedQueryRef = React.useRef(stableQuery);
+
+  const showPage = (next: ClipPage): void => {
+    pageRef.current = next;
+    setPage(next);
+  };
+
+  /** Re-queries from the top, keeping as many clips loaded as before plus any just added */
+  const reload = React.useCallback(async (): Promise<EmbedData[]> => {
+    const request = ++requestRef.current;
+    const isSameQuery = loadedQueryRef.current === stableQuery;
+    loadedQueryRef.current = stableQuery;
+
+    const total = await countClips(stableQuery);
+    const previous = isSameQuery ? pageRef.current : { clips: [], total };
+    const limit = Math.max(pageSize, previous.clips.length + Math.max(0, total - previous.total));
+    const clips = await queryClips({ ...stableQuery, limit });
+
+    // A newer reload (another write or a filter change) supersedes this one
+    if (request === requestRef.current) showPage({ clips, total });
+    return clips;
+  }, [stableQuery, pageSize]);
+
+  // Load the first page, and again after every store action or filter change
+  React.useEffect(() => {
+    reload()
+      .catch(error => console.error('Failed to load clips:', error))
+      .finally(() => setIsLoading(false));
+  }, [reload, revision]);
+
+  /** Loads the next page; resolves to the clips it added */
+  const loadMore = React.useCallback(async (): Promise<EmbedData[]> => {
+    const current = pageRef.current;
+    if (current.clips.length >= current.total) return [];
+
+    const request = requestRef.current;
+    const more = await queryClips({ ...stableQuery, limit: pageSize, offset: current.clips.length });
+    if (request !== requestRef.current) return [];
+
+    const fresh = more.filter(embed => !current.clips.some(e => e.id === embed.id));
+    showPage({ ...current, clips: [...current.clips, ...fresh] });
+    return fresh;
+  }, [stableQuery, pageSize]);
+
+  return { clips: page.clips, total: page.total, isLoading, hasMore: page.clips.length < page.total, loadMore, reload };
+};
+
+/** Lists Recently Deleted while `isActive`, most recently deleted first, leaving out hidden categories and their clips */
+export const useTrash = (isActive: boolean = true) => {
+  const { revision, hiddenCategoryIds } = useLibrary();
+  const [trash, setTrash] = React.useState<{ clips: TrashedClip[]; categories: TrashedCategory[] }>({
+    clips: [],
+    categories: [],
+  });
+
+  React.useEffect(() => {
+    if (!isActive) return;
+    let isCurrent = true;
+    getTrash()
+      .then(next => isCurrent && setTrash({
+        clips: next.clips.filter(item => !item.clip.categories?.some(id => hiddenCategoryIds.includes(id))),
+        categories: next.categories.filter(item => !hiddenCategoryIds.includes(item.category.id)),
+      }))
+      .catch(error => console.error('Failed to load Recently Deleted:', error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [isActive, revision, hiddenCategoryIds]);
+
+  return trash;
+};
+
+/** Lists the saved backups while `isActive`, newest first; null until they're read */
+export const useBackups = (isActive: boolean = true) => {
+  const { revision } = useLibrary();
+  const [backups, setBackups] = React.useState<BackupInfo[] | null>(null);
+
+  React.useEffect(() => {
+    if (!isActive) return;
+    let isCurrent = true;
+    listBackups()
+      .then(next => isCurrent && setBackups(next))
+      .catch(error => {
+        console.error('Failed to list backups:', error);
+        if (isCurrent) setBackups([]);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isActive, revision]);
+
+  return backups;
+};
+
+/** Returns whether a passcode is set and whether the app is locked behind it */
+export const useAppLock = (): LockState =>
+  React.useSyncExternalStore(subscribeToLock, getLockState);
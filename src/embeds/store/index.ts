@@ -0,0 +1,10 @@
+/**
+ * Clip store - app-wide library state, typed actions and the hooks screens
+ * read it through. Screens change the library only through `clipActions`,
+ * and unlock the app through `lockActions`.
+ */
+export { clipActions, getLibraryState, getVisibleCanonicalKeys, subscribeToLibrary } from './clipStore';
+export type { ClipActions, LibraryState, SyncSummary } from './clipStore';
+export { useAppLock, useBackups, useCategories, useClips, useLibrary, useTrash } from './hooks';
+export { getLockState, lockActions, subscribeToLock } from './lockStore';
+export type { LockActions, LockState } from './lockStore';
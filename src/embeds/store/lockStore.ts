@@ -0,0 +1,126 @@
+/**
+ * Lock store - whether the app is behind its passcode right now.
+ *
+ * With a passcode set the app starts locked and locks again whenever it goes
+ * to the background; the lock screen unlocks it through `lockActions`. Until
+ * the first unlock the encrypted databases can't be opened, so the clip
+ * store's load and every queued action simply wait. Wrong guesses are
+ * throttled once the free attempts run out, and the count is saved so a
+ * restart doesn't reset it.
+ */
+import { AppState } from 'react-native';
+import {
+  getPasscodeAttempts,
+  hasPasscode,
+  setPasscodeAttempts,
+  settlePendingKeyChange,
+  unlockDatabases,
+  unwrapDatabaseKey,
+} from '../storage';
+
+export interface LockState {
+  isReady: boolean; // false until it's known whether a passcode is set
+  hasPasscode: boolean;
+  isLocked: boolean;
+}
+
+// Wrong passcodes allowed before each further guess has to wait, a little longer every time
+const FREE_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 30 * 1000;
+
+let state: LockState = { isReady: false, hasPasscode: false, isLocked: true };
+
+const listeners = new Set<() => void>();
+
+let isLoadStarted = false;
+
+const setState = (changes: Partial<LockState>): void => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+/** Reads whether a passcode is set, then locks whenever the app goes to the background */
+const loadLock = async (): Promise<void> => {
+  // A passcode change cut short by a crash decides whether one is set, so it's settled first
+  await settlePendingKeyChange();
+  const isSet = await hasPasscode();
+  setState({ isReady: true, hasPasscode: isSet, isLocked: isSet });
+  AppState.addEventListener('change', appState => {
+    if (appState === 'background' && state.hasPasscode && !state.isLocked) {
+      setState({ isLocked: true });
+      console.log('🔒 Locked');
+    }
+  });
+};
+
+export const getLockState = (): LockState => state;
+
+/** Subscribes to lock changes; the first subscriber reads whether a passcode is set */
+export const subscribeToLock = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  if (!isLoadStarted) {
+    isLoadStarted = true;
+    loadLock().catch(error => {
+      // Staying locked is safer than guessing there's no passcode
+      console.error('Failed to read passcode setting:', error);
+      setState({ isReady: true, hasPasscode: true, isLocked: true });
+    });
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Records a passcode being set or removed; the app stays unlocked either way */
+export const setPasscodeState = (isSet: boolean): void => {
+  setState({ hasPasscode: isSet, isLocked: false });
+};
+
+/**
+ * Unwraps the database key with a passcode, throttling repeated wrong
+ * guesses; resolves to the key, or to why the passcode was refused
+ */
+const unwrapKey = async (passcode: string): Promise<{ key: string } | { problem: string }> => {
+  const attempts = await getPasscodeAttempts();
+  const waitMs = attempts.retryAt - Date.now();
+  if (waitMs > 0) return { problem: `Too many attempts. Try again in ${Math.ceil(waitMs / 1000)} seconds.` };
+
+  const key = await unwrapDatabaseKey(passcode);
+  if (key !== null) {
+    if (attempts.failedAttempts > 0) await setPasscodeAttempts({ failedAttempts: 0, retryAt: 0 });
+    return { key };
+  }
+  const failedAttempts = attempts.failedAttempts + 1;
+  const retryAt = failedAttempts >= FREE_ATTEMPTS ? Date.now() + RETRY_DELAY_MS * (failedAttempts - FREE_ATTEMPTS + 1) : 0;
+  await setPasscodeAttempts({ failedAttempts, retryAt });
+  return { problem: 'Wrong passcode.' };
+};
+
+/** Checks a passcode by unwrapping the key with it; resolves to why it was refused, or null if it's right */
+const checkPasscode = async (passcode: string): Promise<string | null> => {
+  const result = await unwrapKey(passcode);
+  return 'problem' in result ? result.problem : null;
+};
+
+export const lockActions = {
+  /** Unlocks the app; resolves to why the passcode was refused, or null once it's unlocked */
+  unlock: async (passcode: string): Promise<string | null> => {
+    const result = await unwrapKey(passcode);
+    if ('problem' in result) return result.problem;
+
+    await unlockDatabases(result.key);
+    setState({ isLocked: false });
+    console.log('🔓 Unlocked');
+    return null;
+  },
+
+  /** Checks the passcode without unlocking anything, e.g. before changing it */
+  checkPasscode,
+
+  /** Locks the app now, if it has a passcode */
+  lock: (): void => {
+    if (state.hasPasscode) setState({ isLocked: true });
+  },
+};
+
+export type LockActions = typeof lockActions;
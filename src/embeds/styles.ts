@@ -33,10 +33,14 @@ export const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '700',
     textAlign: 'center',
-    flex: 1,
+    flexShrink: 1,
   },
-  titleSpacer: {
-    width: 44, // Same width as filter button to balance the layout
+  rackSwitcher: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
   },
   filterButton: {
     backgroundColor: 'rgba(0, 123, 255, 0.15)',
@@ -142,6 +146,8 @@ export const styles = StyleSheet.create({
     color: '#cfcfd4',
     fontSize: 18,
     fontWeight: '600',
+    textAlign: 'center',
+    paddingHorizontal: 12,
   },
   loadingContainer: {
     flex: 1,
@@ -178,6 +184,23 @@ export const styles = StyleSheet.create({
     top: 8,
     left: 8,
   },
+  startTimeTag: {
+    position: 'absolute',
+    bottom: 8,
+    right: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  startTimeTagText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
   newBadge: {
     backgroundColor: 'rgba(0, 123, 255, 0.7)',
     color: '#fff',
@@ -200,44 +223,10 @@ export const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.15)',
   },
-  platformTagYouTube: {
-    backgroundColor: 'rgba(204, 0, 0, 0.4)',
-    borderColor: 'rgba(255, 0, 0, 0.4)',
-  },
-  platformTagTikTok: {
-    backgroundColor: 'transparent',
-    borderColor: 'rgba(0, 242, 234, 0.4)',
-    overflow: 'hidden',
-  },
-  platformTagTikTokGradient: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    borderRadius: 6,
-    overflow: 'hidden',
-    flexDirection: 'column',
-  },
-  tiktokColorSection: {
-    flex: 1,
-    height: '100%',
-  },
-  tiktokColorSection1: {
-    backgroundColor: 'rgba(0, 242, 234, 0.4)',
-  },
-  tiktokColorSection2: {
-    backgroundColor: 'rgba(0, 0, 0, 0.4)',
-  },
-  tiktokColorSection3: {
-    backgroundColor: 'rgba(255, 0, 80, 0.4)',
-  },
-  platformTagInstagram: {
-    backgroundColor: 'transparent',
-    borderColor: 'rgba(131, 58, 180, 1)',
+  platformTagGradientTag: {
     overflow: 'hidden',
   },
-  platformTagInstagramGradient: {
+  platformTagGradient: {
     position: 'absolute',
     top: 0,
     left: 0,
@@ -247,19 +236,10 @@ export const styles = StyleSheet.create({
     overflow: 'hidden',
     flexDirection: 'column',
   },
-  instagramColorSection: {
+  platformTagColorSection: {
     flex: 1,
     height: '100%',
   },
-  instagramColorSection1: {
-    backgroundColor: 'rgba(131, 58, 180, 0.4)',
-  },
-  instagramColorSection2: {
-    backgroundColor: 'rgba(225, 48, 108, 0.4)',
-  },
-  instagramColorSection3: {
-    backgroundColor: 'rgba(252, 175, 69, 0.4)',
-  },
   platformTagText: {
     color: '#fff',
     fontSize: 10,
@@ -557,6 +537,9 @@ export const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  modalSaveButtonDisabled: {
+    opacity: 0.4,
+  },
   modalHeaderSpacer: {
     width: 40,
   },
@@ -573,6 +556,14 @@ export const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 59, 48, 0.4)',
   },
+  modalRackButton: {
+    backgroundColor: 'rgba(0, 123, 255, 0.15)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 123, 255, 0.4)',
+  },
   modalDeleteButtonText: {
     color: '#FF3B30',
     fontSize: 16,
@@ -609,6 +600,26 @@ export const styles = StyleSheet.create({
     fontFamily: 'monospace',
   },
   
+  // Start time section
+  startTimeSection: {
+    paddingVertical: 24,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+    gap: 12,
+  },
+  startTimeInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    color: '#e8e8ea',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+    fontVariant: ['tabular-nums'],
+  },
+  
   // Categories section
   categoriesSection: {
     paddingVertical: 24,
@@ -737,6 +748,112 @@ export const styles = StyleSheet.create({
     color: '#007bff',
   },
   
+  // Share import preview styles
+  importList: {
+    paddingVertical: 20,
+    paddingHorizontal: 20,
+  },
+  importListSummary: {
+    color: '#999',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  importItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 12,
+  },
+  importItemSkipped: {
+    opacity: 0.5,
+  },
+  importItemInfo: {
+    flex: 1,
+  },
+  importItemPlatform: {
+    color: '#9a9ba1',
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  importItemTitle: {
+    color: '#e8e8ea',
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  importItemUrl: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  importItemBadge: {
+    color: '#FFEAA7',
+    fontSize: 11,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  archiveConflictSection: {
+    marginTop: 24,
+  },
+  exportFormatRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  retentionOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  undoToast: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 100,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1c1d22',
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  undoToastText: {
+    color: '#e8e8ea',
+    fontSize: 15,
+    flex: 1,
+  },
+  undoToastButtonText: {
+    color: '#007bff',
+    fontSize: 15,
+    fontWeight: '700',
+    marginLeft: 16,
+  },
+  exportFormatButton: {
+    flex: 1,
+    backgroundColor: '#007bff',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  
   // Category manager styles
   addCategorySection: {
     paddingVertical: 20,
@@ -797,6 +914,7 @@ export const styles = StyleSheet.create({
     marginBottom: 8,
   },
   categoryItemInfo: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
   },
@@ -806,6 +924,21 @@ export const styles = StyleSheet.create({
     fontWeight: '500',
     marginLeft: 12,
   },
+  categoryRenameInput: {
+    marginLeft: 12,
+    paddingVertical: 6,
+  },
+  syncServerInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 8,
+    color: '#e8e8ea',
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
   deleteCategoryButton: {
     padding: 8,
   },
@@ -817,6 +950,12 @@ export const styles = StyleSheet.create({
     backgroundColor: 'rgba(0, 123, 255, 0.3)',
     borderColor: 'rgba(0, 123, 255, 0.6)',
   },
+  headerButtonSpacing: {
+    marginLeft: 8,
+  },
+  headerButtonDisabled: {
+    opacity: 0.35,
+  },
   
   // Category filter modal
   categoryFilterOption: {
@@ -0,0 +1,21 @@
+/**
+ * Sync - the delta protocol spoken with a self-hosted sync server and the
+ * last-writer-wins merge both sides apply to the records they exchange.
+ */
+export {
+  isSameRecord,
+  mergeCategoryLinks,
+  mergeCategoryRecords,
+  mergeClipRecords,
+  stableStringify,
+  stampCategoryChanges,
+} from './merge';
+export {
+  EMPTY_CHANGES,
+  exchangeChanges,
+  getSyncCategoryProblem,
+  getSyncClipProblem,
+  normalizeServerUrl,
+  SYNC_PROTOCOL_VERSION,
+} from './protocol';
+export type { SyncCategory, SyncChanges, SyncClip, SyncRequest, SyncResponse } from './protocol';
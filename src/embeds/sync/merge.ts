@@ -0,0 +1,73 @@
+/**
+ * Sync merge - how two copies of a record settle, the same way on every
+ * device and on the server.
+ *
+ * The copy changed last wins, except for a clip's categories: each category
+ * link follows whichever copy changed that link last, so categories added on
+ * two devices at once both survive while a later removal still sticks.
+ */
+import { EmbedData } from '../types';
+import { SyncCategory, SyncClip } from './protocol';
+
+/** JSON with sorted keys, so equal records compare equal whatever order their fields were set in */
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, field) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? Object.fromEntries(Object.keys(field).sort().map(key => [key, field[key]]))
+      : field
+  );
+
+export const isSameRecord = <T extends SyncClip | SyncCategory>(a: T, b: T): boolean =>
+  stableStringify(a) === stableStringify(b);
+
+/** Whether `a` beats `b`: the later change wins, and exact ties are settled the same way everywhere */
+const isNewer = <T extends SyncClip | SyncCategory>(a: T, b: T): boolean =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : stableStringify(a) > stableStringify(b);
+
+/** When a clip's link to a category last changed; links from before sync was added count as oldest */
+const getLinkStamp = (embed: EmbedData, categoryId: string): number =>
+  embed.categoryStamps?.[categoryId] ?? (embed.categories?.includes(categoryId) ? 0 : -1);
+
+/** Merges two copies' categories link by link, keeping each link as the copy that changed it last has it */
+export const mergeCategoryLinks = (newer: EmbedData, older: EmbedData): Pick<EmbedData, 'categories' | 'categoryStamps'> => {
+  const ids = new Set([
+    ...(newer.categories ?? []),
+    ...(older.categories ?? []),
+    ...Object.keys(newer.categoryStamps ?? {}),
+    ...Object.keys(older.categoryStamps ?? {}),
+  ]);
+
+  const categories: string[] = [];
+  const categoryStamps: Record<string, number> = {};
+  for (const id of ids) {
+    const newerStamp = getLinkStamp(newer, id);
+    const olderStamp = getLinkStamp(older, id);
+    if ((olderStamp > newerStamp ? older : newer).categories?.includes(id)) categories.push(id);
+    if (Math.max(newerStamp, olderStamp) > 0) categoryStamps[id] = Math.max(newerStamp, olderStamp);
+  }
+  return { categories: categories.sort(), categoryStamps: Object.keys(categoryStamps).length > 0 ? categoryStamps : undefined };
+};
+
+/** Records when each category was added to or removed from a clip */
+export const stampCategoryChanges = (embed: EmbedData, categoryIds: string[], now: number): Record<string, number> | undefined => {
+  const before = new Set(embed.categories ?? []);
+  const after = new Set(categoryIds);
+  const changed = [...before, ...after].filter(id => before.has(id) !== after.has(id));
+  if (changed.length === 0) return embed.categoryStamps;
+
+  return { ...embed.categoryStamps, ...Object.fromEntries(changed.map(id => [id, now])) };
+};
+
+/** Settles a clip both sides have; `local` is null when only the other side has it */
+export const mergeClipRecords = (local: SyncClip | null, remote: SyncClip): SyncClip => {
+  if (!local) return remote;
+
+  const [newer, older] = isNewer(remote, local) ? [remote, local] : [local, remote];
+  // A purge beats older edits, and a newer edit brings a purged clip back whole
+  if (!newer.clip || !older.clip) return newer;
+  return { ...newer, clip: { ...newer.clip, ...mergeCategoryLinks(newer.clip, older.clip) } };
+};
+
+/** Settles a category both sides have; the copy changed last wins */
+export const mergeCategoryRecords = (local: SyncCategory | null, remote: SyncCategory): SyncCategory =>
+  !local || isNewer(remote, local) ? remote : local;
@@ -0,0 +1,117 @@
+/**
+ * Sync protocol - the records and requests a device exchanges with a sync
+ * server (scripts/sync-server.js is the reference one).
+ *
+ * A device sends every record it changed since its last sync along with the
+ * server cursor it last saw; the server merges them and answers with every
+ * record that changed after that cursor, including the merged results of the
+ * ones just sent. One round trip both pushes and pulls.
+ */
+import { getCategoryProblem, getEmbedProblem } from '../storage/validation';
+import { Category, EmbedData } from '../types';
+
+export const SYNC_PROTOCOL_VERSION = 1;
+
+/** A clip as it travels between devices; a purged clip travels as a tombstone without data */
+export interface SyncClip {
+  id: string;
+  updatedAt: number;
+  deletedAt: number | null; // set while the clip is in Recently Deleted, and on tombstones
+  clip: EmbedData | null; // null once purged
+}
+
+export interface SyncCategory {
+  id: string;
+  updatedAt: number;
+  deletedAt: number | null;
+  category: Category | null; // null once purged
+}
+
+export interface SyncChanges {
+  clips: SyncClip[];
+  categories: SyncCategory[];
+}
+
+/** POST /v1/changes */
+export interface SyncRequest {
+  protocol: number;
+  since: string | null; // cursor from the last response; null for a first sync
+  changes: SyncChanges;
+}
+
+/** Answer to both POST and GET /v1/changes */
+export interface SyncResponse {
+  protocol: number;
+  cursor: string;
+  changes: SyncChanges;
+}
+
+export const EMPTY_CHANGES: SyncChanges = { clips: [], categories: [] };
+
+const isTimestamp = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+
+const getStampProblem = (record: Partial<SyncClip | SyncCategory>): string | null => {
+  if (typeof record.id !== 'string' || !record.id) return 'missing id';
+  if (!isTimestamp(record.updatedAt)) return 'invalid updatedAt';
+  if (record.deletedAt !== null && !isTimestamp(record.deletedAt)) return 'invalid deletedAt';
+  return null;
+};
+
+/** Returns why a received clip record is unusable, or null if it's valid */
+export const getSyncClipProblem = (value: unknown): string | null => {
+  const record = (value ?? {}) as Partial<SyncClip>;
+  const problem = getStampProblem(record);
+  if (problem) return problem;
+  if (record.clip === null) return record.deletedAt === null ? 'tombstone without deletedAt' : null;
+  if (record.clip?.id !== record.id) return 'clip id mismatch';
+  return getEmbedProblem(record.clip);
+};
+
+/** Returns why a received category record is unusable, or null if it's valid */
+export const getSyncCategoryProblem = (value: unknown): string | null => {
+  const record = (value ?? {}) as Partial<SyncCategory>;
+  const problem = getStampProblem(record);
+  if (problem) return problem;
+  if (record.category === null) return record.deletedAt === null ? 'tombstone without deletedAt' : null;
+  if (record.category?.id !== record.id) return 'category id mismatch';
+  return getCategoryProblem(record.category);
+};
+
+/** Trims a server address and drops trailing slashes, e.g. "http://192.168.1.5:8787" */
+export const normalizeServerUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/** Sends local changes and resolves to the server's; throws with a user-facing message on failure */
+export const exchangeChanges = async (
+  serverUrl: string,
+  request: SyncRequest,
+  fetchImpl: typeof fetch = fetch
+): Promise<SyncResponse> => {
+  let response: Response;
+  try {
+    response = await fetchImpl(`${normalizeServerUrl(serverUrl)}/v1/changes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+  } catch {
+    throw new Error('Could not reach the sync server. Check the address and that it is running.');
+  }
+
+  const body = await response.json().catch(() => null) as (Partial<SyncResponse> & { error?: string }) | null;
+  if (!response.ok) {
+    throw new Error(body?.error ?? `The sync server answered with status ${response.status}.`);
+  }
+  if (!body || body.protocol !== SYNC_PROTOCOL_VERSION || typeof body.cursor !== 'string' || !body.changes) {
+    throw new Error('The sync server sent a response this version of ClipRack does not understand.');
+  }
+  return {
+    protocol: body.protocol,
+    cursor: body.cursor,
+    changes: {
+      clips: Array.isArray(body.changes.clips) ? body.changes.clips.filter(clip => getSyncClipProblem(clip) === null) : [],
+      categories: Array.isArray(body.changes.categories)
+        ? body.changes.categories.filter(category => getSyncCategoryProblem(category) === null)
+        : [],
+    },
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * Start-time helpers for "watch from here" links. Accepts every format the
+ * platforms use: 90, 90s, 1m30s, 1h2m3s, 1:30 and 1:02:03.
+ */
+
+/** Parses a timestamp into whole seconds, or null if it isn't one */
+export const parseTimestamp = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+
+  // Plain seconds: "90" or "90s"
+  const secondsMatch = trimmed.match(/^(\d+)s?$/);
+  if (secondsMatch) return Number(secondsMatch[1]);
+
+  // Unit form: "1h2m3s", "2m", "1h30s"
+  const unitMatch = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (unitMatch && (unitMatch[1] || unitMatch[2] || unitMatch[3])) {
+    const [, hours = '0', minutes = '0', seconds = '0'] = unitMatch;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  // Clock form: "1:30" or "1:02:03"
+  const clockMatch = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clockMatch) {
+    const [, hours = '0', minutes, seconds] = clockMatch;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  return null;
+};
+
+/** Formats seconds as a clock string, e.g. 90 -> "1:30", 3723 -> "1:02:03" */
+export const formatTimestamp = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const paddedSeconds = String(seconds).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${paddedSeconds}`
+    : `${minutes}:${paddedSeconds}`;
+};
@@ -1,15 +1,33 @@
+import { UrlParts } from './url';
+
+export type PlatformType = 'youtube' | 'tiktok' | 'instagram' | 'vimeo' | 'x' | 'reddit' | 'twitch' | 'link';
+
+/** What kind of post a clip points to, for platforms that host several */
+export type ContentKind = 'video' | 'photo' | 'post' | 'reel' | 'tv';
+
 export interface EmbedData {
   id: string;
-  type: 'youtube' | 'tiktok' | 'instagram';
+  type: PlatformType;
   title: string;
   subtitle: string;
   url: string;
   videoId?: string;
   username?: string;
   postId?: string;
-  isShortUrl?: boolean; // for TikTok short URLs
+  subreddit?: string; // for Reddit posts
+  isShortUrl?: boolean; // for TikTok and Reddit short URLs
+  contentKind?: ContentKind; // for TikTok (video/photo) and Instagram (post/reel/tv)
+  carouselIndex?: number; // for Instagram carousels, 1-based like img_index
+  startSeconds?: number; // playback start offset from the shared link
+  unlistedHash?: string; // for Vimeo unlisted videos
+  thumbnailUrl?: string; // for link clips (og:image)
+  videoUrl?: string; // for link clips (og:video)
+  videoType?: string; // for link clips (og:video:type)
   createdAt: number; // timestamp for sorting
   categories?: string[]; // array of category IDs
+  canonicalKey?: string; // stable identity for dedupe, e.g. "youtube:VIDEO_ID"
+  updatedAt?: number; // last change on any device, for last-writer-wins sync
+  categoryStamps?: Record<string, number>; // when each category was last added to or removed from the clip
 }
 
 export interface Category {
@@ -17,6 +35,90 @@ export interface Category {
   name: string;
   color: string;
   createdAt: number;
+  updatedAt?: number; // last change on any device, for last-writer-wins sync
 }
 
-export type Provider = 'menu' | 'youtube' | 'tiktok' | 'instagram';
+/** A separate library with its own clips, categories, filters and settings */
+export interface Rack {
+  id: string;
+  name: string;
+  createdAt: number;
+  showsStarterClips: boolean; // whether the built-in sample clips follow the saved ones
+}
+
+/** The gallery filters a rack was last viewed with */
+export interface RackFilters {
+  platforms: PlatformType[];
+  categoryId: string | null;
+}
+
+export type Provider = 'menu' | PlatformType;
+
+/** Metadata discovered from a page's OpenGraph, Twitter card and oEmbed tags */
+export interface PageMetadata {
+  title?: string;
+  image?: string;
+  siteName?: string;
+  author?: string;
+  video?: string;
+  videoType?: string;
+}
+
+/** Network access used while turning a shared URL into a clip */
+export interface IngestNetwork {
+  /** Follows a short link's redirects; null if it can't be resolved */
+  resolveShortUrl: (url: string) => Promise<string | null>;
+  /** Fetches a page's discovery metadata; null if it can't be fetched */
+  fetchPageMetadata: (url: string) => Promise<PageMetadata | null>;
+}
+
+/** Everything a provider may touch outside of the URL itself, injectable for tests */
+export interface IngestContext {
+  network: IngestNetwork;
+  now: () => number;
+}
+
+/** Colours used to draw a platform's tag on clip cards */
+export interface PlatformTagStyle {
+  backgroundColor: string;
+  borderColor: string;
+  gradient?: string[]; // stacked colour bands drawn behind the label
+}
+
+/**
+ * A supported platform. Each provider owns everything platform-specific:
+ * URL matching, clip creation, player HTML, thumbnails and display metadata.
+ */
+export interface EmbedProvider {
+  type: PlatformType;
+  displayName: string;
+  color: string;
+  filterIcon: string;
+  tagStyle: PlatformTagStyle;
+  /** Whether the player honours EmbedData.startSeconds */
+  supportsStartTime?: boolean;
+  /** Base URL for the player WebView origin */
+  baseUrl: string;
+  /** Normalizes hosts, paths and query of this platform's URLs; null for other hosts */
+  normalizeUrl?: (parts: UrlParts) => UrlParts | null;
+  /** Returns the clip's stable identity, e.g. "youtube:VIDEO_ID" */
+  getCanonicalKey: (embed: EmbedData) => string;
+  /** Returns true if the URL belongs to this platform */
+  matchesUrl: (url: string) => boolean;
+  /** Builds a clip from a canonical URL, or null if the URL can't be parsed */
+  createEmbed: (url: string, context: IngestContext) => Promise<EmbedData | null>;
+  /** Builds the player HTML, or null if the clip is missing required data */
+  generateHtml: (embed: EmbedData) => string | null;
+  /** Returns a thumbnail URL that can be derived without a network call */
+  getThumbnailUrl?: (embed: EmbedData) => string | null;
+  /** Looks up a thumbnail URL remotely (oEmbed etc.) */
+  fetchThumbnailUrl?: (embed: EmbedData) => Promise<string | null>;
+  /** Builds HTML for a live WebView tile, for platforms without thumbnails */
+  generateTileHtml?: (embed: EmbedData) => string | null;
+  /** Returns a URL to load directly in the player instead of generated HTML */
+  getPlayerUri?: (embed: EmbedData) => string | null;
+  /** Label for the card's platform tag; defaults to displayName */
+  getTagLabel?: (embed: EmbedData) => string;
+  /** Text shown on cards without a thumbnail; defaults to the platform type */
+  getPlaceholderLabel?: (embed: EmbedData) => string;
+}
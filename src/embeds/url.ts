@@ -0,0 +1,72 @@
+/**
+ * Minimal URL helpers. React Native's built-in URL class doesn't implement
+ * hostname, pathname or searchParams, so shared links are split by hand.
+ */
+
+export interface UrlParts {
+  protocol: string;
+  host: string; // lowercased, may include a port
+  path: string; // always starts with "/"
+  query: [string, string][]; // raw (still percent-encoded) key/value pairs, in order
+  hash: string; // without the leading "#"
+}
+
+/** Splits an absolute URL into its parts, or null if it isn't one */
+export const splitUrl = (url: string): UrlParts | null => {
+  const match = url.trim().match(/^([a-z][a-z0-9+.-]*):\/\/([^\/?#\s]+)([^?#\s]*)(?:\?([^#\s]*))?(?:#(\S*))?$/i);
+  if (!match) return null;
+
+  const query = (match[4] || '')
+    .split('&')
+    .filter(Boolean)
+    .map((pair): [string, string] => {
+      const separator = pair.indexOf('=');
+      return separator === -1 ? [pair, ''] : [pair.slice(0, separator), pair.slice(separator + 1)];
+    });
+
+  return {
+    protocol: match[1].toLowerCase(),
+    host: match[2].toLowerCase(),
+    path: match[3] || '/',
+    query,
+    hash: match[5] || '',
+  };
+};
+
+/** Joins URL parts back into a string */
+export const joinUrl = ({ protocol, host, path, query, hash }: UrlParts): string => {
+  const search = query.map(([key, value]) => value ? `${key}=${value}` : key).join('&');
+  return `${protocol}://${host}${path}${search ? `?${search}` : ''}${hash ? `#${hash}` : ''}`;
+};
+
+/** Returns a query parameter's decoded value */
+export const getQueryParam = (parts: UrlParts, name: string): string | undefined => {
+  const value = parts.query.find(([key]) => key === name)?.[1];
+  if (value === undefined) return undefined;
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+/** Returns the URL's host without a leading "www." */
+export const getHostLabel = (url: string): string => {
+  const parts = splitUrl(url);
+  return parts ? parts.host.replace(/^www\./, '') : url;
+};
+
+/** Resolves a possibly relative URL (as found in page HTML) against a base URL */
+export const resolveUrl = (value: string | undefined, baseUrl: string): string | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (splitUrl(trimmed)) return trimmed;
+
+  const base = splitUrl(baseUrl);
+  if (!base) return undefined;
+  if (trimmed.startsWith('//')) return `${base.protocol}:${trimmed}`;
+  if (trimmed.startsWith('/')) return `${base.protocol}://${base.host}${trimmed}`;
+
+  const directory = base.path.slice(0, base.path.lastIndexOf('/') + 1);
+  return `${base.protocol}://${base.host}${directory}${trimmed}`;
+};